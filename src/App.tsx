@@ -1,7 +1,13 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { ImageUploader } from './components/ImageUploader';
-import { CropEditor } from './components/CropEditor';
+import { CropEditor, EditorSnapshot } from './components/CropEditor';
 import { Header } from './components/Header';
+import { ImageQueue } from './components/ImageQueue';
+import { ProjectFile } from './utils/projectFile';
+import { DEFAULT_EXPORT_SETTINGS } from './utils/exportSettings';
+import { IDENTITY_ORIENTATION } from './utils/orientation';
+import { LoadedImage, loadImageFiles } from './utils/imageLoader';
+import { useImagePaste } from './hooks/useImagePaste';
 
 export interface CropArea {
   id: string;
@@ -11,41 +17,273 @@ export interface CropArea {
   height: number;
   aspectRatio?: number;
   name: string;
+  label?: string; // Class name for annotation exports
   rotation?: number;
   gridId?: string; // New property to identify grid membership
   gridPosition?: { row: number; col: number }; // Position within grid
   visible?: boolean; // New property for visibility toggle
   zIndex?: number; // New property for layer ordering
+  outputSize?: { width: number; height: number }; // Fixed export size, e.g. carousel panels; wins over the resize settings
+}
+
+// How the loaded image is turned before cropping: mirrored left-to-right
+// first when flipped, then rotated clockwise. Crop coordinates always refer
+// to the turned image.
+export interface ImageOrientation {
+  rotation: 0 | 90 | 180 | 270;
+  flipped: boolean;
+}
+
+export type ResamplingMethod = 'browser' | 'stepped' | 'bicubic' | 'lanczos';
+
+export interface ResizeSettings {
+  mode: 'original' | 'exact' | 'fit' | 'scale' | 'longest-edge';
+  width: number; // Exact width or maximum width for "fit"; 0 keeps the aspect ratio / no limit
+  height: number;
+  scale: number; // Percent
+  longestEdge: number;
+}
+
+export interface VariantSettings {
+  enabled: boolean;
+  mode: 'density' | 'widths'; // 1x/2x/3x of the output size, or fixed pixel widths
+  densities: number[];
+  widths: number[];
+  markup: 'img' | 'picture';
+  sizes: string; // "sizes" attribute used with width descriptors
+}
+
+export interface TargetSizeSettings {
+  enabled: boolean; // Search the JPEG/WebP quality instead of using a fixed one
+  kilobytes: number; // Upper limit per file, in KB of 1024 bytes
+}
+
+// How a rotated crop becomes an upright image: sampled along its outline,
+// its upright bounding box, or the largest upright rectangle inside it
+export type RotatedOutputMode = 'straighten' | 'bounding-box' | 'inset';
+
+export interface BackgroundSettings {
+  // Fill behind the crop: shows through transparent pixels and wherever the
+  // crop reaches outside the image or its rotated outline
+  mode: 'transparent' | 'color' | 'blur' | 'edge-extend';
+  color: string;
+}
+
+export type PaperSize = 'a4' | 'a3' | 'letter' | 'legal' | 'tabloid';
+
+export interface ContactSheetSettings {
+  pageSize: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  columns: number;
+  margin: number; // Millimetres
+  header: string; // Empty uses the source file name
+  includeOverview: boolean; // First page shows the source with every crop outlined
+}
+
+export interface PrintTilingSettings {
+  paper: PaperSize;
+  orientation: 'portrait' | 'landscape';
+  dpi: number; // Source pixels per printed inch, which sets the poster size
+  overlap: number; // Millimetres shared by neighbouring tiles
+  margin: number; // Millimetres of unprinted border around each tile, holding the marks
+}
+
+export interface AtlasSettings {
+  maxSize: number; // Largest sheet edge in pixels; sheets are powers of two
+  padding: number; // Empty pixels between sprites
+  extrude: number; // Edge pixels repeated around each sprite against filtering seams
+}
+
+// Groups of source metadata that can be kept or stripped on export
+export type MetadataField = 'copyright' | 'camera' | 'exposure' | 'captureDate' | 'description' | 'software' | 'location';
+
+export interface MetadataSettings {
+  keep: Record<MetadataField, boolean>; // Written back into JPEG/WebP exports; PNG never carries metadata
+  artist: string; // Replaces the source artist/creator when set
+  copyright: string; // Replaces the source copyright notice when set
+}
+
+// What crops of an animated GIF export as: every frame as an animated GIF or
+// WebP, or only the first frame in the still format
+export type AnimationFormat = 'gif' | 'webp' | 'still';
+
+export interface ExportSettings {
+  format: 'png' | 'jpeg' | 'webp';
+  quality: number;
+  archive: boolean; // Bundle multi-crop exports into one ZIP
+  includeManifest: boolean; // Add a manifest describing where each file came from
+  manifestFormat: 'json' | 'csv' | 'both';
+  fileNameTemplate: string; // e.g. "{source}_{name}"; see FILE_NAME_TOKENS
+  preserveCase: boolean;
+  preserveUnicode: boolean;
+  resize: ResizeSettings;
+  resampling: ResamplingMethod;
+  sharpen: number; // Unsharp mask amount, 0-1
+  variants: VariantSettings;
+  rotatedOutput: RotatedOutputMode;
+  background: BackgroundSettings;
+  targetSize: TargetSizeSettings;
+  contactSheet: ContactSheetSettings;
+  atlas: AtlasSettings;
+  printTiling: PrintTilingSettings;
+  metadata: MetadataSettings;
+  animationFormat: AnimationFormat;
+}
+
+// One image of the upload queue with the work done on it so far
+export interface QueuedImage {
+  id: string; // Also the autosaved session id
+  imageUrl: string;
+  sourceUrl: string; // Before EXIF turning; see LoadedImage
+  image: HTMLImageElement;
+  name: string | null;
+  cropAreas: CropArea[];
+  orientation: ImageOrientation;
 }
 
 function App() {
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
+  const [queue, setQueue] = useState<QueuedImage[]>([]);
+  // Also the id of the autosaved session the active image writes to
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // Shared by every image in the queue, so a batch exports consistently
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  // Annotation files dropped with the image, imported once the editor opens
+  const [annotationFiles, setAnnotationFiles] = useState<File[]>([]);
+
+  const activeImage = queue.find(item => item.id === activeId) || null;
+
+  const toQueuedImages = (images: LoadedImage[]): QueuedImage[] => {
+    const stamp = Date.now();
+    return images.map((loaded, index) => ({
+      id: images.length === 1 ? `session-${stamp}` : `session-${stamp}-${index}`,
+      imageUrl: loaded.imageUrl,
+      sourceUrl: loaded.sourceUrl,
+      image: loaded.image,
+      name: loaded.fileName,
+      cropAreas: [],
+      orientation: IDENTITY_ORIENTATION
+    }));
+  };
+
+  const handleImagesSelect = (images: LoadedImage[], files: File[] = []) => {
+    const items = toQueuedImages(images);
+    setQueue(items);
+    setActiveId(items[0].id);
+    setExportSettings(DEFAULT_EXPORT_SETTINGS);
+    setAnnotationFiles(files);
+  };
 
-  const handleImageSelect = (imageUrl: string, image: HTMLImageElement) => {
-    setSelectedImage(imageUrl);
-    setOriginalImage(image);
+  const handleProjectOpen = (
+    project: ProjectFile,
+    { imageUrl, sourceUrl, image }: Omit<LoadedImage, 'fileName'>,
+    options: { fileName?: string; sessionId?: string } = {}
+  ) => {
+    // Restored sessions keep saving under their own id
+    const id = options.sessionId || `session-${Date.now()}`;
+    setQueue([{
+      id,
+      imageUrl,
+      sourceUrl,
+      image,
+      name: options.fileName || project.source.name,
+      cropAreas: project.cropAreas,
+      orientation: project.source.orientation || IDENTITY_ORIENTATION
+    }]);
+    setActiveId(id);
+    setExportSettings(project.exportSettings);
+    setAnnotationFiles([]);
   };
 
+  const handleImagesAdd = (images: LoadedImage[]) => {
+    const items = toQueuedImages(images);
+    setQueue(queued => [...queued, ...items]);
+    return items;
+  };
+
+  // Frames of one video share a size, so one crop layout serves them all
+  const handleCropsApply = (ids: string[]) => {
+    if (!activeImage) return;
+    const cropAreas = activeImage.cropAreas.map(crop => ({ ...crop }));
+    setQueue(items => items.map(item => (ids.includes(item.id) ? { ...item, cropAreas } : item)));
+  };
+
+  const handleImageSwitch = (id: string) => {
+    setActiveId(id);
+    // Dropped annotations belong to the first image only
+    setAnnotationFiles([]);
+  };
+
+  // Images pasted while editing join the queue and open straight away
+  useImagePaste(async files => {
+    const { images, failed } = await loadImageFiles(files, warning => window.confirm(warning));
+    if (failed.length > 0) alert(`These images could not be opened:\n${failed.join('\n')}`);
+    if (images.length > 0) handleImageSwitch(handleImagesAdd(images)[0].id);
+  }, !!activeImage);
+
+  const handleImageRemove = (id: string) => {
+    const index = queue.findIndex(item => item.id === id);
+    const remaining = queue.filter(item => item.id !== id);
+    setQueue(remaining);
+    if (id === activeId) {
+      setActiveId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+      setAnnotationFiles([]);
+    }
+  };
+
+  // The editor reports every change so switching images loses nothing
+  const handleEditorChange = useCallback((state: EditorSnapshot) => {
+    setQueue(items => items.map(item => {
+      if (item.id !== activeId) return item;
+      if (item.cropAreas === state.cropAreas && item.orientation === state.orientation) return item;
+      return { ...item, cropAreas: state.cropAreas, orientation: state.orientation };
+    }));
+    setExportSettings(state.exportSettings);
+  }, [activeId]);
+
   const handleReset = () => {
-    setSelectedImage(null);
-    setOriginalImage(null);
+    setQueue([]);
+    setActiveId(null);
+    setExportSettings(DEFAULT_EXPORT_SETTINGS);
+    setAnnotationFiles([]);
   };
 
   return (
     <div className="min-h-screen bg-gray-900 text-white">
-      <Header onReset={handleReset} hasImage={!!selectedImage} />
+      <Header onReset={handleReset} hasImage={!!activeImage} />
       
       <main className="flex-1">
-        {!selectedImage ? (
+        {!activeImage ? (
           <div className="flex items-center justify-center min-h-[calc(100vh-80px)]">
-            <ImageUploader onImageSelect={handleImageSelect} />
+            <ImageUploader 
+              onImagesSelect={handleImagesSelect}
+              onProjectOpen={handleProjectOpen}
+            />
           </div>
         ) : (
           <CropEditor 
-            imageUrl={selectedImage} 
-            originalImage={originalImage}
+            key={activeImage.id}
+            imageUrl={activeImage.imageUrl} 
+            sourceUrl={activeImage.sourceUrl}
+            originalImage={activeImage.image}
+            imageName={activeImage.name}
+            sessionId={activeImage.id}
+            initialCropAreas={activeImage.cropAreas}
+            initialExportSettings={exportSettings}
+            initialOrientation={activeImage.orientation}
+            initialAnnotationFiles={annotationFiles}
+            onEditorChange={handleEditorChange}
             onReset={handleReset}
+            filmstrip={
+              <ImageQueue
+                queue={queue}
+                activeId={activeImage.id}
+                exportSettings={exportSettings}
+                onSelect={handleImageSwitch}
+                onRemove={handleImageRemove}
+                onAdd={handleImagesAdd}
+                onApplyCrops={handleCropsApply}
+              />
+            }
           />
         )}
       </main>
@@ -53,4 +291,4 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
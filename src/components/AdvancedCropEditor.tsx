@@ -1,17 +1,36 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { X, Settings, ChevronLeft, ChevronRight, RotateCw, Download, Eye, EyeOff, Undo, ZoomIn, ZoomOut, RotateCcw, Menu } from 'lucide-react';
-import { CropArea } from '../App';
+import { X, Settings, ChevronLeft, ChevronRight, RotateCw, Download, Eye, EyeOff, Undo, Redo, ZoomIn, ZoomOut, RotateCcw, Menu } from 'lucide-react';
+import { CropArea, ExportSettings } from '../App';
+import { renderCrop, getCropOutputSize } from '../utils/cropRenderer';
+import { encodeForExport, supportsTargetSize } from '../utils/targetSize';
+import { ImageMetadata, buildMetadataPayload } from '../utils/metadata';
+import { OutputSizeControls } from './OutputSizeControls';
+import { RotatedOutputControls } from './RotatedOutputControls';
+import { BackgroundControls } from './BackgroundControls';
+import { getExportFileNames, replaceFileExtension } from '../utils/fileNames';
+import { encodeTiledPng } from '../utils/tiledExport';
+import { fitsInCanvas } from '../utils/resample';
 
 interface AdvancedCropEditorProps {
   isOpen: boolean;
   onClose: () => void;
   crop: CropArea;
   originalImage: HTMLImageElement | null;
+  imageName: string | null;
+  imageMetadata: ImageMetadata | null;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
   onUpdateCrop: (updates: Partial<CropArea>) => void;
   imageScale: number;
   imageOffset: { x: number; y: number };
   allCrops: CropArea[];
   onSwitchCrop: (cropId: string) => void;
+  onGestureStart: (label?: string) => void;
+  onGestureEnd: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
@@ -19,11 +38,21 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
   onClose,
   crop,
   originalImage,
+  imageName,
+  imageMetadata,
+  exportSettings,
+  onExportSettingsChange,
   onUpdateCrop,
   imageScale,
   imageOffset,
   allCrops,
-  onSwitchCrop
+  onSwitchCrop,
+  onGestureStart,
+  onGestureEnd,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -31,8 +60,7 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
   const [previewOffset, setPreviewOffset] = useState({ x: 0, y: 0 });
   const [showGrid, setShowGrid] = useState(true);
   const [showUncropped, setShowUncropped] = useState(true);
-  const [exportFormat, setExportFormat] = useState<'png' | 'jpeg' | 'webp'>('png');
-  const [exportQuality, setExportQuality] = useState(0.9);
+  const { format: exportFormat, quality: exportQuality } = exportSettings;
   const [originalCropState, setOriginalCropState] = useState<CropArea | null>(null);
   
   // Mobile responsive states
@@ -355,31 +383,19 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
       const cropCanvasWidth = crop.width * previewScale;
       const cropCanvasHeight = crop.height * previewScale;
 
-      // Apply rotation if present
+      // Draw the cropped portion, sampling along the rotated outline the
+      // same way a straightened export does
       const rotation = crop.rotation || 0;
-      if (rotation !== 0) {
-        ctx.save();
-        ctx.translate(cropCanvasWidth / 2, cropCanvasHeight / 2);
-        ctx.rotate((rotation * Math.PI) / 180);
-        ctx.translate(-cropCanvasWidth / 2, -cropCanvasHeight / 2);
-      }
-
-      // Draw the cropped portion
-      ctx.drawImage(
-        originalImage,
-        crop.x,
-        crop.y,
-        crop.width,
-        crop.height,
-        0,
-        0,
-        cropCanvasWidth,
-        cropCanvasHeight
-      );
-
-      if (rotation !== 0) {
-        ctx.restore();
-      }
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, cropCanvasWidth, cropCanvasHeight);
+      ctx.clip();
+      ctx.scale(previewScale, previewScale);
+      ctx.translate(crop.width / 2, crop.height / 2);
+      ctx.rotate((-rotation * Math.PI) / 180);
+      ctx.translate(-(crop.x + crop.width / 2), -(crop.y + crop.height / 2));
+      ctx.drawImage(originalImage, 0, 0);
+      ctx.restore();
 
       // Add border for crop-only mode
       if (isDragging || isResizing) {
@@ -516,6 +532,7 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
     // Check for resize handle first
     const handle = getResizeHandle(pos.x, pos.y);
     if (handle) {
+      onGestureStart();
       setIsResizing(true);
       setResizeHandle(handle);
       setDragStart(pos);
@@ -526,6 +543,7 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
     
     // Check if clicking within crop area for dragging
     if (isPointInCrop(pos.x, pos.y)) {
+      onGestureStart();
       setIsDragging(true);
       setDragStart(pos);
       setOriginalPosition({ x: crop.x, y: crop.y });
@@ -679,6 +697,10 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
 
   // Unified end handler for mouse and touch
   const handleEnd = () => {
+    if (isDragging || isResizing) {
+      onGestureEnd();
+    }
+
     setIsDragging(false);
     setIsResizing(false);
     setIsPanning(false);
@@ -766,47 +788,25 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
   const handleExport = async () => {
     if (!originalImage) return;
 
-    // Create a canvas for export
-    const exportCanvas = document.createElement('canvas');
-    const exportCtx = exportCanvas.getContext('2d');
-    if (!exportCtx) return;
-
-    // Set canvas size to crop dimensions
-    exportCanvas.width = crop.width;
-    exportCanvas.height = crop.height;
-
-    // Fill with white background
-    exportCtx.fillStyle = '#FFFFFF';
-    exportCtx.fillRect(0, 0, exportCanvas.width, exportCanvas.height);
-
-    // Apply rotation if present
-    const rotation = crop.rotation || 0;
-    if (rotation !== 0) {
-      exportCtx.translate(exportCanvas.width / 2, exportCanvas.height / 2);
-      exportCtx.rotate((rotation * Math.PI) / 180);
-      exportCtx.translate(-exportCanvas.width / 2, -exportCanvas.height / 2);
+    const metadata = buildMetadataPayload(imageMetadata, exportSettings.metadata);
+    const size = getCropOutputSize(crop, exportSettings);
+    const tiled = !fitsInCanvas(size);
+    let dataUrl: string;
+    try {
+      dataUrl = tiled
+        ? (await encodeTiledPng(originalImage, crop, exportSettings, size)).dataUrl
+        : encodeForExport(renderCrop(originalImage, crop, exportSettings), exportSettings, metadata).dataUrl;
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert(error instanceof Error ? error.message : 'Export failed. Please try again.');
+      return;
     }
-
-    // Draw the cropped portion
-    exportCtx.drawImage(
-      originalImage,
-      crop.x,
-      crop.y,
-      crop.width,
-      crop.height,
-      0,
-      0,
-      crop.width,
-      crop.height
-    );
-
-    const mimeType = exportFormat === 'jpeg' ? 'image/jpeg' : 
-                    exportFormat === 'webp' ? 'image/webp' : 'image/png';
-    
-    const dataUrl = exportCanvas.toDataURL(mimeType, exportQuality);
     
+    // Name the file as a full export would, so both paths agree on duplicates
+    const { fileName: exportName } = getExportFileNames(allCrops, exportSettings, imageName)[currentCropIndex];
+    const fileName = tiled ? replaceFileExtension(exportName, 'png') : exportName;
     const link = document.createElement('a');
-    link.download = `${crop.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${exportFormat}`;
+    link.download = fileName;
     link.href = dataUrl;
     document.body.appendChild(link);
     link.click();
@@ -829,7 +829,8 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
 
   const handleDiscardChanges = () => {
     if (originalCropState) {
-      // Revert all changes back to the original state
+      // Revert all changes back to the original state as a single history step
+      onGestureStart(`Discard changes to ${originalCropState.name}`);
       onUpdateCrop({
         name: originalCropState.name,
         x: originalCropState.x,
@@ -839,6 +840,7 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
         rotation: originalCropState.rotation,
         aspectRatio: originalCropState.aspectRatio
       });
+      onGestureEnd();
       
       // Close the editor
       onClose();
@@ -856,6 +858,8 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
     crop.aspectRatio !== originalCropState.aspectRatio
   );
 
+  const outputSize = getCropOutputSize(crop, exportSettings);
+
   if (!isOpen) return null;
 
   // Desktop Layout
@@ -882,6 +886,22 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
               )}
             </div>
             <div className="flex items-center space-x-2">
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 text-gray-300 rounded-lg transition-colors"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo className="h-4 w-4" />
+              </button>
+              <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 text-gray-300 rounded-lg transition-colors"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo className="h-4 w-4" />
+              </button>
               <button
                 onClick={() => setShowUncropped(!showUncropped)}
                 className={`p-2 rounded-lg transition-colors ${
@@ -1065,7 +1085,7 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
                     />
                     <select
                       value={exportFormat}
-                      onChange={(e) => setExportFormat(e.target.value as 'png' | 'jpeg' | 'webp')}
+                      onChange={(e) => onExportSettingsChange({ ...exportSettings, format: e.target.value as ExportSettings['format'] })}
                       className="bg-gray-800 text-white rounded-lg px-2 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
                     >
                       <option value="png">png</option>
@@ -1225,7 +1245,12 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
                 </div>
 
                 {/* Export Quality */}
-                {(exportFormat === 'jpeg' || exportFormat === 'webp') && (
+                {supportsTargetSize(exportFormat) && exportSettings.targetSize.enabled && (
+                  <p className="text-xs text-gray-400">
+                    Quality: automatic, up to {exportSettings.targetSize.kilobytes} KB per file
+                  </p>
+                )}
+                {supportsTargetSize(exportFormat) && !exportSettings.targetSize.enabled && (
                   <div>
                     <label className="block text-xs text-gray-400 mb-2">
                       Quality: {Math.round(exportQuality * 100)}%
@@ -1236,18 +1261,35 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
                       max="1"
                       step="0.1"
                       value={exportQuality}
-                      onChange={(e) => setExportQuality(parseFloat(e.target.value))}
+                      onChange={(e) => onExportSettingsChange({ ...exportSettings, quality: parseFloat(e.target.value) })}
                       className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
                     />
                   </div>
                 )}
 
+                {/* Export Size */}
+                <OutputSizeControls
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={onExportSettingsChange}
+                />
+
+                <RotatedOutputControls
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={onExportSettingsChange}
+                />
+
+                <BackgroundControls
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={onExportSettingsChange}
+                />
+
                 {/* Image Boundary Info */}
                 <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-3">
                   <h5 className="text-sm font-semibold text-blue-300 mb-2">Image Boundaries</h5>
                   <div className="text-xs text-blue-200 space-y-1">
                     <div>Image: {originalImage?.width || 0} × {originalImage?.height || 0}</div>
                     <div>Crop: {Math.round(crop.width)} × {Math.round(crop.height)}</div>
+                    <div>Output: {outputSize.width} × {outputSize.height}</div>
                     <div>Position: ({Math.round(crop.x)}, {Math.round(crop.y)})</div>
                     <div className="text-blue-300 mt-2">
                       ✓ Crop is constrained to image boundaries
@@ -1312,6 +1354,20 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
             )}
           </div>
           <div className="flex items-center space-x-2">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded-lg transition-colors"
+            >
+              <Undo className="h-5 w-5 text-white" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="p-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 rounded-lg transition-colors"
+            >
+              <Redo className="h-5 w-5 text-white" />
+            </button>
             <button
               onClick={() => setMobileSettingsOpen(!mobileSettingsOpen)}
               className="p-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
@@ -1616,6 +1672,7 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
                   <div className="text-xs text-blue-200 space-y-1">
                     <div>Image: {originalImage?.width || 0} × {originalImage?.height || 0}</div>
                     <div>Crop: {Math.round(crop.width)} × {Math.round(crop.height)}</div>
+                    <div>Output: {outputSize.width} × {outputSize.height}</div>
                     <div>Position: ({Math.round(crop.x)}, {Math.round(crop.y)})</div>
                     <div className="text-blue-300 mt-2">
                       ✓ Crop is constrained to image boundaries
@@ -1634,7 +1691,7 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
                   </label>
                   <select
                     value={exportFormat}
-                    onChange={(e) => setExportFormat(e.target.value as 'png' | 'jpeg' | 'webp')}
+                    onChange={(e) => onExportSettingsChange({ ...exportSettings, format: e.target.value as ExportSettings['format'] })}
                     className="w-full bg-gray-800 text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
                   >
                     <option value="png">PNG (Lossless)</option>
@@ -1644,7 +1701,12 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
                 </div>
 
                 {/* Mobile Export Quality */}
-                {(exportFormat === 'jpeg' || exportFormat === 'webp') && (
+                {supportsTargetSize(exportFormat) && exportSettings.targetSize.enabled && (
+                  <p className="text-xs text-gray-400">
+                    Quality: automatic, up to {exportSettings.targetSize.kilobytes} KB per file
+                  </p>
+                )}
+                {supportsTargetSize(exportFormat) && !exportSettings.targetSize.enabled && (
                   <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">
                       Quality: {Math.round(exportQuality * 100)}%
@@ -1655,12 +1717,28 @@ export const AdvancedCropEditor: React.FC<AdvancedCropEditorProps> = ({
                       max="1"
                       step="0.1"
                       value={exportQuality}
-                      onChange={(e) => setExportQuality(parseFloat(e.target.value))}
+                      onChange={(e) => onExportSettingsChange({ ...exportSettings, quality: parseFloat(e.target.value) })}
                       className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
                     />
                   </div>
                 )}
 
+                {/* Mobile Export Size */}
+                <OutputSizeControls
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={onExportSettingsChange}
+                />
+
+                <RotatedOutputControls
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={onExportSettingsChange}
+                />
+
+                <BackgroundControls
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={onExportSettingsChange}
+                />
+
                 {/* Mobile Export Button */}
                 <button
                   onClick={handleExport}
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Tags, X, AlertTriangle } from 'lucide-react';
+import { AnnotationImport } from '../utils/annotationImport';
+
+interface AnnotationImportDialogProps {
+  result: AnnotationImport;
+  existingCropCount: number;
+  onImport: (mode: 'merge' | 'replace') => void;
+  onCancel: () => void;
+}
+
+const IssueList: React.FC<{ title: string; items: string[]; className: string }> = ({ title, items, className }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div>
+      <p className={`text-xs font-medium mb-1 ${className}`}>{title} ({items.length})</p>
+      <ul className="bg-gray-900 rounded p-2 max-h-28 overflow-y-auto thin-scrollbar space-y-0.5">
+        {items.map((item, index) => (
+          <li key={index} className="text-xs text-gray-400">{item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export const AnnotationImportDialog: React.FC<AnnotationImportDialogProps> = ({
+  result,
+  existingCropCount,
+  onImport,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const labels = Array.from(new Set(result.boxes.map(box => box.label)));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-md">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-white flex items-center">
+              <Tags className="h-5 w-5 mr-2" />
+              Import {result.format} Annotations
+            </h3>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-4 max-h-96 overflow-y-auto modal-scrollbar">
+            <div className="text-sm text-gray-300">
+              <p>
+                {result.boxes.length} {result.boxes.length === 1 ? 'box' : 'boxes'} ready to import
+              </p>
+              {labels.length > 0 && (
+                <p className="text-xs text-gray-400 mt-1">Labels: {labels.join(', ')}</p>
+              )}
+            </div>
+
+            <IssueList title="Skipped" items={result.skipped} className="text-red-400" />
+            <IssueList title="Trimmed to the image" items={result.clamped} className="text-yellow-400" />
+            <IssueList title="Notes" items={result.notes} className="text-blue-300" />
+
+            {existingCropCount > 0 && (
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={mode === 'merge'}
+                    onChange={() => setMode('merge')}
+                    className="bg-gray-700 border-gray-600"
+                  />
+                  <span>Add to the {existingCropCount} existing {existingCropCount === 1 ? 'crop' : 'crops'}</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={mode === 'replace'}
+                    onChange={() => setMode('replace')}
+                    className="bg-gray-700 border-gray-600"
+                  />
+                  <span>Replace the existing crops</span>
+                </label>
+              </div>
+            )}
+
+            {result.boxes.length === 0 && (
+              <p className="text-xs text-orange-400 flex items-center">
+                <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                Nothing in this file could be imported
+              </p>
+            )}
+          </div>
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onImport(mode)}
+              disabled={result.boxes.length === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
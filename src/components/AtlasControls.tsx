@@ -0,0 +1,63 @@
+import React from 'react';
+import { AtlasSettings, ExportSettings } from '../App';
+import { ATLAS_SIZES } from '../utils/atlas';
+
+interface AtlasControlsProps {
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+export const AtlasControls: React.FC<AtlasControlsProps> = ({
+  exportSettings,
+  onExportSettingsChange
+}) => {
+  const { atlas } = exportSettings;
+
+  const updateAtlas = (updates: Partial<AtlasSettings>) => {
+    onExportSettingsChange({ ...exportSettings, atlas: { ...atlas, ...updates } });
+  };
+
+  const parsePixels = (value: string) => Math.min(64, Math.max(0, parseInt(value) || 0));
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Max sheet</label>
+        <select
+          value={atlas.maxSize}
+          onChange={(e) => updateAtlas({ maxSize: parseInt(e.target.value) })}
+          className={inputClassName}
+        >
+          {ATLAS_SIZES.map(size => (
+            <option key={size} value={size}>{size}px</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Padding</label>
+        <input
+          type="number"
+          min="0"
+          max="64"
+          value={atlas.padding}
+          onChange={(e) => updateAtlas({ padding: parsePixels(e.target.value) })}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Extrude</label>
+        <input
+          type="number"
+          min="0"
+          max="64"
+          value={atlas.extrude}
+          onChange={(e) => updateAtlas({ extrude: parsePixels(e.target.value) })}
+          className={inputClassName}
+          title="Repeat each sprite's edge pixels outwards to avoid bleeding when textures are filtered"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { BackgroundSettings, ExportSettings } from '../App';
+
+interface BackgroundControlsProps {
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+export const BackgroundControls: React.FC<BackgroundControlsProps> = ({
+  exportSettings,
+  onExportSettingsChange
+}) => {
+  const { background, format } = exportSettings;
+
+  const updateBackground = (updates: Partial<BackgroundSettings>) => {
+    onExportSettingsChange({ ...exportSettings, background: { ...background, ...updates } });
+  };
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-2">Background</label>
+      <div className="flex space-x-2">
+        <select
+          value={background.mode}
+          onChange={(e) => updateBackground({ mode: e.target.value as BackgroundSettings['mode'] })}
+          className={inputClassName}
+        >
+          <option value="transparent">Keep transparency</option>
+          <option value="color">Solid colour</option>
+          <option value="blur">Blurred image</option>
+          <option value="edge-extend">Extend edges</option>
+        </select>
+        {background.mode === 'color' && (
+          <input
+            type="color"
+            value={background.color}
+            onChange={(e) => updateBackground({ color: e.target.value })}
+            className="h-9 w-12 flex-shrink-0 bg-gray-700 rounded cursor-pointer"
+            title="Background colour"
+          />
+        )}
+      </div>
+      {format === 'jpeg' && (background.mode === 'transparent' || background.mode === 'edge-extend') && (
+        <p className="text-xs text-gray-500 mt-1">JPEG has no transparency, so transparent areas turn white</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GalleryHorizontal, X, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { CropArea } from '../App';
+import {
+  CAROUSEL_PRESETS,
+  CarouselLayout,
+  MAX_CAROUSEL_PANELS,
+  clampRegion,
+  getCarouselLayout
+} from '../utils/carousel';
+
+interface CarouselSplitterDialogProps {
+  image: HTMLImageElement;
+  selectedCrop: CropArea | null;
+  onCreate: (
+    layout: CarouselLayout,
+    options: { replaceCropId: string | null; outputSize: { width: number; height: number } | null }
+  ) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const STRIP_PREVIEW_WIDTH = 400;
+const STRIP_PREVIEW_HEIGHT = 160;
+const PANEL_PREVIEW_HEIGHT = 200;
+
+export const CarouselSplitterDialog: React.FC<CarouselSplitterDialogProps> = ({
+  image,
+  selectedCrop,
+  onCreate,
+  onCancel
+}) => {
+  // A rotated crop has no upright region to split
+  const canUseSelection = !!selectedCrop && !selectedCrop.rotation;
+  const [panels, setPanels] = useState(3);
+  const [presetIndex, setPresetIndex] = useState(0);
+  const [customSize, setCustomSize] = useState({ width: 1080, height: 1350 });
+  const [useSelection, setUseSelection] = useState(canUseSelection);
+  const [replaceSelection, setReplaceSelection] = useState(true);
+  const [fixPanelSize, setFixPanelSize] = useState(true);
+  const [currentPanel, setCurrentPanel] = useState(0);
+  const stripCanvasRef = useRef<HTMLCanvasElement>(null);
+  const panelCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const target = presetIndex >= 0 ? CAROUSEL_PRESETS[presetIndex] : customSize;
+  const { width: targetWidth, height: targetHeight } = target;
+  const { naturalWidth: imageWidth, naturalHeight: imageHeight } = image;
+  const source = useSelection ? selectedCrop : null;
+  const layout = useMemo(() => {
+    const region = clampRegion(
+      source || { x: 0, y: 0, width: imageWidth, height: imageHeight },
+      imageWidth,
+      imageHeight
+    );
+    return getCarouselLayout(region, panels, targetWidth, targetHeight);
+  }, [source, imageWidth, imageHeight, panels, targetWidth, targetHeight]);
+  const panel = Math.min(currentPanel, panels - 1);
+
+  // The whole strip with panel borders and numbers
+  useEffect(() => {
+    const canvas = stripCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !layout) return;
+
+    const stripWidth = layout.panelWidth * layout.panels;
+    const scale = Math.min(STRIP_PREVIEW_WIDTH / stripWidth, STRIP_PREVIEW_HEIGHT / layout.panelHeight);
+    canvas.width = Math.max(1, Math.round(stripWidth * scale));
+    canvas.height = Math.max(1, Math.round(layout.panelHeight * scale));
+    ctx.drawImage(image, layout.x, layout.y, stripWidth, layout.panelHeight, 0, 0, canvas.width, canvas.height);
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1;
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (let index = 0; index < layout.panels; index++) {
+      const left = Math.round(index * layout.panelWidth * scale);
+      if (index > 0) {
+        ctx.beginPath();
+        ctx.moveTo(left + 0.5, 0);
+        ctx.lineTo(left + 0.5, canvas.height);
+        ctx.stroke();
+      }
+      const centerX = left + (layout.panelWidth * scale) / 2;
+      ctx.fillStyle = index === panel ? 'rgba(37, 99, 235, 0.9)' : 'rgba(0, 0, 0, 0.6)';
+      ctx.beginPath();
+      ctx.arc(centerX, 12, 9, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(String(index + 1), centerX, 12);
+    }
+  }, [image, layout, panel]);
+
+  // The current slide as it will appear when swiping
+  useEffect(() => {
+    const canvas = panelCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !layout) return;
+
+    canvas.height = PANEL_PREVIEW_HEIGHT;
+    canvas.width = Math.max(1, Math.round((PANEL_PREVIEW_HEIGHT * layout.panelWidth) / layout.panelHeight));
+    ctx.drawImage(
+      image,
+      layout.x + panel * layout.panelWidth,
+      layout.y,
+      layout.panelWidth,
+      layout.panelHeight,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+  }, [image, layout, panel]);
+
+  const handleCreate = () => {
+    if (!layout) return;
+    onCreate(layout, {
+      replaceCropId: useSelection && replaceSelection && selectedCrop ? selectedCrop.id : null,
+      outputSize: fixPanelSize ? { width: target.width, height: target.height } : null
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-white flex items-center">
+              <GalleryHorizontal className="h-5 w-5 mr-2" />
+              Split Carousel
+            </h3>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto modal-scrollbar">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Panels</label>
+                <input
+                  type="number"
+                  min="2"
+                  max={MAX_CAROUSEL_PANELS}
+                  value={panels}
+                  onChange={(e) => setPanels(Math.max(2, Math.min(MAX_CAROUSEL_PANELS, parseInt(e.target.value) || 2)))}
+                  className={inputClassName}
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Panel size</label>
+                <select
+                  value={presetIndex}
+                  onChange={(e) => setPresetIndex(parseInt(e.target.value))}
+                  className={inputClassName}
+                >
+                  {CAROUSEL_PRESETS.map((preset, index) => (
+                    <option key={preset.label} value={index}>
+                      {preset.label} ({preset.width}×{preset.height})
+                    </option>
+                  ))}
+                  <option value={-1}>Custom</option>
+                </select>
+              </div>
+            </div>
+
+            {presetIndex < 0 && (
+              <div className="grid grid-cols-2 gap-4">
+                {(['width', 'height'] as const).map(key => (
+                  <div key={key}>
+                    <label className="block text-xs text-gray-400 mb-1">{key === 'width' ? 'Width' : 'Height'} (px)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={customSize[key]}
+                      onChange={(e) => setCustomSize({ ...customSize, [key]: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className={inputClassName}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={!useSelection}
+                  onChange={() => setUseSelection(false)}
+                  className="bg-gray-700 border-gray-600"
+                />
+                <span>Split the whole image</span>
+              </label>
+              <label className={`flex items-center space-x-2 text-sm cursor-pointer ${canUseSelection ? 'text-gray-300' : 'text-gray-500'}`}>
+                <input
+                  type="radio"
+                  checked={useSelection}
+                  onChange={() => setUseSelection(true)}
+                  disabled={!canUseSelection}
+                  className="bg-gray-700 border-gray-600"
+                />
+                <span>
+                  Split the selected crop{selectedCrop ? ` (${selectedCrop.name})` : ''}
+                  {selectedCrop && !canUseSelection && ' - not available for rotated crops'}
+                </span>
+              </label>
+              {useSelection && (
+                <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer ml-6">
+                  <input
+                    type="checkbox"
+                    checked={replaceSelection}
+                    onChange={(e) => setReplaceSelection(e.target.checked)}
+                    className="rounded bg-gray-700 border-gray-600"
+                  />
+                  <span>Replace the selected crop with the panels</span>
+                </label>
+              )}
+            </div>
+
+            {layout ? (
+              <>
+                <div>
+                  <p className="text-xs text-gray-400 mb-2">
+                    {layout.panels} panels of {layout.panelWidth}×{layout.panelHeight} px, {layout.panelWidth * layout.panels}×{layout.panelHeight} px in total
+                  </p>
+                  <div className="bg-gray-900 rounded p-2 flex justify-center">
+                    <canvas ref={stripCanvasRef} className="max-w-full" />
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-xs text-gray-400 mb-2">Swipe preview</p>
+                  <div className="flex items-center justify-center space-x-3">
+                    <button
+                      onClick={() => setCurrentPanel(Math.max(0, panel - 1))}
+                      disabled={panel === 0}
+                      className="p-2 rounded-full bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white transition-colors"
+                      title="Previous panel"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </button>
+                    <div className="bg-black rounded-lg overflow-hidden border border-gray-600">
+                      <canvas ref={panelCanvasRef} className="block max-w-[240px]" />
+                    </div>
+                    <button
+                      onClick={() => setCurrentPanel(Math.min(panels - 1, panel + 1))}
+                      disabled={panel === panels - 1}
+                      className="p-2 rounded-full bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-white transition-colors"
+                      title="Next panel"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex justify-center space-x-1.5 mt-2">
+                    {Array.from({ length: panels }, (_, index) => (
+                      <button
+                        key={index}
+                        onClick={() => setCurrentPanel(index)}
+                        className={`h-1.5 w-1.5 rounded-full ${index === panel ? 'bg-blue-400' : 'bg-gray-600'}`}
+                        title={`Panel ${index + 1}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={fixPanelSize}
+                    onChange={(e) => setFixPanelSize(e.target.checked)}
+                    className="rounded bg-gray-700 border-gray-600"
+                  />
+                  <span>Export the panels at exactly {target.width}×{target.height} px</span>
+                </label>
+                {fixPanelSize && layout.panelWidth < target.width && (
+                  <p className="text-xs text-orange-400 flex items-start">
+                    <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                    <span>The panels are smaller than {target.width}×{target.height} px and will be upscaled</span>
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-xs text-orange-400 flex items-center">
+                <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                The region is too small for {panels} panels
+              </p>
+            )}
+          </div>
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={!layout}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              Create {panels} Panels
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { ContactSheetSettings, ExportSettings, PaperSize } from '../App';
+import { PAGE_SIZES } from '../utils/pdf';
+
+interface ContactSheetControlsProps {
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+  placeholder: string;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+export const ContactSheetControls: React.FC<ContactSheetControlsProps> = ({
+  exportSettings,
+  onExportSettingsChange,
+  placeholder
+}) => {
+  const { contactSheet } = exportSettings;
+
+  const updateSheet = (updates: Partial<ContactSheetSettings>) => {
+    onExportSettingsChange({ ...exportSettings, contactSheet: { ...contactSheet, ...updates } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Page</label>
+          <select
+            value={contactSheet.pageSize}
+            onChange={(e) => updateSheet({ pageSize: e.target.value as ContactSheetSettings['pageSize'] })}
+            className={inputClassName}
+          >
+            {(Object.keys(PAGE_SIZES) as PaperSize[]).map(size => (
+              <option key={size} value={size}>{PAGE_SIZES[size].label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Orientation</label>
+          <select
+            value={contactSheet.orientation}
+            onChange={(e) => updateSheet({ orientation: e.target.value as ContactSheetSettings['orientation'] })}
+            className={inputClassName}
+          >
+            <option value="portrait">Portrait</option>
+            <option value="landscape">Landscape</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Columns</label>
+          <input
+            type="number"
+            min="1"
+            max="8"
+            value={contactSheet.columns}
+            onChange={(e) => updateSheet({ columns: Math.min(8, Math.max(1, parseInt(e.target.value) || 1)) })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Margin (mm)</label>
+          <input
+            type="number"
+            min="0"
+            max="50"
+            value={contactSheet.margin}
+            onChange={(e) => updateSheet({ margin: Math.min(50, Math.max(0, parseFloat(e.target.value) || 0)) })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Header</label>
+        <input
+          type="text"
+          value={contactSheet.header}
+          onChange={(e) => updateSheet({ header: e.target.value })}
+          placeholder={placeholder}
+          className={inputClassName}
+        />
+      </div>
+
+      <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={contactSheet.includeOverview}
+          onChange={(e) => updateSheet({ includeOverview: e.target.checked })}
+          className="rounded bg-gray-700 border-gray-600"
+        />
+        <span>Start with the source image and all crop outlines</span>
+      </label>
+    </div>
+  );
+};
@@ -2,7 +2,8 @@ import React, { useEffect, useRef } from 'react';
 import { 
   Copy, 
   Settings, 
-  Maximize2
+  Maximize2,
+  ClipboardCopy
 } from 'lucide-react';
 import { CropArea } from '../App';
 
@@ -14,6 +15,7 @@ interface CropContextMenuProps {
   onDuplicate: () => void;
   onAdvancedEdit: () => void;
   onFitToImage: () => void;
+  onCopyImage?: () => void;
 }
 
 export const CropContextMenu: React.FC<CropContextMenuProps> = ({
@@ -23,7 +25,8 @@ export const CropContextMenu: React.FC<CropContextMenuProps> = ({
   onClose,
   onDuplicate,
   onAdvancedEdit,
-  onFitToImage
+  onFitToImage,
+  onCopyImage
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -56,7 +59,7 @@ export const CropContextMenu: React.FC<CropContextMenuProps> = ({
   // Adjust menu position to stay within viewport
   const adjustedPosition = { ...position };
   const menuWidth = 200;
-  const menuHeight = 160;
+  const menuHeight = onCopyImage ? 210 : 160;
   
   if (position.x + menuWidth > window.innerWidth) {
     adjustedPosition.x = window.innerWidth - menuWidth - 10;
@@ -85,6 +88,11 @@ export const CropContextMenu: React.FC<CropContextMenuProps> = ({
     onClose();
   };
 
+  const handleCopyImageClick = () => {
+    onCopyImage?.();
+    onClose();
+  };
+
   return (
     <div
       ref={menuRef}
@@ -130,6 +138,20 @@ export const CropContextMenu: React.FC<CropContextMenuProps> = ({
           </div>
           <span className="text-xs text-gray-500">Ctrl+D</span>
         </div>
+
+        {/* COPY TO CLIPBOARD BUTTON */}
+        {onCopyImage && (
+          <div
+            onClick={handleCopyImageClick}
+            className="w-full flex items-center justify-between px-4 py-3 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors cursor-pointer"
+          >
+            <div className="flex items-center space-x-3">
+              <ClipboardCopy className="h-4 w-4" />
+              <span>Copy to Clipboard</span>
+            </div>
+            <span className="text-xs text-gray-500">Ctrl+C</span>
+          </div>
+        )}
         
         {/* SEPARATOR */}
         <div className="h-px bg-gray-700 my-1" />
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
-import { Plus, Trash2, Square, Crop, RotateCw, Grid3X3, Link, Unlink } from 'lucide-react';
+import { Plus, Trash2, Square, Crop, RotateCw, RotateCcw, Grid3X3, Link, Unlink, Tags, GalleryHorizontal, Printer, Image as ImageIcon, FlipHorizontal2, FlipVertical2, RefreshCw } from 'lucide-react';
 import { CropArea } from '../App';
+import { ORIENTATION_CHANGES, OrientationChange } from '../utils/orientation';
 
 interface CropControlsProps {
   cropAreas: CropArea[];
@@ -15,8 +16,20 @@ interface CropControlsProps {
   onUnlinkFromGrid: (cropId: string) => void;
   editingCropName: string | null;
   onSetEditingCropName: (cropId: string | null) => void;
+  onImportAnnotations: () => void;
+  onSplitCarousel: () => void;
+  onPrintTiles: () => void;
+  onChangeOrientation?: (change: OrientationChange) => void; // Omitted when the image can't be turned
 }
 
+const ORIENTATION_ICONS: Record<OrientationChange, React.ElementType> = {
+  'rotate-ccw': RotateCcw,
+  'rotate-cw': RotateCw,
+  'rotate-180': RefreshCw,
+  'flip-h': FlipHorizontal2,
+  'flip-v': FlipVertical2
+};
+
 const ASPECT_RATIOS = [
   { label: 'Free', value: 0 },
   { label: 'Square (1:1)', value: 1 },
@@ -38,7 +51,11 @@ export const CropControls: React.FC<CropControlsProps> = ({
   onUpdateGridCrops,
   onUnlinkFromGrid,
   editingCropName,
-  onSetEditingCropName
+  onSetEditingCropName,
+  onImportAnnotations,
+  onSplitCarousel,
+  onPrintTiles,
+  onChangeOrientation
 }) => {
   const [tempName, setTempName] = useState('');
   const [showMultipleDialog, setShowMultipleDialog] = useState(false);
@@ -143,6 +160,9 @@ export const CropControls: React.FC<CropControlsProps> = ({
 
   const gridInfo = selectedCrop ? getGridInfo(selectedCrop) : null;
 
+  // Labels already in use, offered as suggestions so classes stay consistent
+  const existingLabels = Array.from(new Set(cropAreas.map(crop => crop.label).filter((label): label is string => !!label)));
+
   return (
     <div className="p-4 space-y-6 flex-1 overflow-y-auto custom-scrollbar">
       {/* Add Crop Buttons */}
@@ -162,6 +182,33 @@ export const CropControls: React.FC<CropControlsProps> = ({
           <Grid3X3 className="h-5 w-5" />
           <span>Add Uniform Grid</span>
         </button>
+
+        <button
+          onClick={onSplitCarousel}
+          className="w-full flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+          title="Divide the image or the selected crop into equal, seamless carousel panels"
+        >
+          <GalleryHorizontal className="h-4 w-4" />
+          <span>Split Carousel</span>
+        </button>
+
+        <button
+          onClick={onPrintTiles}
+          className="w-full flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+          title="Split the image or the selected crop into printable pages for a poster"
+        >
+          <Printer className="h-4 w-4" />
+          <span>Print Poster Tiles</span>
+        </button>
+
+        <button
+          onClick={onImportAnnotations}
+          className="w-full flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+          title="Create crops from COCO, YOLO, Pascal VOC or CSV boxes"
+        >
+          <Tags className="h-4 w-4" />
+          <span>Import Annotations</span>
+        </button>
       </div>
 
       {/* Multiple Crops Dialog */}
@@ -298,6 +345,31 @@ export const CropControls: React.FC<CropControlsProps> = ({
         </div>
       )}
 
+      {/* Image Orientation */}
+      {onChangeOrientation && (
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+            <ImageIcon className="h-4 w-4 mr-2" />
+            Image
+          </h3>
+          <div className="grid grid-cols-5 gap-2">
+            {ORIENTATION_CHANGES.map(({ change, label }) => {
+              const Icon = ORIENTATION_ICONS[change];
+              return (
+                <button
+                  key={change}
+                  onClick={() => onChangeOrientation(change)}
+                  className="flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white rounded py-2 transition-colors"
+                  title={`${label} - crops move with the image`}
+                >
+                  <Icon className="h-4 w-4" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Crop Areas List */}
       <div className="bg-gray-800 rounded-lg p-4">
         <h3 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
@@ -323,6 +395,9 @@ export const CropControls: React.FC<CropControlsProps> = ({
                   <div className="flex-1">
                     <div className="flex items-center space-x-2">
                       <span className="text-sm font-medium text-white">{crop.name}</span>
+                      {crop.label && (
+                        <span className="px-1.5 py-0.5 bg-gray-800 text-emerald-400 rounded text-xs">{crop.label}</span>
+                      )}
                       {crop.gridId && (
                         <div className="flex items-center space-x-1">
                           <Link className="h-3 w-3 text-purple-400" />
@@ -432,6 +507,22 @@ export const CropControls: React.FC<CropControlsProps> = ({
               </div>
             </div>
 
+            {/* Label */}
+            <div>
+              <label className="block text-xs text-gray-400 mb-1">Label (annotation class)</label>
+              <input
+                type="text"
+                value={selectedCrop.label || ''}
+                onChange={(e) => onUpdateCrop(selectedCrop.id, { label: e.target.value || undefined })}
+                list="crop-labels"
+                placeholder="e.g. person, car"
+                className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+              <datalist id="crop-labels">
+                {existingLabels.map(label => <option key={label} value={label} />)}
+              </datalist>
+            </div>
+
             {/* Rotation Control */}
             <div>
               <label className="block text-xs text-gray-400 mb-2">
@@ -1,34 +1,267 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { ViewportAwareCropCanvas } from './ViewportAwareCropCanvas';
 import { CropControls } from './CropControls';
 import { ExportPanel } from './ExportPanel';
 import { AdvancedCropEditor } from './AdvancedCropEditor';
 import { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
+import { HistoryPanel } from './HistoryPanel';
+import { AnnotationImportDialog } from './AnnotationImportDialog';
+import { CarouselSplitterDialog } from './CarouselSplitterDialog';
+import { PrintTilingDialog } from './PrintTilingDialog';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
-import { CropArea } from '../App';
+import { useHistory } from '../hooks/useHistory';
+import { CropArea, ExportSettings, ImageOrientation } from '../App';
+import { DEFAULT_EXPORT_SETTINGS } from '../utils/exportSettings';
+import { createProjectFile, downloadProjectFile, hashImageUrl } from '../utils/projectFile';
+import { saveSession, createSessionThumbnail } from '../utils/sessionStore';
+import { AnnotationImport, parseAnnotationFiles } from '../utils/annotationImport';
+import { CarouselLayout, buildCarouselCrops } from '../utils/carousel';
+import { fitOutputSize } from '../utils/cropRenderer';
+import { PrintTileLayout, buildPrintTileCrops } from '../utils/printTiling';
+import { ImageMetadata, readImageMetadata } from '../utils/metadata';
+import { AnimatedImage, readAnimation } from '../utils/animation';
+import { canCopyImages, copyCropToClipboard } from '../utils/clipboard';
+import {
+  IDENTITY_ORIENTATION,
+  ORIENTATION_CHANGES,
+  OrientationChange,
+  applyOrientationChange,
+  getOrientedSize,
+  isIdentityOrientation,
+  orientCrops,
+  renderOrientedImage
+} from '../utils/orientation';
+
+// Wait for a pause in editing before writing the session to IndexedDB
+const AUTOSAVE_DELAY = 800;
+
+// Verb for a history label such as "Resize Crop 3"
+const describeCropUpdate = (updates: Partial<CropArea>): string => {
+  if ('width' in updates || 'height' in updates) return 'Resize';
+  if ('x' in updates || 'y' in updates) return 'Move';
+  if ('rotation' in updates) return 'Rotate';
+  if ('name' in updates) return 'Rename';
+  if ('label' in updates) return 'Relabel';
+  if ('aspectRatio' in updates) return 'Set aspect ratio of';
+  if ('visible' in updates) return updates.visible === false ? 'Hide' : 'Show';
+  if ('zIndex' in updates) return 'Reorder';
+  return 'Edit';
+};
+
+const readAnnotationFiles = async (files: File[], image: HTMLImageElement, imageName: string | null) => {
+  const sources = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+  return parseAnnotationFiles(sources, { name: imageName, width: image.naturalWidth, height: image.naturalHeight });
+};
+
+const reportAnnotationError = (error: unknown) => {
+  console.error('Annotation import failed:', error);
+  alert(error instanceof Error ? error.message : 'The annotations could not be read');
+};
+
+// Undo covers the image orientation too, so crops and image always agree
+interface EditorState {
+  cropAreas: CropArea[];
+  orientation: ImageOrientation;
+}
+
+// What the editor hands back so its work survives switching images
+export interface EditorSnapshot extends EditorState {
+  exportSettings: ExportSettings;
+}
 
 interface CropEditorProps {
   imageUrl: string;
+  // The file before EXIF turning, with its metadata intact: projects hash and
+  // bundle it, since that is what reopening them compares against
+  sourceUrl: string;
   originalImage: HTMLImageElement | null;
+  imageName: string | null;
+  sessionId: string;
+  initialCropAreas?: CropArea[];
+  initialExportSettings?: ExportSettings;
+  initialOrientation?: ImageOrientation;
+  initialAnnotationFiles?: File[];
+  onEditorChange?: (snapshot: EditorSnapshot) => void;
   onReset: () => void;
+  // Shown under the canvas, e.g. the image queue
+  filmstrip?: React.ReactNode;
 }
 
 export const CropEditor: React.FC<CropEditorProps> = ({ 
   imageUrl, 
-  originalImage, 
-  onReset 
+  sourceUrl,
+  originalImage: sourceImage, 
+  imageName,
+  sessionId,
+  initialCropAreas,
+  initialExportSettings,
+  initialOrientation,
+  initialAnnotationFiles,
+  onEditorChange,
+  onReset,
+  filmstrip
 }) => {
-  const [cropAreas, setCropAreas] = useState<CropArea[]>([]);
+  const history = useHistory<EditorState>({
+    cropAreas: initialCropAreas || [],
+    orientation: initialOrientation || IDENTITY_ORIENTATION
+  });
+  const { cropAreas, orientation } = history.present;
+  const { apply: applyHistory } = history;
+  const applyCrops = useCallback((
+    label: string,
+    update: CropArea[] | ((prev: CropArea[]) => CropArea[]),
+    mergeKey?: string
+  ) => {
+    applyHistory(label, state => {
+      const next = typeof update === 'function' ? update(state.cropAreas) : update;
+      return next === state.cropAreas ? state : { ...state, cropAreas: next };
+    }, mergeKey);
+  }, [applyHistory]);
+  // The loaded image turned to the current orientation; everything below
+  // crops and exports from this one
+  const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(sourceImage);
+  const orientedImagesRef = useRef(new Map<string, HTMLImageElement>());
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(initialExportSettings || DEFAULT_EXPORT_SETTINGS);
   const [selectedCropId, setSelectedCropId] = useState<string | null>(null);
   const [imageScale, setImageScale] = useState(1);
   const [imageOffset, setImageOffset] = useState({ x: 0, y: 0 });
   const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
   const [advancedEditorOpen, setAdvancedEditorOpen] = useState(false);
-  const [advancedEditingCrop, setAdvancedEditingCrop] = useState<CropArea | null>(null);
+  const [advancedEditingCropId, setAdvancedEditingCropId] = useState<string | null>(null);
   const [editingCropName, setEditingCropName] = useState<string | null>(null);
   const [selectedCrops, setSelectedCrops] = useState<Set<string>>(new Set());
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const [activeMobileTab, setActiveMobileTab] = useState<'crops' | 'export'>('crops');
+  const [activeMobileTab, setActiveMobileTab] = useState<'crops' | 'history' | 'export'>('crops');
+  const [imageHash, setImageHash] = useState<string | null | undefined>(undefined);
+  const [autosavedAt, setAutosavedAt] = useState<number | null>(null);
+  const [annotationImport, setAnnotationImport] = useState<AnnotationImport | null>(null);
+  const annotationInputRef = useRef<HTMLInputElement>(null);
+  const [showCarouselSplitter, setShowCarouselSplitter] = useState(false);
+  const [showPrintTiling, setShowPrintTiling] = useState(false);
+  const [imageMetadata, setImageMetadata] = useState<ImageMetadata | null>(null);
+  const [sourceAnimation, setSourceAnimation] = useState<AnimatedImage | null>(null);
+  // Frames are never turned, so animated images can't be rotated or flipped;
+  // one turned in an older project plays as a still until it is turned back
+  const animation = isIdentityOrientation(orientation) ? sourceAnimation : null;
+  const imageStoredRef = useRef(false);
+  const hasContentRef = useRef((initialCropAreas || []).length > 0);
+
+  // Hash the image once; every project snapshot reuses it
+  useEffect(() => {
+    let cancelled = false;
+    hashImageUrl(sourceUrl).then(hash => {
+      if (!cancelled) setImageHash(hash);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceUrl]);
+
+  // Canvas exports drop all metadata, so read it from the source file
+  useEffect(() => {
+    let cancelled = false;
+    readImageMetadata(sourceUrl).then(metadata => {
+      if (!cancelled) setImageMetadata(metadata);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceUrl]);
+
+  // The image element only shows the first frame of an animated GIF
+  useEffect(() => {
+    let cancelled = false;
+    readAnimation(imageUrl).then(animation => {
+      if (!cancelled) setSourceAnimation(animation);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  // Turned copies are kept per orientation so undo and redo swap instantly
+  useEffect(() => {
+    const orientedImages = orientedImagesRef.current;
+    return () => {
+      orientedImages.forEach(image => URL.revokeObjectURL(image.src));
+      orientedImages.clear();
+    };
+  }, [sourceImage]);
+
+  useEffect(() => {
+    if (!sourceImage || isIdentityOrientation(orientation)) {
+      setOriginalImage(sourceImage);
+      return;
+    }
+
+    const key = `${orientation.rotation}-${orientation.flipped}`;
+    const cached = orientedImagesRef.current.get(key);
+    if (cached) {
+      setOriginalImage(cached);
+      return;
+    }
+
+    let cancelled = false;
+    renderOrientedImage(sourceImage, orientation)
+      .then(image => {
+        orientedImagesRef.current.set(key, image);
+        if (!cancelled) setOriginalImage(image);
+      })
+      .catch(error => console.error('Failed to turn the image:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceImage, orientation]);
+
+  // Autosave the session to IndexedDB so it survives reloads and crashes
+  useEffect(() => {
+    if (!originalImage || !sourceImage || imageHash === undefined) return;
+    // Don't litter the recent list with images that never had any crops
+    if (cropAreas.length > 0) hasContentRef.current = true;
+    if (!hasContentRef.current) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const project = await createProjectFile({
+          imageUrl: sourceUrl,
+          imageName,
+          width: sourceImage.width,
+          height: sourceImage.height,
+          cropAreas,
+          exportSettings,
+          includeImage: false,
+          imageHash,
+          orientation
+        });
+        await saveSession({
+          id: sessionId,
+          name: imageName,
+          updatedAt: Date.now(),
+          thumbnail: createSessionThumbnail(originalImage, cropAreas),
+          cropCount: cropAreas.length,
+          project
+        }, imageStoredRef.current ? undefined : sourceUrl);
+        imageStoredRef.current = true;
+        setAutosavedAt(Date.now());
+      } catch (error) {
+        console.warn('Autosave failed:', error);
+      }
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [cropAreas, exportSettings, originalImage, sourceImage, orientation, sourceUrl, imageName, imageHash, sessionId]);
+
+  useEffect(() => {
+    onEditorChange?.({ cropAreas, orientation, exportSettings });
+  }, [cropAreas, orientation, exportSettings, onEditorChange]);
+
+  // Annotation files dropped together with the image
+  useEffect(() => {
+    if (!sourceImage || !initialAnnotationFiles || initialAnnotationFiles.length === 0) return;
+    readAnnotationFiles(initialAnnotationFiles, sourceImage, imageName)
+      .then(setAnnotationImport)
+      .catch(reportAnnotationError);
+  }, [initialAnnotationFiles, sourceImage, imageName]);
 
   // Initialize image position when image loads
   useEffect(() => {
@@ -84,7 +317,7 @@ export const CropEditor: React.FC<CropEditorProps> = ({
       };
     }
     
-    setCropAreas([...cropAreas, newCrop]);
+    applyCrops(`Add ${newCrop.name}`, crops => [...crops, newCrop]);
     setSelectedCropId(newCrop.id);
   };
 
@@ -127,7 +360,7 @@ export const CropEditor: React.FC<CropEditorProps> = ({
     }
     
     // Add all crops at once
-    setCropAreas(prev => [...prev, ...newCrops]);
+    applyCrops(`Create ${rows}×${cols} grid`, prev => [...prev, ...newCrops]);
     
     // Select the first crop in the grid
     if (newCrops.length > 0) {
@@ -136,7 +369,12 @@ export const CropEditor: React.FC<CropEditorProps> = ({
   };
 
   const updateGridCrops = (gridId: string, updates: Partial<CropArea>) => {
-    setCropAreas(crops => 
+    const gridMembers = cropAreas.filter(crop => crop.gridId === gridId);
+    const rows = new Set(gridMembers.map(crop => crop.gridPosition?.row)).size;
+    const cols = new Set(gridMembers.map(crop => crop.gridPosition?.col)).size;
+    const verb = describeCropUpdate(updates);
+
+    applyCrops(`${verb} ${rows}×${cols} grid`, crops => 
       crops.map(crop => {
         if (crop.gridId === gridId) {
           const updatedCrop = { ...crop, ...updates };
@@ -156,15 +394,53 @@ export const CropEditor: React.FC<CropEditorProps> = ({
             }
           }
           
-          return updatedCrop;
+          return fitOutputSize(updatedCrop);
         }
         return crop;
-      })
+      }),
+      `${verb}:${gridId}`
     );
   };
 
+  // Equal panels side by side as one linked grid row, in swipe order
+  const splitCarousel = (
+    layout: CarouselLayout,
+    options: { replaceCropId: string | null; outputSize: { width: number; height: number } | null }
+  ) => {
+    const remaining = cropAreas.filter(crop => crop.id !== options.replaceCropId);
+    const panels = buildCarouselCrops(layout, remaining.length, options.outputSize);
+
+    applyCrops(`Split carousel into ${panels.length} panels`, crops => [
+      ...crops.filter(crop => crop.id !== options.replaceCropId),
+      ...panels
+    ]);
+    setSelectedCropId(panels[0].id);
+    setShowCarouselSplitter(false);
+  };
+
+  const addPrintTiles = (layout: PrintTileLayout) => {
+    const tiles = buildPrintTileCrops(layout, cropAreas.length);
+    applyCrops(`Add ${layout.cols}×${layout.rows} print tiles`, crops => [...crops, ...tiles]);
+    setSelectedCropId(tiles[0].id);
+    setShowPrintTiling(false);
+  };
+
+  // Turn the whole image; crops are turned with it so they keep their content
+  const changeOrientation = (change: OrientationChange) => {
+    if (!sourceImage) return;
+    const label = ORIENTATION_CHANGES.find(item => item.change === change)?.label ?? 'Turn';
+    applyHistory(`${label} image`, state => {
+      const { width, height } = getOrientedSize(sourceImage.naturalWidth, sourceImage.naturalHeight, state.orientation);
+      return {
+        cropAreas: orientCrops(state.cropAreas, change, width, height),
+        orientation: applyOrientationChange(state.orientation, change)
+      };
+    });
+  };
+
   const unlinkFromGrid = (cropId: string) => {
-    setCropAreas(crops => 
+    const target = cropAreas.find(c => c.id === cropId);
+    applyCrops(`Unlink ${target?.name ?? 'crop'} from grid`, crops => 
       crops.map(crop => 
         crop.id === cropId 
           ? { ...crop, gridId: undefined, gridPosition: undefined }
@@ -200,20 +476,67 @@ export const CropEditor: React.FC<CropEditorProps> = ({
       // Note: Don't copy gridId or gridPosition for individual copies
     };
 
-    setCropAreas([...cropAreas, newCrop]);
+    applyCrops(`Duplicate ${sourceCrop.name}`, crops => [...crops, newCrop]);
     setSelectedCropId(newCrop.id);
   };
 
   const updateCropArea = (id: string, updates: Partial<CropArea>) => {
-    setCropAreas(crops => 
+    const target = cropAreas.find(c => c.id === id);
+    const verb = describeCropUpdate(updates);
+
+    // Repeated edits of the same kind (nudges, typing) merge into one step
+    applyCrops(`${verb} ${target?.name ?? 'crop'}`, crops => 
       crops.map(crop => 
-        crop.id === id ? { ...crop, ...updates } : crop
-      )
+        crop.id === id ? fitOutputSize({ ...crop, ...updates }) : crop
+      ),
+      `${verb}:${id}`
+    );
+  };
+
+  const handleAnnotationFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!originalImage || files.length === 0) return;
+    readAnnotationFiles(files, originalImage, imageName)
+      .then(setAnnotationImport)
+      .catch(reportAnnotationError);
+  };
+
+  // Turn each imported box into a crop named after its label
+  const importAnnotations = (mode: 'merge' | 'replace') => {
+    if (!annotationImport) return;
+
+    const labelCounts = new Map<string, number>();
+    const firstIndex = mode === 'merge' ? cropAreas.length : 0;
+    const stamp = Date.now();
+    const imported: CropArea[] = annotationImport.boxes.map((box, index) => {
+      const count = (labelCounts.get(box.label) || 0) + 1;
+      labelCounts.set(box.label, count);
+      return {
+        id: `crop-${stamp}-${index}`,
+        x: box.x,
+        y: box.y,
+        width: box.width,
+        height: box.height,
+        rotation: box.rotation,
+        name: count === 1 ? box.label : `${box.label} ${count}`,
+        label: box.label,
+        visible: true,
+        zIndex: firstIndex + index
+      };
+    });
+
+    applyCrops(
+      `Import ${imported.length} ${annotationImport.format} ${imported.length === 1 ? 'box' : 'boxes'}`,
+      crops => (mode === 'merge' ? [...crops, ...imported] : imported)
     );
+    setSelectedCropId(null);
+    setAnnotationImport(null);
   };
 
   const deleteCropArea = (id: string) => {
-    setCropAreas(crops => crops.filter(crop => crop.id !== id));
+    const target = cropAreas.find(c => c.id === id);
+    applyCrops(`Delete ${target?.name ?? 'crop'}`, crops => crops.filter(crop => crop.id !== id));
     if (selectedCropId === id) {
       setSelectedCropId(null);
     }
@@ -228,11 +551,14 @@ export const CropEditor: React.FC<CropEditorProps> = ({
   const handleCropDoubleClick = (cropId: string) => {
     const crop = cropAreas.find(c => c.id === cropId);
     if (crop) {
-      setAdvancedEditingCrop(crop);
+      setAdvancedEditingCropId(crop.id);
       setAdvancedEditorOpen(true);
     }
   };
 
+  // Read the edited crop from history state so undo/redo is reflected in the editor
+  const advancedEditingCrop = cropAreas.find(crop => crop.id === advancedEditingCropId) || null;
+
   const handleAdvancedCropUpdate = (updates: Partial<CropArea>) => {
     if (advancedEditingCrop) {
       if (advancedEditingCrop.gridId) {
@@ -240,14 +566,13 @@ export const CropEditor: React.FC<CropEditorProps> = ({
       } else {
         updateCropArea(advancedEditingCrop.id, updates);
       }
-      setAdvancedEditingCrop(prev => prev ? { ...prev, ...updates } : null);
     }
   };
 
   const handleSwitchCrop = (cropId: string) => {
     const crop = cropAreas.find(c => c.id === cropId);
     if (crop) {
-      setAdvancedEditingCrop(crop);
+      setAdvancedEditingCropId(crop.id);
       setSelectedCropId(cropId);
     }
   };
@@ -263,11 +588,43 @@ export const CropEditor: React.FC<CropEditorProps> = ({
     console.log('Export selected crops:', Array.from(selectedCrops));
   };
 
+  const handleSaveProject = async (includeImage: boolean = true) => {
+    if (!sourceImage) return;
+
+    try {
+      const project = await createProjectFile({
+        imageUrl: sourceUrl,
+        imageName,
+        width: sourceImage.width,
+        height: sourceImage.height,
+        cropAreas,
+        exportSettings,
+        includeImage,
+        imageHash,
+        orientation
+      });
+      downloadProjectFile(project);
+    } catch (error) {
+      console.error('Project save failed:', error);
+    }
+  };
+
   // Context menu handlers
   const handleCropExport = (cropId: string) => {
     console.log('Export crop:', cropId);
   };
 
+  // Called straight from the click or key press; browsers only allow
+  // clipboard writes during a user gesture
+  const copyCropImage = (cropId: string) => {
+    const crop = cropAreas.find(c => c.id === cropId);
+    if (!crop || !originalImage) return;
+    copyCropToClipboard(originalImage, crop, exportSettings).catch(error => {
+      console.error('Copy to clipboard failed:', error);
+      alert(error instanceof Error ? error.message : 'The crop could not be copied');
+    });
+  };
+
   const selectedCrop = cropAreas.find(crop => crop.id === selectedCropId);
 
   // Set up keyboard shortcuts
@@ -278,17 +635,21 @@ export const CropEditor: React.FC<CropEditorProps> = ({
     onCropUpdate: updateCropArea,
     onCropDelete: deleteCropArea,
     onCropCopy: copyCropStyle,
+    onCropCopyImage: canCopyImages() ? copyCropImage : undefined,
     onAddCrop: () => addCropArea(),
     onCropDoubleClick: handleCropDoubleClick,
     onUpdateGridCrops: updateGridCrops,
     onUnlinkFromGrid: unlinkFromGrid,
     onExportAll: handleExportAll,
     onExportSelected: handleExportSelected,
+    onSaveProject: () => handleSaveProject(),
+    onUndo: history.undo,
+    onRedo: history.redo,
     onReset,
     isAdvancedEditorOpen: advancedEditorOpen,
     onCloseAdvancedEditor: () => {
       setAdvancedEditorOpen(false);
-      setAdvancedEditingCrop(null);
+      setAdvancedEditingCropId(null);
     }
   });
 
@@ -324,44 +685,73 @@ export const CropEditor: React.FC<CropEditorProps> = ({
             onUnlinkFromGrid={unlinkFromGrid}
             editingCropName={editingCropName}
             onSetEditingCropName={setEditingCropName}
+            onImportAnnotations={() => annotationInputRef.current?.click()}
+            onSplitCarousel={() => setShowCarouselSplitter(true)}
+            onPrintTiles={() => setShowPrintTiling(true)}
+            onChangeOrientation={animation ? undefined : changeOrientation}
           />
+          <div className="p-4 border-t border-gray-700">
+            <HistoryPanel
+              past={history.past}
+              future={history.future}
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              onUndo={history.undo}
+              onRedo={history.redo}
+              onJumpTo={history.jumpTo}
+            />
+          </div>
         </div>
 
         {/* Main Canvas Area */}
-        <div className="flex-1 bg-gray-800 relative overflow-hidden">
-          <ViewportAwareCropCanvas
-            imageUrl={imageUrl}
-            originalImage={originalImage}
-            cropAreas={cropAreas}
-            selectedCropId={selectedCropId}
-            onCropSelect={setSelectedCropId}
-            onCropUpdate={updateCropArea}
-            onCropAdd={addCropArea}
-            imageScale={imageScale}
-            imageOffset={imageOffset}
-            onImageTransform={({ scale, offset }) => {
-              setImageScale(scale);
-              setImageOffset(offset);
-            }}
-            onCanvasResize={setCanvasSize}
-            onCropDoubleClick={handleCropDoubleClick}
-            onUpdateGridCrops={updateGridCrops}
-            onCropDelete={deleteCropArea}
-            onCropCopy={copyCropStyle}
-            onCropRename={(cropId) => setEditingCropName(cropId)}
-            onUnlinkFromGrid={unlinkFromGrid}
-            onCropExport={handleCropExport}
-          />
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex-1 bg-gray-800 relative overflow-hidden">
+            <ViewportAwareCropCanvas
+              imageUrl={imageUrl}
+              originalImage={originalImage}
+              cropAreas={cropAreas}
+              selectedCropId={selectedCropId}
+              onCropSelect={setSelectedCropId}
+              onCropUpdate={updateCropArea}
+              onCropAdd={addCropArea}
+              imageScale={imageScale}
+              imageOffset={imageOffset}
+              onImageTransform={({ scale, offset }) => {
+                setImageScale(scale);
+                setImageOffset(offset);
+              }}
+              onCanvasResize={setCanvasSize}
+              onCropDoubleClick={handleCropDoubleClick}
+              onUpdateGridCrops={updateGridCrops}
+              onCropDelete={deleteCropArea}
+              onCropCopy={copyCropStyle}
+              onCropRename={(cropId) => setEditingCropName(cropId)}
+              onUnlinkFromGrid={unlinkFromGrid}
+              onCropExport={handleCropExport}
+              onCropCopyImage={canCopyImages() ? copyCropImage : undefined}
+              animation={animation}
+              onGestureStart={history.beginGesture}
+              onGestureEnd={history.endGesture}
+            />
+          </div>
+          {filmstrip}
         </div>
 
         {/* Right Sidebar - Export Panel */}
         <div className="w-80 bg-gray-900 border-l border-gray-700 flex flex-col">
           <ExportPanel
             originalImage={originalImage}
+            imageName={imageName}
+            imageMetadata={imageMetadata}
+            animation={animation}
             cropAreas={cropAreas}
             imageScale={imageScale}
             imageOffset={imageOffset}
             canvasSize={canvasSize}
+            exportSettings={exportSettings}
+            onExportSettingsChange={setExportSettings}
+            onSaveProject={handleSaveProject}
+            autosavedAt={autosavedAt}
           />
         </div>
       </div>
@@ -392,9 +782,15 @@ export const CropEditor: React.FC<CropEditorProps> = ({
             onCropRename={(cropId) => setEditingCropName(cropId)}
             onUnlinkFromGrid={unlinkFromGrid}
             onCropExport={handleCropExport}
+            onCropCopyImage={canCopyImages() ? copyCropImage : undefined}
+            animation={animation}
+            onGestureStart={history.beginGesture}
+            onGestureEnd={history.endGesture}
           />
         </div>
 
+        {filmstrip}
+
         {/* Mobile Bottom Panel */}
         <div className="bg-gray-900 border-t border-gray-700">
           {/* Tab Navigation */}
@@ -409,6 +805,16 @@ export const CropEditor: React.FC<CropEditorProps> = ({
             >
               Crop Tools ({cropAreas.length})
             </button>
+            <button
+              onClick={() => setActiveMobileTab('history')}
+              className={`flex-1 py-3 px-4 text-sm font-medium transition-colors ${
+                activeMobileTab === 'history'
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-400 hover:text-white hover:bg-gray-800'
+              }`}
+            >
+              History
+            </button>
             <button
               onClick={() => setActiveMobileTab('export')}
               className={`flex-1 py-3 px-4 text-sm font-medium transition-colors ${
@@ -438,16 +844,39 @@ export const CropEditor: React.FC<CropEditorProps> = ({
                   onUnlinkFromGrid={unlinkFromGrid}
                   editingCropName={editingCropName}
                   onSetEditingCropName={setEditingCropName}
+                  onImportAnnotations={() => annotationInputRef.current?.click()}
+                  onSplitCarousel={() => setShowCarouselSplitter(true)}
+                  onPrintTiles={() => setShowPrintTiling(true)}
+                  onChangeOrientation={animation ? undefined : changeOrientation}
+                />
+              </div>
+            ) : activeMobileTab === 'history' ? (
+              <div className="p-4">
+                <HistoryPanel
+                  past={history.past}
+                  future={history.future}
+                  canUndo={history.canUndo}
+                  canRedo={history.canRedo}
+                  onUndo={history.undo}
+                  onRedo={history.redo}
+                  onJumpTo={history.jumpTo}
                 />
               </div>
             ) : (
               <div className="p-4">
                 <ExportPanel
                   originalImage={originalImage}
+                  imageName={imageName}
+                  imageMetadata={imageMetadata}
+                  animation={animation}
                   cropAreas={cropAreas}
                   imageScale={imageScale}
                   imageOffset={imageOffset}
                   canvasSize={canvasSize}
+                  exportSettings={exportSettings}
+                  onExportSettingsChange={setExportSettings}
+                  onSaveProject={handleSaveProject}
+                  autosavedAt={autosavedAt}
                 />
               </div>
             )}
@@ -461,15 +890,66 @@ export const CropEditor: React.FC<CropEditorProps> = ({
           isOpen={advancedEditorOpen}
           onClose={() => {
             setAdvancedEditorOpen(false);
-            setAdvancedEditingCrop(null);
+            setAdvancedEditingCropId(null);
           }}
           crop={advancedEditingCrop}
           originalImage={originalImage}
+          imageName={imageName}
+          imageMetadata={imageMetadata}
+          exportSettings={exportSettings}
+          onExportSettingsChange={setExportSettings}
           onUpdateCrop={handleAdvancedCropUpdate}
           imageScale={imageScale}
           imageOffset={imageOffset}
           allCrops={cropAreas}
           onSwitchCrop={handleSwitchCrop}
+          onGestureStart={history.beginGesture}
+          onGestureEnd={history.endGesture}
+          onUndo={history.undo}
+          onRedo={history.redo}
+          canUndo={history.canUndo}
+          canRedo={history.canRedo}
+        />
+      )}
+
+      {/* Annotation Import */}
+      <input
+        ref={annotationInputRef}
+        type="file"
+        accept=".json,.xml,.txt,.csv,.names"
+        multiple
+        onChange={handleAnnotationFileChange}
+        className="hidden"
+      />
+      {annotationImport && (
+        <AnnotationImportDialog
+          result={annotationImport}
+          existingCropCount={cropAreas.length}
+          onImport={importAnnotations}
+          onCancel={() => setAnnotationImport(null)}
+        />
+      )}
+
+      {/* Carousel Splitter */}
+      {showCarouselSplitter && originalImage && (
+        <CarouselSplitterDialog
+          image={originalImage}
+          selectedCrop={cropAreas.find(crop => crop.id === selectedCropId) || null}
+          onCreate={splitCarousel}
+          onCancel={() => setShowCarouselSplitter(false)}
+        />
+      )}
+
+      {/* Print Tiling */}
+      {showPrintTiling && originalImage && (
+        <PrintTilingDialog
+          image={originalImage}
+          imageName={imageName}
+          selectedCrop={cropAreas.find(crop => crop.id === selectedCropId) || null}
+          exportSettings={exportSettings}
+          onExportSettingsChange={setExportSettings}
+          onCreateCrops={addPrintTiles}
+          onCancel={() => setShowPrintTiling(false)}
         />
       )}
 
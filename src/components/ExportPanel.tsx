@@ -1,108 +1,83 @@
 import React, { useState } from 'react';
-import { Download, Settings, Image as ImageIcon, CheckSquare, Square } from 'lucide-react';
-import { CropArea } from '../App';
+import { Download, Settings, Image as ImageIcon, CheckSquare, Square, Save, Archive, FileText, AlertTriangle, Code, Copy, Check, Gauge, Tags, LayoutGrid, Boxes, Info, Film } from 'lucide-react';
+import { CropArea, ExportSettings } from '../App';
+import { getCropOutputSize } from '../utils/cropRenderer';
+import { ZipEntry, createZip, dataUrlToBytes } from '../utils/zip';
+import { supportsTargetSize } from '../utils/targetSize';
+import { buildManifestFiles, renderCropFiles } from '../utils/cropExport';
+import {
+  ANNOTATION_FORMATS,
+  AnnotationFormat,
+  DEFAULT_LABEL,
+  buildAnnotationFiles,
+  getAnnotationLabels,
+  getAnnotationWarnings
+} from '../utils/annotations';
+import { FILE_NAME_TOKENS, findUnknownTokens, getExportFileNames, getUniqueFileName } from '../utils/fileNames';
+import { downloadBlob } from '../utils/download';
+import { buildContactSheet } from '../utils/contactSheet';
+import { buildAtlas } from '../utils/atlas';
+import { ImageMetadata, buildMetadataPayload } from '../utils/metadata';
+import { ExportedCrop, buildSrcsetMarkup } from '../utils/responsiveVariants';
+import { AnimatedImage, getAnimationDuration } from '../utils/animation';
+import { getSourceBaseName } from '../utils/videoFrames';
+import { OutputSizeControls } from './OutputSizeControls';
+import { RotatedOutputControls } from './RotatedOutputControls';
+import { BackgroundControls } from './BackgroundControls';
+import { ResponsiveVariantControls } from './ResponsiveVariantControls';
+import { ContactSheetControls } from './ContactSheetControls';
+import { AtlasControls } from './AtlasControls';
+import { MetadataControls } from './MetadataControls';
 
 interface ExportPanelProps {
   originalImage: HTMLImageElement | null;
+  imageName: string | null;
+  imageMetadata: ImageMetadata | null;
+  animation: AnimatedImage | null;
   cropAreas: CropArea[];
   imageScale: number;
   imageOffset: { x: number; y: number };
   canvasSize: { width: number; height: number };
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+  onSaveProject: (includeImage: boolean) => void;
+  autosavedAt: number | null;
 }
 
+const formatBytes = (bytes: number) => {
+  return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
 export const ExportPanel: React.FC<ExportPanelProps> = ({
   originalImage,
+  imageName,
+  imageMetadata,
+  animation,
   cropAreas,
   imageScale,
   imageOffset,
-  canvasSize
+  canvasSize,
+  exportSettings,
+  onExportSettingsChange,
+  onSaveProject,
+  autosavedAt
 }) => {
-  const [exportFormat, setExportFormat] = useState<'png' | 'jpeg' | 'webp'>('png');
-  const [exportQuality, setExportQuality] = useState(0.9);
+  const { format: exportFormat, quality: exportQuality, archive, includeManifest, manifestFormat, variants, targetSize } = exportSettings;
+  const usesTargetSize = targetSize.enabled && supportsTargetSize(exportFormat);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
   const [selectedCrops, setSelectedCrops] = useState<Set<string>>(new Set());
+  const [bundleImage, setBundleImage] = useState(true);
+  const [variantMarkup, setVariantMarkup] = useState<string | null>(null);
+  const [markupCopied, setMarkupCopied] = useState(false);
+  const [annotationFormat, setAnnotationFormat] = useState<AnnotationFormat>('coco');
+  const [sheetProgress, setSheetProgress] = useState<{ done: number; total: number } | null>(null);
+  const [atlasProgress, setAtlasProgress] = useState<{ done: number; total: number } | null>(null);
+  const [atlasSummary, setAtlasSummary] = useState<string | null>(null);
+  const [sizeReport, setSizeReport] = useState<{ crops: ExportedCrop[]; overBudget: string[] } | null>(null);
 
-  const cropImage = (crop: CropArea): Promise<string> => {
-    return new Promise((resolve) => {
-      if (!originalImage) {
-        resolve('');
-        return;
-      }
-
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve('');
-        return;
-      }
-
-      // Get device pixel ratio for high-DPI displays (especially mobile)
-      const devicePixelRatio = window.devicePixelRatio || 1;
-      
-      // For mobile devices, we need to be more precise with coordinate calculations
-      const isMobile = window.innerWidth < 768;
-      
-      // The crop coordinates are already in image space, so we can use them directly
-      // No need to convert from canvas coordinates since crops are stored in image coordinates
-      let cropX = crop.x;
-      let cropY = crop.y;
-      let cropWidth = crop.width;
-      let cropHeight = crop.height;
-
-      // Ensure crop coordinates are within image bounds
-      cropX = Math.max(0, Math.min(cropX, originalImage.width));
-      cropY = Math.max(0, Math.min(cropY, originalImage.height));
-      cropWidth = Math.max(1, Math.min(cropWidth, originalImage.width - cropX));
-      cropHeight = Math.max(1, Math.min(cropHeight, originalImage.height - cropY));
-
-      // Set canvas size to the exact crop dimensions
-      // For mobile, we might want to scale up for better quality
-      const outputScale = isMobile ? Math.min(2, devicePixelRatio) : 1;
-      canvas.width = cropWidth * outputScale;
-      canvas.height = cropHeight * outputScale;
-
-      // Scale the context for high-DPI output
-      if (outputScale !== 1) {
-        ctx.scale(outputScale, outputScale);
-      }
-
-      // Fill with white background for transparent areas
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, cropWidth, cropHeight);
-
-      // Apply rotation if present
-      const rotation = crop.rotation || 0;
-      if (rotation !== 0) {
-        // Move to center of canvas for rotation
-        ctx.translate(cropWidth / 2, cropHeight / 2);
-        ctx.rotate((rotation * Math.PI) / 180);
-        ctx.translate(-cropWidth / 2, -cropHeight / 2);
-      }
-
-      // Draw the cropped portion of the image
-      // Use the exact crop coordinates from image space
-      ctx.drawImage(
-        originalImage,
-        cropX,           // Source X in original image
-        cropY,           // Source Y in original image  
-        cropWidth,       // Source width in original image
-        cropHeight,      // Source height in original image
-        0,               // Destination X in canvas
-        0,               // Destination Y in canvas
-        cropWidth,       // Destination width in canvas
-        cropHeight       // Destination height in canvas
-      );
-
-      const mimeType = exportFormat === 'jpeg' ? 'image/jpeg' : 
-                      exportFormat === 'webp' ? 'image/webp' : 'image/png';
-      
-      // For mobile, ensure we get the best quality
-      const quality = exportFormat === 'png' ? undefined : 
-                     isMobile ? Math.max(0.9, exportQuality) : exportQuality;
-      
-      const dataUrl = canvas.toDataURL(mimeType, quality);
-      resolve(dataUrl);
-    });
+  const updateSettings = (updates: Partial<ExportSettings>) => {
+    onExportSettingsChange({ ...exportSettings, ...updates });
   };
 
   const downloadImage = (dataUrl: string, filename: string) => {
@@ -124,51 +99,152 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
     document.body.removeChild(link);
   };
 
-  const handleExportSelected = async () => {
-    if (selectedCrops.size === 0) return;
-    
+  const renderExportFiles = async (crops: CropArea[], usedNames: Set<string>) => {
+    if (!originalImage) return { files: [], exported: [], overBudget: [] };
+
+    // For mobile, ensure we get the best quality
+    const isMobile = window.innerWidth < 768;
+    const quality = isMobile ? Math.max(0.9, exportQuality) : exportQuality;
+    const metadata = buildMetadataPayload(imageMetadata, exportSettings.metadata);
+    setExportProgress({ done: 0, total: crops.length });
+    return renderCropFiles(originalImage, crops, { ...exportSettings, quality }, imageName, metadata, animation, usedNames, (done, total) => {
+      setExportProgress({ done, total });
+    });
+  };
+
+  const getArchiveBaseName = () => {
+    return (getSourceBaseName(imageName) || 'crops').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  };
+
+  const exportCrops = async (crops: CropArea[]) => {
+    if (crops.length === 0) return;
+
     setIsExporting(true);
     try {
-      const cropsToExport = cropAreas.filter(crop => selectedCrops.has(crop.id));
-      for (const crop of cropsToExport) {
-        const dataUrl = await cropImage(crop);
-        if (dataUrl) {
-          const filename = `${crop.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${exportFormat}`;
-          downloadImage(dataUrl, filename);
+      const usedNames = new Set<string>();
+      const { files, exported, overBudget } = await renderExportFiles(crops, usedNames);
+      setSizeReport(usesTargetSize ? { crops: exported, overBudget } : null);
+      const useArchive = archive && files.length > 1;
+
+      // Variant exports always ship with their manifest and markup, since
+      // the byte sizes and srcset are what they are for
+      const textFiles: { name: string; text: string; type: string }[] = [];
+      if (includeManifest || variants.enabled) {
+        const source = {
+          file: imageName,
+          width: originalImage?.naturalWidth || 0,
+          height: originalImage?.naturalHeight || 0
+        };
+        textFiles.push(...buildManifestFiles(exported, source, exportSettings, usedNames));
+      }
+      if (variants.enabled) {
+        const markup = buildSrcsetMarkup(exported, exportSettings);
+        setVariantMarkup(markup);
+        textFiles.push({ name: getUniqueFileName('srcset.html', usedNames), text: `${markup}\n`, type: 'text/html' });
+      }
+
+      if (useArchive) {
+        // Everything goes into one ZIP so the browser only sees a single download
+        const encoder = new TextEncoder();
+        const entries: ZipEntry[] = [
+          ...files.map(({ name, dataUrl }) => ({ name, data: dataUrlToBytes(dataUrl) })),
+          ...textFiles.map(({ name, text }) => ({ name, data: encoder.encode(text) }))
+        ];
+        downloadBlob(createZip(entries), `${getArchiveBaseName()}_crops.zip`);
+      } else {
+        for (const { name, dataUrl } of files) {
+          downloadImage(dataUrl, name);
           // Add a longer delay for mobile to handle downloads properly
           const delay = window.innerWidth < 768 ? 500 : 200;
           await new Promise(resolve => setTimeout(resolve, delay));
         }
+        textFiles.forEach(({ name, text, type }) => downloadBlob(new Blob([text], { type }), name));
       }
     } catch (error) {
-      console.error('Selected export failed:', error);
+      console.error('Export failed:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : error}`);
     } finally {
       setIsExporting(false);
+      setExportProgress(null);
     }
   };
 
-  const handleExportAll = async () => {
-    if (cropAreas.length === 0) return;
-    
-    setIsExporting(true);
+  const exportAnnotations = () => {
+    if (!originalImage || cropAreas.length === 0) return;
+
     try {
-      for (const crop of cropAreas) {
-        const dataUrl = await cropImage(crop);
-        if (dataUrl) {
-          const filename = `${crop.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${exportFormat}`;
-          downloadImage(dataUrl, filename);
-          // Add a longer delay for mobile to handle downloads properly
-          const delay = window.innerWidth < 768 ? 500 : 200;
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
+      const image = { name: imageName, width: originalImage.naturalWidth, height: originalImage.naturalHeight };
+      const files = buildAnnotationFiles(cropAreas, image, annotationFormat);
+      if (files.length === 1) {
+        const [{ name, text }] = files;
+        const type = name.endsWith('.json') ? 'application/json' : name.endsWith('.xml') ? 'application/xml' : 'text/plain';
+        downloadBlob(new Blob([text], { type }), name);
+      } else {
+        const encoder = new TextEncoder();
+        const entries = files.map(({ name, text }) => ({ name, data: encoder.encode(text) }));
+        downloadBlob(createZip(entries), `${getArchiveBaseName()}_${annotationFormat.replace('-', '_')}.zip`);
       }
     } catch (error) {
-      console.error('Bulk export failed:', error);
+      console.error('Annotation export failed:', error);
+      alert(`Annotation export failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const exportContactSheet = async () => {
+    if (!originalImage || sheetProgress) return;
+
+    setSheetProgress({ done: 0, total: visibleCropCount });
+    try {
+      const pdf = await buildContactSheet(originalImage, cropAreas, exportSettings, imageName, (done, total) => {
+        setSheetProgress({ done, total });
+      });
+      downloadBlob(pdf, `${getArchiveBaseName()}_contact_sheet.pdf`);
+    } catch (error) {
+      console.error('Contact sheet export failed:', error);
+      alert(`Contact sheet export failed: ${error instanceof Error ? error.message : error}`);
     } finally {
-      setIsExporting(false);
+      setSheetProgress(null);
     }
   };
 
+  // Packs the selected crops, or all of them when none are selected
+  const exportAtlas = async () => {
+    if (!originalImage || atlasProgress) return;
+
+    const crops = selectedCrops.size > 0 ? cropAreas.filter(crop => selectedCrops.has(crop.id)) : cropAreas;
+    setAtlasProgress({ done: 0, total: crops.length });
+    try {
+      const baseName = getArchiveBaseName();
+      const { entries, sheets } = await buildAtlas(originalImage, crops, exportSettings, baseName, (done, total) => {
+        setAtlasProgress({ done, total });
+      });
+      downloadBlob(createZip(entries), `${baseName}_atlas.zip`);
+      setAtlasSummary(
+        `${crops.length} ${crops.length === 1 ? 'sprite' : 'sprites'} on ${sheets.map(sheet => `${sheet.width}×${sheet.height}`).join(', ')}`
+      );
+    } catch (error) {
+      console.error('Atlas export failed:', error);
+      alert(`Atlas export failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setAtlasProgress(null);
+    }
+  };
+
+  const copyVariantMarkup = async () => {
+    if (!variantMarkup) return;
+    try {
+      await navigator.clipboard.writeText(variantMarkup);
+      setMarkupCopied(true);
+      setTimeout(() => setMarkupCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy markup:', error);
+    }
+  };
+
+  const handleExportSelected = () => exportCrops(cropAreas.filter(crop => selectedCrops.has(crop.id)));
+
+  const handleExportAll = () => exportCrops(cropAreas);
+
   const toggleCropSelection = (cropId: string) => {
     const newSelected = new Set(selectedCrops);
     if (newSelected.has(cropId)) {
@@ -179,6 +255,15 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
     setSelectedCrops(newSelected);
   };
 
+  // Names shown in the preview follow the crops that would be exported next
+  const previewCrops = selectedCrops.size > 0 ? cropAreas.filter(crop => selectedCrops.has(crop.id)) : cropAreas;
+  const previewNames = getExportFileNames(previewCrops, exportSettings, imageName);
+  const collisionCount = previewNames.filter(({ collided }) => collided).length;
+  const unknownTokens = findUnknownTokens(exportSettings.fileNameTemplate);
+  const annotationLabels = getAnnotationLabels(cropAreas);
+  const visibleCropCount = cropAreas.filter(crop => crop.visible !== false).length;
+  const annotationWarnings = getAnnotationWarnings(cropAreas, annotationFormat);
+
   const selectAllCrops = () => {
     if (selectedCrops.size === cropAreas.length) {
       setSelectedCrops(new Set());
@@ -213,7 +298,7 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
               <label className="block text-xs text-gray-400 mb-2">Format</label>
               <select
                 value={exportFormat}
-                onChange={(e) => setExportFormat(e.target.value as 'png' | 'jpeg' | 'webp')}
+                onChange={(e) => updateSettings({ format: e.target.value as ExportSettings['format'] })}
                 className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
               >
                 <option value="png">PNG (Lossless)</option>
@@ -223,7 +308,37 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
             </div>
 
             {/* Quality Setting */}
-            {(exportFormat === 'jpeg' || exportFormat === 'webp') && (
+            {supportsTargetSize(exportFormat) && (
+              <div>
+                <label className="block text-xs text-gray-400 mb-2">Compression</label>
+                <select
+                  value={targetSize.enabled ? 'target' : 'quality'}
+                  onChange={(e) => updateSettings({ targetSize: { ...targetSize, enabled: e.target.value === 'target' } })}
+                  className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="quality">Fixed quality</option>
+                  <option value="target">Target file size</option>
+                </select>
+              </div>
+            )}
+
+            {usesTargetSize && (
+              <div>
+                <label className="block text-xs text-gray-400 mb-2">Maximum size per file (KB)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={targetSize.kilobytes || ''}
+                  onChange={(e) => updateSettings({ targetSize: { ...targetSize, kilobytes: Math.max(0, Number(e.target.value) || 0) } })}
+                  className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Picks the highest quality that fits, and scales down if even the lowest quality is too large
+                </p>
+              </div>
+            )}
+
+            {supportsTargetSize(exportFormat) && !targetSize.enabled && (
               <div>
                 <label className="block text-xs text-gray-400 mb-2">
                   Quality: {Math.round(exportQuality * 100)}%
@@ -237,14 +352,199 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
                   max="1"
                   step="0.1"
                   value={exportQuality}
-                  onChange={(e) => setExportQuality(parseFloat(e.target.value))}
+                  onChange={(e) => updateSettings({ quality: parseFloat(e.target.value) })}
                   className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
                 />
               </div>
             )}
+
+            <OutputSizeControls
+              exportSettings={exportSettings}
+              onExportSettingsChange={onExportSettingsChange}
+            />
+
+            <RotatedOutputControls
+              exportSettings={exportSettings}
+              onExportSettingsChange={onExportSettingsChange}
+            />
+
+            <BackgroundControls
+              exportSettings={exportSettings}
+              onExportSettingsChange={onExportSettingsChange}
+            />
+
+            <ResponsiveVariantControls
+              exportSettings={exportSettings}
+              onExportSettingsChange={onExportSettingsChange}
+            />
+
+            {/* Archive Options */}
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={archive}
+                  onChange={(e) => updateSettings({ archive: e.target.checked })}
+                  className="rounded bg-gray-700 border-gray-600"
+                />
+                <span>Download multiple crops as one ZIP</span>
+              </label>
+              <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={includeManifest}
+                  onChange={(e) => updateSettings({ includeManifest: e.target.checked })}
+                  className="rounded bg-gray-700 border-gray-600"
+                />
+                <span>Include a manifest of crop positions</span>
+              </label>
+              {(includeManifest || variants.enabled) && (
+                <select
+                  value={manifestFormat}
+                  onChange={(e) => updateSettings({ manifestFormat: e.target.value as ExportSettings['manifestFormat'] })}
+                  className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  <option value="json">manifest.json</option>
+                  <option value="csv">manifest.csv</option>
+                  <option value="both">JSON and CSV</option>
+                </select>
+              )}
+              {variants.enabled && (
+                <p className="text-xs text-gray-500">
+                  Variant exports always include a manifest and srcset.html
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {animation && (
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h4 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+              <Film className="h-4 w-4 mr-2" />
+              Animation
+            </h4>
+
+            <div className="space-y-2">
+              <select
+                value={exportSettings.animationFormat}
+                onChange={(e) => updateSettings({ animationFormat: e.target.value as ExportSettings['animationFormat'] })}
+                className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              >
+                <option value="gif">Animated GIF</option>
+                <option value="webp">Animated WebP</option>
+                <option value="still">First frame only ({exportFormat.toUpperCase()})</option>
+              </select>
+              <p className="text-xs text-gray-500">
+                {animation.frames.length} frames, {(getAnimationDuration(animation) / 1000).toFixed(1)}s,{' '}
+                {animation.loopCount === 0 ? 'loops forever' : animation.loopCount === null ? 'plays once' : `repeats ${animation.loopCount}×`}.
+                {exportSettings.animationFormat !== 'still' && ' Every crop keeps the frame timing and loop count; target file size and metadata apply to stills only.'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* File Names */}
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+            <FileText className="h-4 w-4 mr-2" />
+            File Names
+          </h4>
+
+          <div className="space-y-3">
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">Template</label>
+              <input
+                type="text"
+                value={exportSettings.fileNameTemplate}
+                onChange={(e) => updateSettings({ fileNameTemplate: e.target.value })}
+                placeholder="{name}"
+                className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {FILE_NAME_TOKENS.map(({ token, description }) => (
+                <button
+                  key={token}
+                  onClick={() => updateSettings({ fileNameTemplate: exportSettings.fileNameTemplate + token })}
+                  className="px-2 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 rounded text-xs font-mono transition-colors"
+                  title={description}
+                >
+                  {token}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={exportSettings.preserveCase}
+                  onChange={(e) => updateSettings({ preserveCase: e.target.checked })}
+                  className="rounded bg-gray-700 border-gray-600"
+                />
+                <span>Keep letter case</span>
+              </label>
+              <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={exportSettings.preserveUnicode}
+                  onChange={(e) => updateSettings({ preserveUnicode: e.target.checked })}
+                  className="rounded bg-gray-700 border-gray-600"
+                />
+                <span>Keep non-ASCII characters</span>
+              </label>
+            </div>
+
+            {unknownTokens.length > 0 && (
+              <p className="text-xs text-orange-400 flex items-center">
+                <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                Unknown {unknownTokens.length === 1 ? 'token' : 'tokens'}: {unknownTokens.join(', ')}
+              </p>
+            )}
+
+            {/* Live Preview */}
+            {previewNames.length > 0 && (
+              <div className="bg-gray-900 rounded p-2 space-y-1">
+                {previewNames.slice(0, 5).map(({ fileName, collided }, index) => (
+                  <p
+                    key={previewCrops[index].id}
+                    className={`text-xs font-mono truncate ${collided ? 'text-yellow-400' : 'text-gray-300'}`}
+                    title={collided ? 'Renamed to avoid a duplicate name' : fileName}
+                  >
+                    {fileName}
+                  </p>
+                ))}
+                {previewNames.length > 5 && (
+                  <p className="text-xs text-gray-500">…and {previewNames.length - 5} more</p>
+                )}
+                {collisionCount > 0 && (
+                  <p className="text-xs text-yellow-400 pt-1">
+                    {collisionCount} duplicate {collisionCount === 1 ? 'name' : 'names'} will get a numeric suffix
+                  </p>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Metadata */}
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-gray-300 mb-1 flex items-center">
+            <Info className="h-4 w-4 mr-2" />
+            Metadata
+          </h4>
+          <p className="text-xs text-gray-400 mb-3">
+            EXIF, XMP and IPTC fields from the source image to keep in JPEG and WebP exports
+          </p>
+          <MetadataControls
+            metadata={imageMetadata}
+            exportSettings={exportSettings}
+            onExportSettingsChange={onExportSettingsChange}
+          />
+        </div>
+
         {/* Mobile-specific notice */}
         {window.innerWidth < 768 && (
           <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-3">
@@ -268,30 +568,37 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
             </div>
             
             <div className="space-y-2 max-h-64 overflow-y-auto thin-scrollbar">
-              {cropAreas.map((crop) => (
-                <div
-                  key={crop.id}
-                  className="flex items-center space-x-3 p-2 bg-gray-700 hover:bg-gray-600 rounded cursor-pointer transition-colors"
-                  onClick={() => toggleCropSelection(crop.id)}
-                >
-                  {selectedCrops.has(crop.id) ? (
-                    <CheckSquare className="h-4 w-4 text-blue-400 flex-shrink-0" />
-                  ) : (
-                    <Square className="h-4 w-4 text-gray-400 flex-shrink-0" />
-                  )}
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm text-white truncate">{crop.name}</p>
-                    <p className="text-xs text-gray-400">
-                      {Math.round(crop.width)} × {Math.round(crop.height)}
-                      {crop.rotation && crop.rotation !== 0 && (
-                        <span className="ml-2 text-orange-400">
-                          ↻ {Math.round(crop.rotation)}°
-                        </span>
-                      )}
-                    </p>
+              {cropAreas.map((crop) => {
+                const outputSize = getCropOutputSize(crop, exportSettings);
+
+                return (
+                  <div
+                    key={crop.id}
+                    className="flex items-center space-x-3 p-2 bg-gray-700 hover:bg-gray-600 rounded cursor-pointer transition-colors"
+                    onClick={() => toggleCropSelection(crop.id)}
+                  >
+                    {selectedCrops.has(crop.id) ? (
+                      <CheckSquare className="h-4 w-4 text-blue-400 flex-shrink-0" />
+                    ) : (
+                      <Square className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{crop.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {Math.round(crop.width)} × {Math.round(crop.height)}
+                        {(exportSettings.resize.mode !== 'original' || crop.outputSize) && (
+                          <span className="ml-1 text-blue-400">→ {outputSize.width} × {outputSize.height}</span>
+                        )}
+                        {crop.rotation && crop.rotation !== 0 && (
+                          <span className="ml-2 text-orange-400">
+                            ↻ {Math.round(crop.rotation)}°
+                          </span>
+                        )}
+                      </p>
+                    </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </div>
         )}
@@ -305,7 +612,7 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
               disabled={isExporting}
               className="w-full flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg py-3 px-4 text-sm font-medium transition-colors"
             >
-              <Download className="h-4 w-4" />
+              {archive && (selectedCrops.size > 1 || variants.enabled) ? <Archive className="h-4 w-4" /> : <Download className="h-4 w-4" />}
               <span>
                 {isExporting ? 'Exporting...' : `Export Selected (${selectedCrops.size})`}
               </span>
@@ -319,13 +626,29 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
               disabled={isExporting}
               className="w-full flex items-center justify-center space-x-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-600 text-white rounded-lg py-3 px-4 text-sm font-medium transition-colors"
             >
-              <Download className="h-4 w-4" />
+              {archive && (cropAreas.length > 1 || variants.enabled) ? <Archive className="h-4 w-4" /> : <Download className="h-4 w-4" />}
               <span>
                 {isExporting ? 'Exporting...' : `Export All (${cropAreas.length})`}
               </span>
             </button>
           )}
 
+          {/* Export Progress */}
+          {exportProgress && (
+            <div>
+              <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>Rendering crops...</span>
+                <span>{exportProgress.done} / {exportProgress.total}</span>
+              </div>
+              <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{ width: `${(exportProgress.done / exportProgress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           {cropAreas.length === 0 && (
             <div className="text-center py-8">
               <ImageIcon className="h-12 w-12 text-gray-500 mx-auto mb-3" />
@@ -333,6 +656,200 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({
             </div>
           )}
         </div>
+
+        {/* Target Size Results */}
+        {sizeReport && (
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h4 className="text-sm font-semibold text-gray-300 mb-3 flex items-center">
+              <Gauge className="h-4 w-4 mr-2" />
+              Target Size Results
+            </h4>
+            <div className="space-y-1 max-h-48 overflow-y-auto thin-scrollbar">
+              {sizeReport.crops.flatMap(({ variants: cropVariants }) => cropVariants).map(variant => {
+                const overBudget = sizeReport.overBudget.includes(variant.file);
+                return (
+                  <div key={variant.file} className="flex items-center justify-between text-xs">
+                    <span className="text-gray-300 font-mono truncate mr-2" title={variant.file}>{variant.file}</span>
+                    <span className={`flex-shrink-0 ${overBudget ? 'text-orange-400' : 'text-gray-400'}`}>
+                      {variant.quality !== null && `${Math.round(variant.quality * 100)}% · `}
+                      {formatBytes(variant.bytes)} · {variant.width} × {variant.height}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            {sizeReport.overBudget.length > 0 && (
+              <p className="text-xs text-orange-400 mt-2 flex items-center">
+                <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                {sizeReport.overBudget.length} {sizeReport.overBudget.length === 1 ? 'file' : 'files'} could not be brought under {targetSize.kilobytes} KB
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* srcset Markup */}
+        {variantMarkup && (
+          <div className="bg-gray-800 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-semibold text-gray-300 flex items-center">
+                <Code className="h-4 w-4 mr-2" />
+                srcset Markup
+              </h4>
+              <button
+                onClick={copyVariantMarkup}
+                className="flex items-center space-x-1 text-xs text-blue-400 hover:text-blue-300 transition-colors"
+              >
+                {markupCopied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+                <span>{markupCopied ? 'Copied' : 'Copy'}</span>
+              </button>
+            </div>
+            <textarea
+              readOnly
+              value={variantMarkup}
+              rows={6}
+              onFocus={(e) => e.target.select()}
+              className="w-full bg-gray-900 text-gray-300 rounded p-2 text-xs font-mono resize-y focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </div>
+        )}
+
+        {/* Annotations */}
+        {cropAreas.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h4 className="text-sm font-semibold text-gray-300 mb-1 flex items-center">
+              <Tags className="h-4 w-4 mr-2" />
+              Annotations
+            </h4>
+            <p className="text-xs text-gray-400 mb-3">
+              Export crops as labelled boxes for object-detection training
+            </p>
+            <select
+              value={annotationFormat}
+              onChange={(e) => setAnnotationFormat(e.target.value as AnnotationFormat)}
+              className="w-full bg-gray-700 text-white rounded px-3 py-2 text-sm mb-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {ANNOTATION_FORMATS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mb-2">
+              {annotationLabels.length} {annotationLabels.length === 1 ? 'class' : 'classes'}: {annotationLabels.join(', ')}
+              {cropAreas.some(crop => !crop.label?.trim()) && ` (unlabelled crops use "${DEFAULT_LABEL}")`}
+            </p>
+            {annotationWarnings.length > 0 && (
+              <p className="text-xs text-orange-400 mb-2 flex items-start">
+                <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                <span>
+                  This format has no rotated boxes, so {annotationWarnings.length} rotated {annotationWarnings.length === 1 ? 'crop is' : 'crops are'} exported as axis-aligned bounds: {annotationWarnings.join(', ')}
+                </span>
+              </p>
+            )}
+            <button
+              onClick={exportAnnotations}
+              className="w-full flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+            >
+              <Tags className="h-4 w-4" />
+              <span>Export Annotations</span>
+            </button>
+          </div>
+        )}
+
+        {/* Contact Sheet */}
+        {cropAreas.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h4 className="text-sm font-semibold text-gray-300 mb-1 flex items-center">
+              <LayoutGrid className="h-4 w-4 mr-2" />
+              Contact Sheet
+            </h4>
+            <p className="text-xs text-gray-400 mb-3">
+              A printable PDF of every visible crop with its name, size and aspect ratio
+            </p>
+            <ContactSheetControls
+              exportSettings={exportSettings}
+              onExportSettingsChange={onExportSettingsChange}
+              placeholder={imageName || 'Contact sheet'}
+            />
+            <button
+              onClick={exportContactSheet}
+              disabled={!!sheetProgress || visibleCropCount === 0}
+              className="w-full mt-3 flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:text-gray-400 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+            >
+              <FileText className="h-4 w-4" />
+              <span>
+                {sheetProgress ? `Building sheet... ${sheetProgress.done}/${sheetProgress.total}` : 'Download Contact Sheet (PDF)'}
+              </span>
+            </button>
+            {visibleCropCount < cropAreas.length && (
+              <p className="text-xs text-gray-500 mt-2">
+                {cropAreas.length - visibleCropCount} hidden {cropAreas.length - visibleCropCount === 1 ? 'crop is' : 'crops are'} left out
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Texture Atlas */}
+        {cropAreas.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-4">
+            <h4 className="text-sm font-semibold text-gray-300 mb-1 flex items-center">
+              <Boxes className="h-4 w-4 mr-2" />
+              Texture Atlas
+            </h4>
+            <p className="text-xs text-gray-400 mb-3">
+              Pack {selectedCrops.size > 0 ? 'the selected' : 'all'} crops into power-of-two PNG sheets with a TexturePacker JSON atlas and CSS sprites
+            </p>
+            <AtlasControls
+              exportSettings={exportSettings}
+              onExportSettingsChange={onExportSettingsChange}
+            />
+            <button
+              onClick={exportAtlas}
+              disabled={!!atlasProgress}
+              className="w-full mt-3 flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 disabled:text-gray-400 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+            >
+              <Boxes className="h-4 w-4" />
+              <span>
+                {atlasProgress
+                  ? `Rendering sprites... ${atlasProgress.done}/${atlasProgress.total}`
+                  : `Export Atlas (${selectedCrops.size > 0 ? selectedCrops.size : cropAreas.length})`}
+              </span>
+            </button>
+            {atlasSummary && (
+              <p className="text-xs text-gray-500 mt-2 text-center">Last atlas: {atlasSummary}</p>
+            )}
+          </div>
+        )}
+
+        {/* Project File */}
+        <div className="bg-gray-800 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-gray-300 mb-1 flex items-center">
+            <Save className="h-4 w-4 mr-2" />
+            Project File
+          </h4>
+          <p className="text-xs text-gray-400 mb-3">
+            Save all crops and export settings to reopen later
+          </p>
+          <label className="flex items-center space-x-2 text-xs text-gray-300 mb-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={bundleImage}
+              onChange={(e) => setBundleImage(e.target.checked)}
+              className="rounded bg-gray-700 border-gray-600"
+            />
+            <span>Include source image</span>
+          </label>
+          <button
+            onClick={() => onSaveProject(bundleImage)}
+            className="w-full flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            <span>Save Project</span>
+          </button>
+          {autosavedAt && (
+            <p className="text-xs text-gray-500 mt-2 text-center">
+              Autosaved in this browser at {new Date(autosavedAt).toLocaleTimeString()}
+            </p>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef } from 'react';
+import { History, Undo, Redo } from 'lucide-react';
+import { HistoryEntry } from '../hooks/useHistory';
+
+interface HistoryPanelProps {
+  // Only labels and times are shown, whatever state the entries hold
+  past: HistoryEntry<unknown>[];
+  future: HistoryEntry<unknown>[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (position: number) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  past,
+  future,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo
+}) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current step in view as history grows
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [past.length]);
+
+  const entries = [...past, ...future];
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-300 flex items-center">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </h4>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="p-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 text-gray-300 rounded transition-colors"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo className="h-3 w-3" />
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="p-1.5 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700 text-gray-300 rounded transition-colors"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo className="h-3 w-3" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto thin-scrollbar">
+        {/* Position 0 is the state before any recorded change */}
+        <button
+          ref={past.length === 0 ? currentRef : undefined}
+          onClick={() => onJumpTo(0)}
+          className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${
+            past.length === 0 ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          Start
+        </button>
+        {entries.map((entry, index) => {
+          const position = index + 1;
+          const isCurrent = position === past.length;
+          const isUndone = position > past.length;
+
+          return (
+            <button
+              key={entry.id}
+              ref={isCurrent ? currentRef : undefined}
+              onClick={() => onJumpTo(position)}
+              className={`w-full text-left px-2 py-1 rounded text-xs truncate transition-colors ${
+                isCurrent
+                  ? 'bg-blue-600 text-white'
+                  : isUndone
+                    ? 'text-gray-500 italic hover:bg-gray-700'
+                    : 'text-gray-300 hover:bg-gray-700'
+              }`}
+              title={new Date(entry.timestamp).toLocaleTimeString()}
+            >
+              {entry.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
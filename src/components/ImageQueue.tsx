@@ -0,0 +1,211 @@
+import React, { useRef, useState } from 'react';
+import { Download, Layers, Plus, X } from 'lucide-react';
+import { ExportSettings, QueuedImage } from '../App';
+import { buildBatchEntries } from '../utils/cropExport';
+import { isImageFile, loadImageFiles, LoadedImage } from '../utils/imageLoader';
+import { createZip } from '../utils/zip';
+import { downloadBlob } from '../utils/download';
+import { getOrientedSize } from '../utils/orientation';
+import { isVideoFile } from '../utils/videoFrames';
+import { useTiffPagePicker } from '../hooks/useTiffPagePicker';
+import { VideoFrameCapture } from './VideoFrameCapture';
+import { TiffPagePicker } from './TiffPagePicker';
+
+interface ImageQueueProps {
+  queue: QueuedImage[];
+  activeId: string;
+  exportSettings: ExportSettings;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onAdd: (images: LoadedImage[]) => void;
+  onApplyCrops: (ids: string[]) => void; // Copy the active image's crops to these images
+}
+
+const getDisplaySize = (item: QueuedImage) =>
+  getOrientedSize(item.image.naturalWidth, item.image.naturalHeight, item.orientation);
+
+export const ImageQueue: React.FC<ImageQueueProps> = ({
+  queue,
+  activeId,
+  exportSettings,
+  onSelect,
+  onRemove,
+  onAdd,
+  onApplyCrops
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const tiffPagePicker = useTiffPagePicker();
+
+  const totalCrops = queue.reduce((count, item) => count + item.cropAreas.length, 0);
+  const imagesWithCrops = queue.filter(item => item.cropAreas.length > 0).length;
+
+  const activeItem = queue.find(item => item.id === activeId);
+  const activeSize = activeItem && getDisplaySize(activeItem);
+  const sameSizeItems = activeItem && activeSize && activeItem.cropAreas.length > 0
+    ? queue.filter(item => {
+        const size = getDisplaySize(item);
+        return item.id !== activeId && size.width === activeSize.width && size.height === activeSize.height;
+      })
+    : [];
+
+  const handleApplyCrops = () => {
+    const withCrops = sameSizeItems.filter(item => item.cropAreas.length > 0).length;
+    if (withCrops > 0 && !window.confirm(`Replace the crops of ${withCrops} image${withCrops === 1 ? '' : 's'} with this layout?`)) return;
+    onApplyCrops(sameSizeItems.map(item => item.id));
+  };
+
+  const handleAdd = async (files: File[]) => {
+    const video = files.find(isVideoFile);
+    if (video && !files.some(isImageFile)) {
+      setVideoFile(video);
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const { images, failed } = await loadImageFiles(files, warning => window.confirm(warning), tiffPagePicker.pickPages);
+      if (failed.length > 0) alert(`These files could not be opened:\n${failed.join('\n')}`);
+      if (images.length > 0) onAdd(images);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleBatchExport = async () => {
+    if (batchProgress || totalCrops === 0) return;
+
+    setBatchProgress({ done: 0, total: totalCrops });
+    try {
+      const entries = await buildBatchEntries(queue, exportSettings, (done, total) => {
+        setBatchProgress({ done, total });
+      });
+      downloadBlob(createZip(entries), 'batch_crops.zip');
+    } catch (error) {
+      console.error('Batch export failed:', error);
+      alert('Batch export failed. Please try again.');
+    } finally {
+      setBatchProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="bg-gray-900 border-t border-gray-700 p-2 flex items-center space-x-2">
+        <div className="flex-1 flex items-center space-x-2 overflow-x-auto thin-scrollbar">
+          {queue.map((item, index) => {
+            const { rotation, flipped } = item.orientation;
+            return (
+              <div
+                key={item.id}
+                onClick={() => item.id !== activeId && onSelect(item.id)}
+                className={`group relative flex-shrink-0 w-16 h-16 bg-gray-800 rounded overflow-hidden cursor-pointer border-2 transition-colors ${
+                  item.id === activeId ? 'border-blue-500' : 'border-transparent hover:border-gray-500'
+                }`}
+                title={item.name || `Image ${index + 1}`}
+              >
+                <div className="w-full h-full flex items-center justify-center">
+                  <img
+                    src={item.imageUrl}
+                    alt=""
+                    className="max-w-full max-h-full object-contain"
+                    style={{ transform: `rotate(${rotation}deg)${flipped ? ' scaleX(-1)' : ''}` }}
+                  />
+                </div>
+                <span
+                  className={`absolute bottom-0.5 left-0.5 rounded px-1 text-xs leading-tight ${
+                    item.cropAreas.length > 0 ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400'
+                  }`}
+                  title={`${item.cropAreas.length} crop${item.cropAreas.length === 1 ? '' : 's'}`}
+                >
+                  {item.cropAreas.length}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (item.cropAreas.length === 0 || window.confirm(`Remove ${item.name || 'this image'} and its crops?`)) {
+                      onRemove(item.id);
+                    }
+                  }}
+                  className="absolute top-0.5 right-0.5 p-0.5 rounded bg-gray-900 bg-opacity-75 text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove from queue"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isAdding}
+            className="flex-shrink-0 w-16 h-16 flex items-center justify-center rounded border-2 border-dashed border-gray-600 hover:border-gray-400 text-gray-400 hover:text-white disabled:opacity-50 transition-colors"
+            title="Add images"
+          >
+            <Plus className="h-5 w-5" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,.tif,.tiff,video/*"
+            multiple
+            onChange={(e) => {
+              handleAdd(Array.from(e.target.files || []));
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+        </div>
+
+        {sameSizeItems.length > 0 && (
+          <button
+            onClick={handleApplyCrops}
+            className="flex-shrink-0 flex items-center space-x-2 bg-gray-700 hover:bg-gray-600 text-white rounded py-2 px-3 text-sm transition-colors"
+            title={`Copy this image's ${activeItem?.cropAreas.length} crops to the ${sameSizeItems.length} other images of the same size, e.g. frames of one video`}
+          >
+            <Layers className="h-4 w-4" />
+            <span className="hidden md:inline">Use Crops on {sameSizeItems.length} More</span>
+          </button>
+        )}
+
+        {queue.length > 1 && (
+          <button
+            onClick={handleBatchExport}
+            disabled={!!batchProgress || totalCrops === 0}
+            className="flex-shrink-0 flex items-center space-x-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 text-white rounded py-2 px-3 text-sm transition-colors"
+            title={`Export ${totalCrops} crops from ${imagesWithCrops} images, one folder per image`}
+          >
+            <Download className="h-4 w-4" />
+            <span>
+              {batchProgress
+                ? `Exporting... ${batchProgress.done}/${batchProgress.total}`
+                : `Export All (${imagesWithCrops} images)`}
+            </span>
+          </button>
+        )}
+      </div>
+
+      {videoFile && (
+        <VideoFrameCapture
+          file={videoFile}
+          onCapture={(frames) => {
+            setVideoFile(null);
+            if (frames.length > 0) onAdd(frames);
+          }}
+          onCancel={() => setVideoFile(null)}
+        />
+      )}
+
+      {tiffPagePicker.request && (
+        <TiffPagePicker
+          fileName={tiffPagePicker.request.fileName}
+          pages={tiffPagePicker.request.pages}
+          onConfirm={tiffPagePicker.finish}
+          onCancel={() => tiffPagePicker.finish([])}
+        />
+      )}
+    </>
+  );
+};
@@ -1,43 +1,148 @@
 import React, { useRef, useState } from 'react';
-import { Upload, Image as ImageIcon, FileImage, Github, Heart, Coffee } from 'lucide-react';
+import { Upload, Image as ImageIcon, FileImage, FileJson, Film, Github, Heart, Coffee, X } from 'lucide-react';
+import { ProjectFile, parseProjectFile, checkProjectImage, isProjectFileCandidate } from '../utils/projectFile';
+import { isAnnotationFileCandidate, isCocoAnnotationText } from '../utils/annotationImport';
+import { loadSession } from '../utils/sessionStore';
+import { LoadedImage, isImageFile, isTiffFile, loadImageFiles, loadUprightImage, readFileAsDataUrl } from '../utils/imageLoader';
+import { readTransferFiles } from '../utils/clipboard';
+import { isVideoFile } from '../utils/videoFrames';
+import { useImagePaste } from '../hooks/useImagePaste';
+import { useTiffPagePicker } from '../hooks/useTiffPagePicker';
+import { RecentSessions } from './RecentSessions';
+import { VideoFrameCapture } from './VideoFrameCapture';
+import { TiffPagePicker } from './TiffPagePicker';
 
 interface ImageUploaderProps {
-  onImageSelect: (imageUrl: string, image: HTMLImageElement) => void;
+  onImagesSelect: (images: LoadedImage[], annotationFiles?: File[]) => void;
+  onProjectOpen: (
+    project: ProjectFile,
+    image: Omit<LoadedImage, 'fileName'>,
+    options?: { fileName?: string; sessionId?: string }
+  ) => void;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImagesSelect, onProjectOpen }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // A project that was opened without a bundled image waits here for one
+  const [pendingProject, setPendingProject] = useState<ProjectFile | null>(null);
+  // Frames are picked from a video before the editor opens
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const tiffPagePicker = useTiffPagePicker();
 
-  const handleFileSelect = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      alert('Please select a valid image file');
+  const openProject = async (project: ProjectFile, imageUrl: string, fileName?: string, sessionId?: string) => {
+    const { imageUrl: uprightUrl, image: img } = await loadUprightImage(imageUrl);
+    // The hash is of the file as saved, before any turning
+    const warnings = await checkProjectImage(project, imageUrl, img);
+    if (warnings.length > 0 &&
+        !window.confirm(`${warnings.join('\n')}\n\nOpen the project with this image anyway?`)) {
+      return;
+    }
+    setPendingProject(null);
+    onProjectOpen(project, { imageUrl: uprightUrl, sourceUrl: imageUrl, image: img }, { fileName, sessionId });
+  };
+
+  const handleRestoreSession = async (sessionId: string) => {
+    setIsLoading(true);
+    try {
+      const project = await loadSession(sessionId);
+      if (!project?.source.dataUrl) {
+        alert('This session could not be restored');
+        return;
+      }
+      await openProject(project, project.source.dataUrl, undefined, sessionId);
+    } catch (error) {
+      console.error('Failed to restore session:', error);
+      alert('This session could not be restored');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // TIFF pages are converted as when they were first opened, so the
+  // project's image check still matches
+  const readProjectImage = async (file: File) => {
+    if (!isTiffFile(file)) return { imageUrl: await readFileAsDataUrl(file), fileName: file.name };
+    const { images } = await loadImageFiles([file], undefined, tiffPagePicker.pickPages);
+    if (images.length === 0) throw new Error(`${file.name} could not be opened`);
+    return images[0];
+  };
+
+  const handleFiles = async (files: File[]) => {
+    const imageFile = files.find(isImageFile);
+    // COCO annotations are JSON as well; any other JSON is a project
+    const annotationFiles = files.filter(isAnnotationFileCandidate);
+    let projectFile: File | undefined;
+    for (const file of files.filter(isProjectFileCandidate)) {
+      if (isCocoAnnotationText(await file.text())) {
+        annotationFiles.push(file);
+      } else if (!projectFile) {
+        projectFile = file;
+      }
+    }
+
+    const video = files.find(isVideoFile);
+    if (!projectFile && !imageFile && video && !pendingProject) {
+      setVideoFile(video);
+      return;
+    }
+
+    if (!projectFile && !imageFile) {
+      alert(annotationFiles.length > 0
+        ? 'Please select the image together with its annotation file'
+        : 'Please select a valid image or project file');
       return;
     }
 
     setIsLoading(true);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        onImageSelect(e.target?.result as string, img);
-        setIsLoading(false);
-      };
-      img.src = e.target?.result as string;
-    };
-    reader.readAsDataURL(file);
+    try {
+      if (projectFile) {
+        const project = parseProjectFile(await projectFile.text());
+
+        if (imageFile) {
+          const source = await readProjectImage(imageFile);
+          await openProject(project, source.imageUrl, source.fileName);
+        } else if (project.source.dataUrl) {
+          await openProject(project, project.source.dataUrl);
+        } else {
+          setPendingProject(project);
+        }
+      } else if (imageFile) {
+        if (pendingProject) {
+          const source = await readProjectImage(imageFile);
+          await openProject(pendingProject, source.imageUrl, source.fileName);
+        } else {
+          // Several images form a queue worked through one at a time
+          const { images, failed } = await loadImageFiles(files, warning => window.confirm(warning), tiffPagePicker.pickPages);
+          if (failed.length > 0) alert(`These images could not be opened:\n${failed.join('\n')}`);
+          if (images.length > 0) onImagesSelect(images, annotationFiles);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to open file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to open file');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      handleFileSelect(files[0]);
-    }
+    // Images dragged from another page arrive as a link rather than a file
+    readTransferFiles(e.dataTransfer)
+      .then(files => {
+        if (files.length > 0) handleFiles(files);
+      })
+      .catch(error => {
+        console.error('Failed to open dropped link:', error);
+        alert(error instanceof Error ? error.message : 'The dropped image could not be read');
+      });
   };
 
+  useImagePaste(handleFiles, !isLoading);
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -55,8 +160,10 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFiles(Array.from(files));
     }
+    // Allow picking the same file again after a cancelled prompt
+    e.target.value = '';
   };
 
   return (
@@ -92,6 +199,29 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
           </p>
         </div>
 
+        {pendingProject && (
+          <div className="mb-4 flex items-start justify-between bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <FileJson className="h-5 w-5 text-blue-400 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-blue-200">
+                  Project loaded: {pendingProject.cropAreas.length} crop{pendingProject.cropAreas.length === 1 ? '' : 's'}
+                </p>
+                <p className="text-xs text-blue-300 mt-1">
+                  This project doesn't include its image. Select {pendingProject.source.name ? <strong>{pendingProject.source.name}</strong> : 'the original image'} to continue.
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => setPendingProject(null)}
+              className="text-blue-300 hover:text-white p-1 rounded transition-colors"
+              title="Cancel opening project"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
         <div
           className={`relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all duration-300 ${
             isDragging
@@ -106,7 +236,8 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*"
+            accept="image/*,.tif,.tiff,video/*,.json,application/json,.xml,.txt,.csv,.names"
+            multiple
             onChange={handleFileChange}
             className="hidden"
           />
@@ -122,26 +253,56 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect }) =
 
             <div className="space-y-2">
               <h3 className="text-xl font-semibold text-white">
-                {isLoading ? 'Processing...' : 'Drop your image here'}
+                {isLoading ? 'Processing...' : pendingProject ? 'Drop the project image here' : 'Drop your image here'}
               </h3>
               <p className="text-gray-400">
-                {isLoading ? 'Please wait while we load your image' : 'or click to browse files'}
+                {isLoading ? 'Please wait while we load your image' : 'or click to browse files, or paste with Ctrl+V; pick several to crop them as a batch, or a video to capture stills'}
               </p>
             </div>
 
-            <div className="flex items-center space-x-6 text-sm text-gray-500">
+            <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-gray-500">
               <div className="flex items-center space-x-2">
                 <ImageIcon className="h-4 w-4" />
-                <span>JPG, PNG, WebP</span>
+                <span>JPG, PNG, WebP, TIFF</span>
               </div>
               <div className="flex items-center space-x-2">
                 <FileImage className="h-4 w-4" />
                 <span>Up to 10MB</span>
               </div>
+              <div className="flex items-center space-x-2">
+                <Film className="h-4 w-4" />
+                <span>Video frames</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <FileJson className="h-4 w-4" />
+                <span>Projects & annotations</span>
+              </div>
             </div>
           </div>
         </div>
 
+        <RecentSessions onRestore={handleRestoreSession} disabled={isLoading} />
+
+        {videoFile && (
+          <VideoFrameCapture
+            file={videoFile}
+            onCapture={(frames) => {
+              setVideoFile(null);
+              onImagesSelect(frames);
+            }}
+            onCancel={() => setVideoFile(null)}
+          />
+        )}
+
+        {tiffPagePicker.request && (
+          <TiffPagePicker
+            fileName={tiffPagePicker.request.fileName}
+            pages={tiffPagePicker.request.pages}
+            onConfirm={tiffPagePicker.finish}
+            onCancel={() => tiffPagePicker.finish([])}
+          />
+        )}
+
         <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
           <div className="bg-gray-800 p-4 rounded-lg">
             <h4 className="font-semibold text-white mb-2">Multiple Crops</h4>
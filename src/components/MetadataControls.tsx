@@ -0,0 +1,119 @@
+import React from 'react';
+import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import { ExportSettings, MetadataField, MetadataSettings } from '../App';
+import { ImageMetadata, METADATA_FIELDS } from '../utils/metadata';
+
+interface MetadataControlsProps {
+  metadata: ImageMetadata | null;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const setAll = (keep: boolean) =>
+  Object.fromEntries(METADATA_FIELDS.map(({ field }) => [field, keep])) as Record<MetadataField, boolean>;
+
+export const MetadataControls: React.FC<MetadataControlsProps> = ({
+  metadata,
+  exportSettings,
+  onExportSettingsChange
+}) => {
+  const { metadata: settings, format } = exportSettings;
+  const entries = metadata?.entries ?? [];
+  const hasLocation = entries.some(entry => entry.field === 'location');
+
+  const updateMetadata = (updates: Partial<MetadataSettings>) => {
+    onExportSettingsChange({ ...exportSettings, metadata: { ...settings, ...updates } });
+  };
+
+  const sourceValue = (label: string) => entries.find(entry => entry.label === label)?.value ?? '';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => updateMetadata({ keep: setAll(true) })}
+          className="bg-gray-700 hover:bg-gray-600 text-white rounded py-1.5 px-3 text-xs transition-colors"
+        >
+          Keep All
+        </button>
+        <button
+          onClick={() => updateMetadata({ keep: setAll(false), artist: '', copyright: '' })}
+          className="flex items-center justify-center space-x-1 bg-gray-700 hover:bg-gray-600 text-white rounded py-1.5 px-3 text-xs transition-colors"
+          title="Strip every field, including GPS, and clear the overrides"
+        >
+          <ShieldCheck className="h-3 w-3" />
+          <span>Anonymize</span>
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {METADATA_FIELDS.map(({ field, label }) => {
+          const fieldEntries = entries.filter(entry => entry.field === field);
+          return (
+            <div key={field}>
+              <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.keep[field]}
+                  onChange={(e) => updateMetadata({ keep: { ...settings.keep, [field]: e.target.checked } })}
+                  className="rounded bg-gray-700 border-gray-600"
+                />
+                <span>{label}</span>
+                {fieldEntries.length === 0 && <span className="text-gray-500">(none in source)</span>}
+              </label>
+              {fieldEntries.length > 0 && (
+                <dl className={`ml-6 mt-1 text-xs space-y-0.5 ${settings.keep[field] ? 'text-gray-400' : 'text-gray-600 line-through'}`}>
+                  {fieldEntries.map((entry, index) => (
+                    <div key={`${entry.label}-${index}`} className="flex justify-between space-x-2">
+                      <dt className="flex-shrink-0">{entry.label}</dt>
+                      <dd className="truncate text-right" title={`${entry.value} (${entry.source})`}>{entry.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Artist</label>
+          <input
+            type="text"
+            value={settings.artist}
+            onChange={(e) => updateMetadata({ artist: e.target.value })}
+            placeholder={sourceValue('Artist') || sourceValue('Creator') || 'From source'}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-400 mb-1">Copyright</label>
+          <input
+            type="text"
+            value={settings.copyright}
+            onChange={(e) => updateMetadata({ copyright: e.target.value })}
+            placeholder={sourceValue('Copyright') || sourceValue('Rights') || 'From source'}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      {entries.length === 0 && (
+        <p className="text-xs text-gray-500">No EXIF, XMP or IPTC metadata found in the source image</p>
+      )}
+      {format === 'png' ? (
+        <p className="text-xs text-gray-500">PNG exports never carry metadata; choose JPEG or WebP to keep it</p>
+      ) : (
+        settings.keep.location && hasLocation && (
+          <p className="text-xs text-orange-400 flex items-start">
+            <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+            <span>Exports will reveal where the photo was taken</span>
+          </p>
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ExportSettings, ResizeSettings, ResamplingMethod } from '../App';
+
+interface OutputSizeControlsProps {
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+export const OutputSizeControls: React.FC<OutputSizeControlsProps> = ({
+  exportSettings,
+  onExportSettingsChange
+}) => {
+  const { resize, resampling, sharpen } = exportSettings;
+
+  const updateResize = (updates: Partial<ResizeSettings>) => {
+    onExportSettingsChange({ ...exportSettings, resize: { ...resize, ...updates } });
+  };
+
+  const parseSize = (value: string) => Math.max(0, Math.round(Number(value) || 0));
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs text-gray-400 mb-2">Output Size</label>
+        <select
+          value={resize.mode}
+          onChange={(e) => updateResize({ mode: e.target.value as ResizeSettings['mode'] })}
+          className={inputClassName}
+        >
+          <option value="original">Original pixels</option>
+          <option value="exact">Exact width × height</option>
+          <option value="fit">Fit within maximum size</option>
+          <option value="scale">Scale percentage</option>
+          <option value="longest-edge">Longest edge</option>
+        </select>
+      </div>
+
+      {(resize.mode === 'exact' || resize.mode === 'fit') && (
+        <div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              min="0"
+              value={resize.width || ''}
+              onChange={(e) => updateResize({ width: parseSize(e.target.value) })}
+              placeholder="Width"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min="0"
+              value={resize.height || ''}
+              onChange={(e) => updateResize({ height: parseSize(e.target.value) })}
+              placeholder="Height"
+              className={inputClassName}
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {resize.mode === 'exact'
+              ? 'Leave one side empty to keep the aspect ratio'
+              : 'Crops are only ever scaled down'}
+          </p>
+        </div>
+      )}
+
+      {resize.mode === 'scale' && (
+        <div>
+          <label className="block text-xs text-gray-400 mb-2">Scale: {resize.scale}%</label>
+          <input
+            type="range"
+            min="5"
+            max="400"
+            step="5"
+            value={resize.scale}
+            onChange={(e) => updateResize({ scale: parseInt(e.target.value, 10) })}
+            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+
+      {resize.mode === 'longest-edge' && (
+        <input
+          type="number"
+          min="1"
+          value={resize.longestEdge || ''}
+          onChange={(e) => updateResize({ longestEdge: parseSize(e.target.value) })}
+          placeholder="Pixels"
+          className={inputClassName}
+        />
+      )}
+
+      {resize.mode !== 'original' && (
+        <>
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Resampling</label>
+            <select
+              value={resampling}
+              onChange={(e) => onExportSettingsChange({ ...exportSettings, resampling: e.target.value as ResamplingMethod })}
+              className={inputClassName}
+            >
+              <option value="lanczos">Lanczos (sharpest)</option>
+              <option value="bicubic">Bicubic</option>
+              <option value="stepped">Multi-step (fast)</option>
+              <option value="browser">Browser default</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">
+              Sharpen: {sharpen > 0 ? `${Math.round(sharpen * 100)}%` : 'Off'}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={sharpen}
+              onChange={(e) => onExportSettingsChange({ ...exportSettings, sharpen: parseFloat(e.target.value) })}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
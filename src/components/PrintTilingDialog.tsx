@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Printer, X, AlertTriangle, FileText, Archive } from 'lucide-react';
+import { CropArea, ExportSettings, PaperSize, PrintTilingSettings } from '../App';
+import { PAGE_SIZES } from '../utils/pdf';
+import { clampRegion } from '../utils/carousel';
+import { PrintTileLayout, buildPrintTileImages, buildPrintTilePdf, getPrintTileLayout } from '../utils/printTiling';
+import { createZip } from '../utils/zip';
+import { downloadBlob } from '../utils/download';
+import { getSourceBaseName } from '../utils/videoFrames';
+
+interface PrintTilingDialogProps {
+  image: HTMLImageElement;
+  imageName: string | null;
+  selectedCrop: CropArea | null;
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+  onCreateCrops: (layout: PrintTileLayout) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const PREVIEW_WIDTH = 420;
+const PREVIEW_HEIGHT = 220;
+const DPI_PRESETS = [72, 100, 150, 200, 300];
+
+export const PrintTilingDialog: React.FC<PrintTilingDialogProps> = ({
+  image,
+  imageName,
+  selectedCrop,
+  exportSettings,
+  onExportSettingsChange,
+  onCreateCrops,
+  onCancel
+}) => {
+  const { printTiling } = exportSettings;
+  // A rotated crop has no upright region to tile
+  const canUseSelection = !!selectedCrop && !selectedCrop.rotation;
+  const [useSelection, setUseSelection] = useState(canUseSelection);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+
+  const { naturalWidth: imageWidth, naturalHeight: imageHeight } = image;
+  const source = useSelection ? selectedCrop : null;
+  const layout = useMemo(() => {
+    const region = clampRegion(
+      source || { x: 0, y: 0, width: imageWidth, height: imageHeight },
+      imageWidth,
+      imageHeight
+    );
+    return getPrintTileLayout(region, printTiling);
+  }, [source, imageWidth, imageHeight, printTiling]);
+
+  const updateTiling = (updates: Partial<PrintTilingSettings>) => {
+    onExportSettingsChange({ ...exportSettings, printTiling: { ...printTiling, ...updates } });
+  };
+
+  // The region with every tile outlined and its overlaps shaded
+  useEffect(() => {
+    const canvas = previewCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !layout) return;
+
+    const first = layout.tiles[0];
+    const last = layout.tiles[layout.tiles.length - 1];
+    const regionWidth = last.x + last.width - first.x;
+    const regionHeight = last.y + last.height - first.y;
+    const scale = Math.min(PREVIEW_WIDTH / regionWidth, PREVIEW_HEIGHT / regionHeight);
+    canvas.width = Math.max(1, Math.round(regionWidth * scale));
+    canvas.height = Math.max(1, Math.round(regionHeight * scale));
+    ctx.drawImage(image, first.x, first.y, regionWidth, regionHeight, 0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.25)';
+    layout.tiles.forEach(tile => {
+      const left = (tile.x - first.x) * scale;
+      const top = (tile.y - first.y) * scale;
+      if (tile.col > 0) ctx.fillRect(left, top, layout.overlap * scale, tile.height * scale);
+      if (tile.row > 0) ctx.fillRect(left, top, tile.width * scale, layout.overlap * scale);
+    });
+
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1;
+    ctx.font = 'bold 11px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    layout.tiles.forEach(tile => {
+      const left = (tile.x - first.x) * scale;
+      const top = (tile.y - first.y) * scale;
+      ctx.strokeRect(left + 0.5, top + 0.5, tile.width * scale - 1, tile.height * scale - 1);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(left + (tile.width * scale) / 2 - 12, top + (tile.height * scale) / 2 - 8, 24, 16);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(tile.label, left + (tile.width * scale) / 2, top + (tile.height * scale) / 2);
+    });
+  }, [image, layout]);
+
+  const runExport = async (output: 'pdf' | 'images') => {
+    if (!layout || progress) return;
+
+    const baseName = (getSourceBaseName(imageName) || 'poster').replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    setProgress({ done: 0, total: layout.tiles.length });
+    try {
+      const onProgress = (done: number, total: number) => setProgress({ done, total });
+      if (output === 'pdf') {
+        const pdf = await buildPrintTilePdf(image, layout, imageName || 'Poster', onProgress);
+        downloadBlob(pdf, `${baseName}_poster_tiles.pdf`);
+      } else {
+        const entries = await buildPrintTileImages(image, layout, exportSettings, baseName, onProgress);
+        downloadBlob(createZip(entries), `${baseName}_poster_tiles.zip`);
+      }
+    } catch (error) {
+      console.error('Print tiling export failed:', error);
+      alert(`Print tiling export failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-white flex items-center">
+              <Printer className="h-5 w-5 mr-2" />
+              Print Poster Tiles
+            </h3>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto modal-scrollbar">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Paper</label>
+                <select
+                  value={printTiling.paper}
+                  onChange={(e) => updateTiling({ paper: e.target.value as PaperSize })}
+                  className={inputClassName}
+                >
+                  {(Object.keys(PAGE_SIZES) as PaperSize[]).map(size => (
+                    <option key={size} value={size}>{PAGE_SIZES[size].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Orientation</label>
+                <select
+                  value={printTiling.orientation}
+                  onChange={(e) => updateTiling({ orientation: e.target.value as PrintTilingSettings['orientation'] })}
+                  className={inputClassName}
+                >
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">DPI</label>
+                <input
+                  type="number"
+                  min="10"
+                  max="1200"
+                  list="print-dpi-presets"
+                  value={printTiling.dpi}
+                  onChange={(e) => updateTiling({ dpi: Math.max(10, Math.min(1200, parseInt(e.target.value) || 150)) })}
+                  className={inputClassName}
+                />
+                <datalist id="print-dpi-presets">
+                  {DPI_PRESETS.map(dpi => <option key={dpi} value={dpi} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Overlap (mm)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="50"
+                  value={printTiling.overlap}
+                  onChange={(e) => updateTiling({ overlap: Math.max(0, Math.min(50, parseFloat(e.target.value) || 0)) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Margin (mm)</label>
+                <input
+                  type="number"
+                  min="5"
+                  max="30"
+                  value={printTiling.margin}
+                  onChange={(e) => updateTiling({ margin: Math.max(5, Math.min(30, parseFloat(e.target.value) || 5)) })}
+                  className={inputClassName}
+                  title="Unprinted border holding the trim and registration marks; keep it at least as wide as your printer's"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={!useSelection}
+                  onChange={() => setUseSelection(false)}
+                  className="bg-gray-700 border-gray-600"
+                />
+                <span>Tile the whole image</span>
+              </label>
+              <label className={`flex items-center space-x-2 text-sm cursor-pointer ${canUseSelection ? 'text-gray-300' : 'text-gray-500'}`}>
+                <input
+                  type="radio"
+                  checked={useSelection}
+                  onChange={() => setUseSelection(true)}
+                  disabled={!canUseSelection}
+                  className="bg-gray-700 border-gray-600"
+                />
+                <span>
+                  Tile the selected crop{selectedCrop ? ` (${selectedCrop.name})` : ''}
+                  {selectedCrop && !canUseSelection && ' - not available for rotated crops'}
+                </span>
+              </label>
+            </div>
+
+            {layout ? (
+              <div>
+                <p className="text-xs text-gray-400 mb-2">
+                  {layout.posterWidth}×{layout.posterHeight} mm poster on {layout.tiles.length} {PAGE_SIZES[printTiling.paper].label} {layout.tiles.length === 1 ? 'page' : 'pages'} ({layout.cols} × {layout.rows}), {layout.tileWidth}×{layout.tileHeight} px per page
+                </p>
+                <div className="bg-gray-900 rounded p-2 flex justify-center">
+                  <canvas ref={previewCanvasRef} className="max-w-full" />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">
+                  Shaded bands repeat on the neighbouring page. Trim along the dashed line and line up the registration targets.
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-orange-400 flex items-center">
+                <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                The overlap and margins leave no room on the page
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3 mt-6">
+            <button
+              onClick={() => runExport('pdf')}
+              disabled={!layout || !!progress}
+              className="flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+            >
+              <FileText className="h-4 w-4" />
+              <span>{progress ? `Page ${progress.done}/${progress.total}` : 'Download PDF'}</span>
+            </button>
+            <button
+              onClick={() => runExport('images')}
+              disabled={!layout || !!progress}
+              className="flex items-center justify-center space-x-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+              title={`One ${exportSettings.format.toUpperCase()} page image per tile, in a ZIP`}
+            >
+              <Archive className="h-4 w-4" />
+              <span>Download Images</span>
+            </button>
+            <button
+              onClick={onCancel}
+              className="bg-gray-600 hover:bg-gray-500 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => layout && onCreateCrops(layout)}
+              disabled={!layout || !!progress}
+              className="bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white rounded-lg py-2 px-4 text-sm transition-colors"
+              title="Add the tiles to the editor as a linked grid of crops"
+            >
+              Add as Crops
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { History, RotateCcw, Trash2, Lock } from 'lucide-react';
+import { SessionRecord, listSessions, deleteSession } from '../utils/sessionStore';
+
+interface RecentSessionsProps {
+  onRestore: (sessionId: string) => void;
+  disabled?: boolean;
+}
+
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? `Today, ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+    : date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export const RecentSessions: React.FC<RecentSessionsProps> = ({ onRestore, disabled = false }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(error => console.warn('Could not read saved sessions:', error));
+  }, []);
+
+  const handleDelete = async (sessionId: string) => {
+    try {
+      await deleteSession(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  const [lastSession] = sessions;
+
+  return (
+    <div className="mt-8 space-y-4">
+      {/* Crash recovery */}
+      <button
+        onClick={() => onRestore(lastSession.id)}
+        disabled={disabled}
+        className="w-full flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg py-3 px-4 font-medium transition-colors"
+      >
+        <RotateCcw className="h-4 w-4" />
+        <span>Restore last session</span>
+        <span className="text-blue-200 text-sm font-normal truncate">
+          ({lastSession.name || 'Untitled'} • {formatTimestamp(lastSession.updatedAt)})
+        </span>
+      </button>
+
+      {/* Recent projects */}
+      <div className="bg-gray-800 rounded-lg p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-semibold text-gray-300 flex items-center">
+            <History className="h-4 w-4 mr-2" />
+            Recent Projects
+          </h4>
+          <span className="flex items-center space-x-1 text-xs text-gray-500">
+            <Lock className="h-3 w-3" />
+            <span>Stored only in this browser</span>
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 max-h-80 overflow-y-auto thin-scrollbar">
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className="group relative bg-gray-700 hover:bg-gray-600 rounded-lg overflow-hidden cursor-pointer transition-colors"
+              onClick={() => !disabled && onRestore(session.id)}
+              title={`Open ${session.name || 'Untitled'}`}
+            >
+              <div className="aspect-video bg-gray-900 flex items-center justify-center">
+                {session.thumbnail && (
+                  <img src={session.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                )}
+              </div>
+              <div className="p-2">
+                <p className="text-xs font-medium text-white truncate">{session.name || 'Untitled'}</p>
+                <p className="text-xs text-gray-400">
+                  {session.cropCount} crop{session.cropCount === 1 ? '' : 's'} • {formatTimestamp(session.updatedAt)}
+                </p>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(session.id);
+                }}
+                className="absolute top-1 right-1 p-1 bg-black/60 hover:bg-red-600 text-white rounded sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
+                title="Delete from this browser"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
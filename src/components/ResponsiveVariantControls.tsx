@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { ExportSettings, VariantSettings } from '../App';
+
+interface ResponsiveVariantControlsProps {
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const parseNumberList = (text: string): number[] => {
+  return text
+    .split(/[\s,]+/)
+    .map(item => parseFloat(item.replace(/[xw]$/i, '')))
+    .filter(value => Number.isFinite(value) && value > 0);
+};
+
+export const ResponsiveVariantControls: React.FC<ResponsiveVariantControlsProps> = ({
+  exportSettings,
+  onExportSettingsChange
+}) => {
+  const { variants } = exportSettings;
+  const listKey = variants.mode === 'density' ? 'densities' : 'widths';
+  const [listText, setListText] = useState(variants[listKey].join(', '));
+
+  // Show the stored list again whenever the mode changes or it is normalized on commit
+  useEffect(() => {
+    setListText(variants[listKey].join(', '));
+  }, [variants, listKey]);
+
+  const updateVariants = (updates: Partial<VariantSettings>) => {
+    onExportSettingsChange({ ...exportSettings, variants: { ...variants, ...updates } });
+  };
+
+  const commitList = () => {
+    const values = parseNumberList(listText);
+    if (values.length > 0) {
+      updateVariants({ [listKey]: values });
+    } else {
+      setListText(variants[listKey].join(', '));
+    }
+  };
+
+  return (
+    <div>
+      <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={variants.enabled}
+          onChange={(e) => updateVariants({ enabled: e.target.checked })}
+          className="rounded bg-gray-700 border-gray-600"
+        />
+        <span>Export several sizes of each crop</span>
+      </label>
+
+      {variants.enabled && (
+        <div className="space-y-3 mt-3 pl-6">
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Sizes</label>
+            <select
+              value={variants.mode}
+              onChange={(e) => updateVariants({ mode: e.target.value as VariantSettings['mode'] })}
+              className={inputClassName}
+            >
+              <option value="density">Pixel densities (1x, 2x, ...)</option>
+              <option value="widths">Fixed widths (320w, 640w, ...)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">
+              {variants.mode === 'density' ? 'Densities' : 'Widths in pixels'}
+            </label>
+            <input
+              type="text"
+              value={listText}
+              onChange={(e) => setListText(e.target.value)}
+              onBlur={commitList}
+              onKeyDown={(e) => e.key === 'Enter' && commitList()}
+              className={`${inputClassName} font-mono`}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {variants.mode === 'density'
+                ? '1x is the output size set above'
+                : 'Widths larger than a crop are skipped'}
+            </p>
+          </div>
+
+          {variants.mode === 'widths' && (
+            <div>
+              <label className="block text-xs text-gray-400 mb-2">sizes attribute</label>
+              <input
+                type="text"
+                value={variants.sizes}
+                onChange={(e) => updateVariants({ sizes: e.target.value })}
+                placeholder="100vw"
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs text-gray-400 mb-2">Markup</label>
+            <select
+              value={variants.markup}
+              onChange={(e) => updateVariants({ markup: e.target.value as VariantSettings['markup'] })}
+              className={inputClassName}
+            >
+              <option value="img">&lt;img srcset&gt;</option>
+              <option value="picture">&lt;picture&gt;</option>
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
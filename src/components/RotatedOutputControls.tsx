@@ -0,0 +1,38 @@
+import React from 'react';
+import { ExportSettings, RotatedOutputMode } from '../App';
+
+interface RotatedOutputControlsProps {
+  exportSettings: ExportSettings;
+  onExportSettingsChange: (settings: ExportSettings) => void;
+}
+
+const inputClassName = 'w-full bg-gray-700 text-white rounded px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const MODE_DESCRIPTIONS: Record<RotatedOutputMode, string> = {
+  straighten: 'Turns the rotated outline into an upright image',
+  'bounding-box': 'Keeps the image upright, filling around the outline',
+  inset: 'Largest upright rectangle inside the outline, no empty corners'
+};
+
+export const RotatedOutputControls: React.FC<RotatedOutputControlsProps> = ({
+  exportSettings,
+  onExportSettingsChange
+}) => {
+  const { rotatedOutput } = exportSettings;
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-400 mb-2">Rotated Crops</label>
+      <select
+        value={rotatedOutput}
+        onChange={(e) => onExportSettingsChange({ ...exportSettings, rotatedOutput: e.target.value as RotatedOutputMode })}
+        className={inputClassName}
+      >
+        <option value="straighten">Straighten</option>
+        <option value="bounding-box">Bounding box</option>
+        <option value="inset">Inset (crop corners)</option>
+      </select>
+      <p className="text-xs text-gray-500 mt-1">{MODE_DESCRIPTIONS[rotatedOutput]}</p>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Files, X, AlertTriangle } from 'lucide-react';
+import { TiffPage } from '../utils/tiff';
+
+interface TiffPagePickerProps {
+  fileName: string;
+  pages: TiffPage[];
+  onConfirm: (indexes: number[]) => void;
+  onCancel: () => void;
+}
+
+export const TiffPagePicker: React.FC<TiffPagePickerProps> = ({ fileName, pages, onConfirm, onCancel }) => {
+  const readable = pages.filter(page => !page.problem);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(readable.map(page => page.index)));
+
+  const togglePage = (index: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-md">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-white flex items-center min-w-0">
+              <Files className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span className="truncate">Pages of {fileName}</span>
+            </h3>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+            <span>{pages.length} pages; each one opens as its own image</span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setSelected(new Set(readable.map(page => page.index)))}
+                className="text-blue-400 hover:text-blue-300"
+              >
+                All
+              </button>
+              <button
+                onClick={() => setSelected(new Set())}
+                className="text-blue-400 hover:text-blue-300"
+              >
+                None
+              </button>
+            </div>
+          </div>
+
+          <ul className="bg-gray-900 rounded p-2 max-h-80 overflow-y-auto thin-scrollbar space-y-1">
+            {pages.map(page => (
+              <li key={page.index}>
+                <label
+                  className={`flex items-start space-x-2 rounded px-2 py-1.5 text-sm ${
+                    page.problem ? 'text-gray-500' : 'text-gray-300 hover:bg-gray-800 cursor-pointer'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(page.index)}
+                    disabled={!!page.problem}
+                    onChange={() => togglePage(page.index)}
+                    className="mt-0.5 rounded bg-gray-700 border-gray-600"
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="flex justify-between">
+                      <span>Page {page.index + 1}</span>
+                      <span className="font-mono text-xs text-gray-400">{page.width} × {page.height}</span>
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {page.bitsPerSample}-bit {page.colorMode}, {page.compression}
+                    </span>
+                    {page.problem && (
+                      <span className="flex items-center text-xs text-orange-400">
+                        <AlertTriangle className="h-3 w-3 mr-1 flex-shrink-0" />
+                        {page.problem}
+                      </span>
+                    )}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(pages.map(page => page.index).filter(index => selected.has(index)))}
+              disabled={selected.size === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              {selected.size === 1 ? 'Open Page' : `Open ${selected.size} Pages`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
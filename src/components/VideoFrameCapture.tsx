@@ -0,0 +1,239 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, ChevronLeft, ChevronRight, Film, Pause, Play, X } from 'lucide-react';
+import { LoadedImage } from '../utils/imageLoader';
+import { FRAME_RATES, captureVideoFrame, formatTimecode, parseFrameName, seekVideo } from '../utils/videoFrames';
+
+interface VideoFrameCaptureProps {
+  file: File;
+  onCapture: (frames: LoadedImage[]) => void;
+  onCancel: () => void;
+}
+
+export const VideoFrameCapture: React.FC<VideoFrameCaptureProps> = ({ file, onCapture, onCancel }) => {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [frameRate, setFrameRate] = useState(30);
+  const [frames, setFrames] = useState<LoadedImage[]>([]);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Created and revoked by the same effect, so StrictMode's extra mount
+  // never revokes the URL the video is still loading
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Frame stepping keys work without clicking into the dialog first
+  useEffect(() => {
+    dialogRef.current?.focus();
+  }, []);
+
+  const seek = async (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    try {
+      await seekVideo(video, Math.max(0, Math.min(duration, time)));
+    } catch (seekError) {
+      console.error('Failed to seek video:', seekError);
+    }
+  };
+
+  const stepFrame = (direction: number) => {
+    // Land mid-frame so rounding never shows the neighbouring frame
+    const frame = Math.floor(currentTime * frameRate) + direction;
+    seek((frame + 0.5) / frameRate);
+  };
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch(playError => console.error('Failed to play video:', playError));
+    } else {
+      video.pause();
+    }
+  };
+
+  const captureFrame = async () => {
+    const video = videoRef.current;
+    if (!video || isCapturing) return;
+    video.pause();
+    setIsCapturing(true);
+    try {
+      const frame = await captureVideoFrame(video, file.name);
+      setFrames(captured => [...captured, frame]);
+    } catch (captureError) {
+      console.error('Failed to capture frame:', captureError);
+      alert(captureError instanceof Error ? captureError.message : 'The frame could not be captured');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The slider and selects handle their own keys, and buttons their own clicks
+    if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+    if (e.target instanceof HTMLButtonElement && (e.key === 'Enter' || e.key === ' ')) return;
+    if (e.key === 'ArrowLeft' || e.key === ',') {
+      e.preventDefault();
+      stepFrame(-1);
+    } else if (e.key === 'ArrowRight' || e.key === '.') {
+      e.preventDefault();
+      stepFrame(1);
+    } else if (e.key === ' ') {
+      e.preventDefault();
+      togglePlayback();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      captureFrame();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      ref={dialogRef}
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 outline-none"
+      onKeyDown={handleKeyDown}
+      tabIndex={-1}
+    >
+      <div className="bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-white flex items-center min-w-0">
+              <Film className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span className="truncate">Capture frames from {file.name}</span>
+            </h3>
+            <button
+              onClick={onCancel}
+              className="text-gray-400 hover:text-white transition-colors"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <video
+            ref={videoRef}
+            src={videoUrl ?? undefined}
+            muted
+            playsInline
+            preload="auto"
+            className="w-full max-h-[50vh] bg-black rounded-lg"
+            onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onError={() => setError('This video format cannot be played by your browser. Try MP4 (H.264) or WebM.')}
+          />
+
+          {error ? (
+            <p className="text-sm text-red-400 mt-3">{error}</p>
+          ) : (
+            <div className="mt-3 space-y-3">
+              <input
+                type="range"
+                min={0}
+                max={duration || 0}
+                step={1 / frameRate}
+                value={currentTime}
+                onChange={(e) => seek(Number(e.target.value))}
+                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => stepFrame(-1)}
+                  className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+                  title="Previous frame (← or ,)"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={togglePlayback}
+                  className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+                  title={isPlaying ? 'Pause (Space)' : 'Play (Space)'}
+                >
+                  {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </button>
+                <button
+                  onClick={() => stepFrame(1)}
+                  className="p-2 bg-gray-700 hover:bg-gray-600 text-white rounded transition-colors"
+                  title="Next frame (→ or .)"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+                <span className="font-mono text-sm text-gray-300 px-2">
+                  {formatTimecode(currentTime)} / {formatTimecode(duration || 0)}
+                </span>
+                <select
+                  value={frameRate}
+                  onChange={(e) => setFrameRate(Number(e.target.value))}
+                  className="bg-gray-700 text-white rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  title="Frame rate used for stepping"
+                >
+                  {FRAME_RATES.map(rate => (
+                    <option key={rate} value={rate}>{rate} fps</option>
+                  ))}
+                </select>
+                <button
+                  onClick={captureFrame}
+                  disabled={isCapturing || !duration}
+                  className="ml-auto flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded py-2 px-3 text-sm transition-colors"
+                  title="Capture this frame (Enter)"
+                >
+                  <Camera className="h-4 w-4" />
+                  <span>Capture Frame</span>
+                </button>
+              </div>
+            </div>
+          )}
+
+          {frames.length > 0 && (
+            <div className="mt-4 flex items-center space-x-2 overflow-x-auto thin-scrollbar pb-1">
+              {frames.map((frame, index) => (
+                <div key={frame.imageUrl} className="group relative flex-shrink-0">
+                  <img src={frame.imageUrl} alt="" className="h-16 rounded bg-black" />
+                  <span className="absolute bottom-0.5 left-0.5 rounded px-1 text-xs leading-tight bg-gray-900 bg-opacity-75 text-gray-200 font-mono">
+                    {formatTimecode(parseFrameName(frame.fileName)?.time ?? 0)}
+                  </span>
+                  <button
+                    onClick={() => setFrames(captured => captured.filter((_, i) => i !== index))}
+                    className="absolute top-0.5 right-0.5 p-0.5 rounded bg-gray-900 bg-opacity-75 text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Remove frame"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={onCancel}
+              className="flex-1 bg-gray-600 hover:bg-gray-500 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onCapture(frames)}
+              disabled={frames.length === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg py-2 px-4 transition-colors"
+            >
+              {frames.length > 1 ? `Crop ${frames.length} Frames` : 'Crop Frame'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Pause, Play } from 'lucide-react';
 import { CropArea } from '../App';
 import { CropContextMenu } from './CropContextMenu';
+import { PyramidLevel, buildImagePyramid, closeImagePyramid, isLargeImage, pickPyramidLevel } from '../utils/imagePyramid';
+import { AnimatedImage } from '../utils/animation';
 
 interface ViewportAwareCropCanvasProps {
   imageUrl: string;
@@ -21,6 +24,10 @@ interface ViewportAwareCropCanvasProps {
   onCropRename: (cropId: string) => void;
   onUnlinkFromGrid: (cropId: string) => void;
   onCropExport: (cropId: string) => void;
+  onCropCopyImage?: (cropId: string) => void;
+  animation?: AnimatedImage | null; // Frames of an animated GIF, shown with a scrubber
+  onGestureStart: (label?: string) => void;
+  onGestureEnd: () => void;
 }
 
 interface ImageBounds {
@@ -48,7 +55,11 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
   onCropCopy,
   onCropRename,
   onUnlinkFromGrid,
-  onCropExport
+  onCropExport,
+  onCropCopyImage,
+  animation,
+  onGestureStart,
+  onGestureEnd
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -64,6 +75,10 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
   const [newCropEnd, setNewCropEnd] = useState({ x: 0, y: 0 });
   const [lastClickTime, setLastClickTime] = useState(0);
   const [lastClickedCrop, setLastClickedCrop] = useState<string | null>(null);
+  // Downscaled copies of a large image for drawing on screen
+  const [pyramid, setPyramid] = useState<PyramidLevel[]>([]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
 
   // Touch handling states
   const [isTouching, setIsTouching] = useState(false);
@@ -144,6 +159,40 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
            canvasY <= imageBounds.y + imageBounds.height;
   }, [getImageBounds]);
 
+  useEffect(() => {
+    if (!originalImage || !isLargeImage(originalImage.naturalWidth, originalImage.naturalHeight)) return;
+
+    let cancelled = false;
+    let levels: PyramidLevel[] = [];
+    buildImagePyramid(originalImage)
+      .then(built => {
+        levels = built;
+        if (cancelled) closeImagePyramid(built);
+        else setPyramid(built);
+      })
+      .catch(error => console.warn('Could not build the display copies; drawing the full image:', error));
+
+    return () => {
+      cancelled = true;
+      closeImagePyramid(levels);
+      setPyramid([]);
+    };
+  }, [originalImage]);
+
+  useEffect(() => {
+    setFrameIndex(0);
+    setIsPlaying(false);
+  }, [animation]);
+
+  // Each frame stays up for its own delay, as in the source GIF
+  useEffect(() => {
+    if (!animation || !isPlaying) return;
+    const timer = window.setTimeout(() => {
+      setFrameIndex(index => (index + 1) % animation.frames.length);
+    }, animation.frames[frameIndex]?.delay ?? 100);
+    return () => window.clearTimeout(timer);
+  }, [animation, isPlaying, frameIndex]);
+
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
@@ -166,14 +215,29 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
     // Draw image
     const imgWidth = originalImage.width * imageScale;
     const imgHeight = originalImage.height * imageScale;
-    
-    ctx.drawImage(
-      originalImage,
-      imageOffset.x,
-      imageOffset.y,
-      imgWidth,
-      imgHeight
-    );
+
+    // Only the part inside the canvas, from the smallest copy that is still
+    // sharp at this zoom, so large images stay smooth to pan and zoom
+    const frame = animation?.frames[frameIndex];
+    const level = frame ? null : pickPyramidLevel(pyramid, imageScale);
+    const sourceScale = level ? level.scale : 1;
+    const left = Math.max(0, -imageOffset.x / imageScale);
+    const top = Math.max(0, -imageOffset.y / imageScale);
+    const right = Math.min(originalImage.width, (canvas.width - imageOffset.x) / imageScale);
+    const bottom = Math.min(originalImage.height, (canvas.height - imageOffset.y) / imageScale);
+    if (right > left && bottom > top) {
+      ctx.drawImage(
+        frame ? frame.canvas : level ? level.bitmap : originalImage,
+        left * sourceScale,
+        top * sourceScale,
+        (right - left) * sourceScale,
+        (bottom - top) * sourceScale,
+        imageOffset.x + left * imageScale,
+        imageOffset.y + top * imageScale,
+        (right - left) * imageScale,
+        (bottom - top) * imageScale
+      );
+    }
 
     // Draw image boundary indicator
     ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
@@ -423,7 +487,7 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
         ctx.fillText(statusText, x + 10, y + 18);
       }
     }
-  }, [originalImage, imageScale, imageOffset, cropAreas, selectedCropId, isCreatingCrop, newCropStart, newCropEnd, rotating, getImageBounds, imageToCanvasCoords, canvasToImageCoords]);
+  }, [originalImage, pyramid, animation, frameIndex, imageScale, imageOffset, cropAreas, selectedCropId, isCreatingCrop, newCropStart, newCropEnd, rotating, getImageBounds, imageToCanvasCoords, canvasToImageCoords]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -603,6 +667,13 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
     closeContextMenu();
   };
 
+  const handleCopyImage = () => {
+    if (!contextMenu.cropId) return;
+
+    onCropCopyImage?.(contextMenu.cropId);
+    closeContextMenu();
+  };
+
   const handleFitToImage = () => {
     if (!contextMenu.cropId || !originalImage) return;
     
@@ -649,6 +720,8 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
     if (selectedCrop) {
       const handle = getResizeHandle(pos.x, pos.y, selectedCrop);
       if (handle) {
+        // The whole resize becomes a single undo step
+        onGestureStart();
         setResizing({ cropId: selectedCrop.id, handle });
         return;
       }
@@ -669,6 +742,8 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
       setLastClickedCrop(cropAtPos.id);
       
       onCropSelect(cropAtPos.id);
+      // Dragging a grid member moves every crop in it, so name the step after the grid
+      onGestureStart(cropAtPos.gridId ? 'Move grid' : `Move ${cropAtPos.name}`);
       setIsDragging(true);
       setDragStart(pos);
     } else {
@@ -911,6 +986,10 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
       setNewCropEnd({ x: 0, y: 0 });
     }
 
+    if (isDragging || resizing) {
+      onGestureEnd();
+    }
+
     setIsDragging(false);
     setResizing(null);
     setRotating(null); // This state is no longer used but keeping for compatibility
@@ -1011,8 +1090,36 @@ export const ViewportAwareCropCanvas: React.FC<ViewportAwareCropCanvasProps> = (
         onDuplicate={handleCropDuplicate}
         onAdvancedEdit={handleAdvancedEdit}
         onFitToImage={handleFitToImage}
+        onCopyImage={onCropCopyImage ? handleCopyImage : undefined}
       />
 
+      {/* Frame scrubber; crops apply to every frame */}
+      {animation && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center space-x-3 bg-gray-800/90 rounded-lg px-3 py-2 text-xs text-gray-300">
+          <button
+            onClick={() => setIsPlaying(playing => !playing)}
+            className="p-1 rounded hover:bg-gray-700 text-white transition-colors"
+            title={isPlaying ? 'Pause' : 'Play'}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={animation.frames.length - 1}
+            value={frameIndex}
+            onChange={(e) => {
+              setIsPlaying(false);
+              setFrameIndex(Number(e.target.value));
+            }}
+            className="w-32 md:w-48 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <span className="font-mono whitespace-nowrap">
+            {frameIndex + 1}/{animation.frames.length} · {animation.frames[frameIndex]?.delay ?? 0}ms
+          </span>
+        </div>
+      )}
+
       {cropAreas.length === 0 && !isCreatingCrop && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
           <div className="bg-gray-800/90 rounded-lg p-4 md:p-8 text-center max-w-md mx-4">
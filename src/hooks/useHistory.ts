@@ -0,0 +1,193 @@
+import { useReducer, useCallback } from 'react';
+
+// Oldest entries are dropped beyond this many undo steps
+const MAX_HISTORY = 100;
+// Consecutive updates sharing a merge key within this window become one step
+const MERGE_WINDOW = 1000;
+
+export interface HistoryEntry<T> {
+  id: number;
+  label: string;
+  before: T;
+  after: T;
+  timestamp: number;
+  mergeKey?: string;
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+interface HistoryState<T> {
+  present: T;
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+  // While a gesture (drag, resize, ...) is active, updates change the present
+  // state without recording; the whole gesture is committed as one entry
+  gesture: { label: string | null; before: T } | null;
+  nextId: number;
+}
+
+type HistoryAction<T> =
+  | { type: 'apply'; label: string; update: Updater<T>; mergeKey?: string; timestamp: number }
+  | { type: 'beginGesture'; label?: string; timestamp: number }
+  | { type: 'endGesture'; timestamp: number }
+  | { type: 'undo'; timestamp: number }
+  | { type: 'redo'; timestamp: number }
+  | { type: 'jump'; position: number; timestamp: number }
+  | { type: 'reset'; present: T };
+
+const resolve = <T>(update: Updater<T>, prev: T): T => {
+  return typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+};
+
+const pushEntry = <T>(state: HistoryState<T>, entry: Omit<HistoryEntry<T>, 'id'>): HistoryState<T> => {
+  const past = [...state.past, { ...entry, id: state.nextId }];
+  return {
+    ...state,
+    past: past.length > MAX_HISTORY ? past.slice(past.length - MAX_HISTORY) : past,
+    future: [],
+    nextId: state.nextId + 1
+  };
+};
+
+const commitGesture = <T>(state: HistoryState<T>, timestamp: number): HistoryState<T> => {
+  if (!state.gesture) return state;
+
+  const { label, before } = state.gesture;
+  const settled = { ...state, gesture: null };
+  if (before === state.present) return settled;
+
+  return pushEntry(settled, {
+    label: label || 'Edit',
+    before,
+    after: state.present,
+    timestamp
+  });
+};
+
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'apply': {
+      const next = resolve(action.update, state.present);
+      if (next === state.present) return state;
+
+      if (state.gesture) {
+        return {
+          ...state,
+          present: next,
+          gesture: { ...state.gesture, label: state.gesture.label || action.label }
+        };
+      }
+
+      const last = state.past[state.past.length - 1];
+      if (action.mergeKey && last && last.mergeKey === action.mergeKey &&
+          state.future.length === 0 && action.timestamp - last.timestamp < MERGE_WINDOW) {
+        return {
+          ...state,
+          present: next,
+          past: [...state.past.slice(0, -1), { ...last, after: next, timestamp: action.timestamp }]
+        };
+      }
+
+      return pushEntry({ ...state, present: next }, {
+        label: action.label,
+        before: state.present,
+        after: next,
+        timestamp: action.timestamp,
+        mergeKey: action.mergeKey
+      });
+    }
+
+    case 'beginGesture': {
+      const settled = commitGesture(state, action.timestamp);
+      return { ...settled, gesture: { label: action.label || null, before: settled.present } };
+    }
+
+    case 'endGesture':
+      return commitGesture(state, action.timestamp);
+
+    case 'undo': {
+      const settled = commitGesture(state, action.timestamp);
+      const entry = settled.past[settled.past.length - 1];
+      if (!entry) return settled;
+      return {
+        ...settled,
+        present: entry.before,
+        past: settled.past.slice(0, -1),
+        future: [entry, ...settled.future]
+      };
+    }
+
+    case 'redo': {
+      const settled = commitGesture(state, action.timestamp);
+      const [entry, ...future] = settled.future;
+      if (!entry) return settled;
+      return {
+        ...settled,
+        present: entry.after,
+        past: [...settled.past, entry],
+        future
+      };
+    }
+
+    case 'jump': {
+      let next = commitGesture(state, action.timestamp);
+      const target = Math.max(0, Math.min(action.position, next.past.length + next.future.length));
+      while (next.past.length > target) {
+        next = historyReducer(next, { type: 'undo', timestamp: action.timestamp });
+      }
+      while (next.past.length < target) {
+        next = historyReducer(next, { type: 'redo', timestamp: action.timestamp });
+      }
+      return next;
+    }
+
+    case 'reset':
+      return { present: action.present, past: [], future: [], gesture: null, nextId: state.nextId };
+  }
+};
+
+export const useHistory = <T>(initialPresent: T) => {
+  const [state, dispatch] = useReducer(
+    historyReducer as (state: HistoryState<T>, action: HistoryAction<T>) => HistoryState<T>,
+    { present: initialPresent, past: [], future: [], gesture: null, nextId: 1 }
+  );
+
+  // Record a labeled change. Updates sharing a mergeKey in quick succession
+  // (e.g. arrow-key nudges or typing) collapse into a single undo step.
+  const apply = useCallback((label: string, update: Updater<T>, mergeKey?: string) => {
+    dispatch({ type: 'apply', label, update, mergeKey, timestamp: Date.now() });
+  }, []);
+
+  const beginGesture = useCallback((label?: string) => {
+    dispatch({ type: 'beginGesture', label, timestamp: Date.now() });
+  }, []);
+
+  const endGesture = useCallback(() => {
+    dispatch({ type: 'endGesture', timestamp: Date.now() });
+  }, []);
+
+  const undo = useCallback(() => dispatch({ type: 'undo', timestamp: Date.now() }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo', timestamp: Date.now() }), []);
+
+  // Move to a point in history; position is the number of applied entries
+  const jumpTo = useCallback((position: number) => {
+    dispatch({ type: 'jump', position, timestamp: Date.now() });
+  }, []);
+
+  const reset = useCallback((present: T) => dispatch({ type: 'reset', present }), []);
+
+  return {
+    present: state.present,
+    past: state.past,
+    future: state.future,
+    canUndo: state.past.length > 0 || (state.gesture !== null && state.gesture.before !== state.present),
+    canRedo: state.future.length > 0,
+    apply,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    jumpTo,
+    reset
+  };
+};
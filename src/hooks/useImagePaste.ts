@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { fetchImageFile, getTransferImageUrl, hasTransferImage, readTransferFiles } from '../utils/clipboard';
+
+// Ctrl+V anywhere on the page: pasted images, image links and data URIs are
+// handed over as files. Pastes into text fields are left alone, and so are
+// other links unless they turn out to serve an image.
+export const useImagePaste = (onFiles: (files: File[]) => void, enabled = true) => {
+  // Read through a ref so a new callback every render doesn't re-register
+  const onFilesRef = useRef(onFiles);
+  onFilesRef.current = onFiles;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target?.isContentEditable) return;
+      if (!e.clipboardData) return;
+      if (!hasTransferImage(e.clipboardData)) {
+        const url = getTransferImageUrl(e.clipboardData);
+        // Only open what the link serves if it is an image; it was just text otherwise
+        if (url) {
+          fetchImageFile(url)
+            .then(file => onFilesRef.current([file]))
+            .catch(() => undefined);
+        }
+        return;
+      }
+
+      e.preventDefault();
+      readTransferFiles(e.clipboardData)
+        .then(files => {
+          if (files.length > 0) onFilesRef.current(files);
+        })
+        .catch(error => {
+          console.error('Paste failed:', error);
+          alert(error instanceof Error ? error.message : 'The pasted image could not be read');
+        });
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [enabled]);
+};
@@ -8,12 +8,16 @@ interface KeyboardShortcutsProps {
   onCropUpdate: (id: string, updates: Partial<CropArea>) => void;
   onCropDelete: (id: string) => void;
   onCropCopy: (id: string) => void;
+  onCropCopyImage?: (id: string) => void;
   onAddCrop: () => void;
   onCropDoubleClick: (cropId: string) => void;
   onUpdateGridCrops: (gridId: string, updates: Partial<CropArea>) => void;
   onUnlinkFromGrid: (cropId: string) => void;
   onExportAll: () => void;
   onExportSelected: () => void;
+  onSaveProject?: () => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
   onReset?: () => void;
   isAdvancedEditorOpen?: boolean;
   onCloseAdvancedEditor?: () => void;
@@ -26,12 +30,16 @@ export const useKeyboardShortcuts = ({
   onCropUpdate,
   onCropDelete,
   onCropCopy,
+  onCropCopyImage,
   onAddCrop,
   onCropDoubleClick,
   onUpdateGridCrops,
   onUnlinkFromGrid,
   onExportAll,
   onExportSelected,
+  onSaveProject,
+  onUndo,
+  onRedo,
   onReset,
   isAdvancedEditorOpen = false,
   onCloseAdvancedEditor
@@ -156,6 +164,25 @@ export const useKeyboardShortcuts = ({
       return;
     }
 
+    // Undo/redo share one history with the advanced editor, so handle them first
+    if ((e.ctrlKey || e.metaKey) && !e.altKey) {
+      const key = e.key.toLowerCase();
+      if (key === 'z' && onUndo && onRedo) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          onRedo();
+        } else {
+          onUndo();
+        }
+        return;
+      }
+      if (key === 'y' && onRedo) {
+        e.preventDefault();
+        onRedo();
+        return;
+      }
+    }
+
     // Don't handle shortcuts in advanced editor (it has its own)
     if (isAdvancedEditorOpen) {
       // Only handle escape to close advanced editor
@@ -195,6 +222,14 @@ export const useKeyboardShortcuts = ({
         }
         break;
 
+      case 's':
+        if (isCtrl && onSaveProject) {
+          preventDefault();
+          onSaveProject();
+          return;
+        }
+        break;
+
       // Export operations
       case 'e':
         if (isCtrl && isShift) {
@@ -250,6 +285,15 @@ export const useKeyboardShortcuts = ({
         }
         break;
 
+      case 'c':
+        // Leave Ctrl+C alone while text on the page is selected
+        if (isCtrl && !isShift && onCropCopyImage && !window.getSelection()?.toString()) {
+          preventDefault();
+          onCropCopyImage(selectedCrop.id);
+          return;
+        }
+        break;
+
       case 'delete':
       case 'backspace':
         preventDefault();
@@ -449,11 +493,15 @@ export const useKeyboardShortcuts = ({
     onCropSelect,
     onAddCrop,
     onCropCopy,
+    onCropCopyImage,
     onCropDelete,
     onCropDoubleClick,
     onUnlinkFromGrid,
     onExportAll,
     onExportSelected,
+    onSaveProject,
+    onUndo,
+    onRedo,
     onReset,
     onCloseAdvancedEditor,
     selectNextCrop,
@@ -478,6 +526,9 @@ export const useKeyboardShortcuts = ({
       global: [
         { key: 'Ctrl+N', description: 'Add new crop' },
         { key: 'Ctrl+Shift+R', description: 'Reset/New image' },
+        { key: 'Ctrl+S', description: 'Save project file' },
+        { key: 'Ctrl+Z', description: 'Undo' },
+        { key: 'Ctrl+Shift+Z / Ctrl+Y', description: 'Redo' },
         { key: 'Ctrl+E', description: 'Export selected crops' },
         { key: 'Ctrl+Shift+E', description: 'Export all crops' },
         { key: 'Tab / Shift+Tab', description: 'Navigate between crops' },
@@ -495,6 +546,7 @@ export const useKeyboardShortcuts = ({
       ],
       cropOperations: [
         { key: 'Ctrl+D', description: 'Duplicate crop' },
+        { key: 'Ctrl+C', description: 'Copy crop image to clipboard' },
         { key: 'Delete / Backspace', description: 'Delete crop' },
         { key: 'Enter', description: 'Open advanced editor' },
         { key: 'Ctrl+U', description: 'Unlink from grid' }
@@ -0,0 +1,30 @@
+import { useCallback, useRef, useState } from 'react';
+import { TiffPage } from '../utils/tiff';
+
+export interface TiffPageRequest {
+  fileName: string;
+  pages: TiffPage[];
+}
+
+// Lets loadImageFiles wait while the user picks pages of a multi-page TIFF:
+// pass pickPages to it, show TiffPagePicker while request is set and hand
+// the choice (or an empty list on cancel) to finish.
+export const useTiffPagePicker = () => {
+  const [request, setRequest] = useState<TiffPageRequest | null>(null);
+  const resolveRef = useRef<((indexes: number[]) => void) | null>(null);
+
+  const pickPages = useCallback((fileName: string, pages: TiffPage[]) => {
+    return new Promise<number[]>(resolve => {
+      resolveRef.current = resolve;
+      setRequest({ fileName, pages });
+    });
+  }, []);
+
+  const finish = useCallback((indexes: number[]) => {
+    resolveRef.current?.(indexes);
+    resolveRef.current = null;
+    setRequest(null);
+  }, []);
+
+  return { request, pickPages, finish };
+};
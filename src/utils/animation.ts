@@ -0,0 +1,150 @@
+import { CropArea, ExportSettings } from '../App';
+import { renderCropRegion, resizeRegion } from './cropRenderer';
+import { createCanvas, get2dContext } from './resample';
+import { EncodedImage } from './targetSize';
+import { readFileAsDataUrl } from './imageLoader';
+import { decodeGif, encodeGif, isGif } from './gif';
+import { dataUrlToBytes } from './zip';
+
+type Size = { width: number; height: number };
+
+export interface AnimationFrame {
+  canvas: HTMLCanvasElement; // Full-size composited frame
+  delay: number; // Milliseconds
+}
+
+export interface AnimatedImage {
+  width: number;
+  height: number;
+  loopCount: number | null; // 0 loops forever, null plays once
+  frames: AnimationFrame[];
+}
+
+// Every frame of an animated GIF, or null for anything else (a single-frame
+// GIF is just an image)
+export const readAnimation = async (imageUrl: string): Promise<AnimatedImage | null> => {
+  try {
+    const bytes = new Uint8Array(await (await fetch(imageUrl)).arrayBuffer());
+    if (!isGif(bytes)) return null;
+    const gif = decodeGif(bytes);
+    if (gif.frames.length < 2) return null;
+
+    const frames = gif.frames.map(({ pixels, delay }) => {
+      const canvas = createCanvas(gif.width, gif.height);
+      get2dContext(canvas).putImageData(new ImageData(pixels, gif.width, gif.height), 0, 0);
+      return { canvas, delay };
+    });
+    return { width: gif.width, height: gif.height, loopCount: gif.loopCount, frames };
+  } catch (error) {
+    console.error('Failed to read animation frames:', error);
+    return null;
+  }
+};
+
+export const getAnimationDuration = (animation: AnimatedImage) =>
+  animation.frames.reduce((total, frame) => total + frame.delay, 0);
+
+const writeUint24 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+};
+
+const webpChunk = (type: string, parts: Uint8Array[]) => {
+  const size = parts.reduce((total, part) => total + part.length, 0);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode(type));
+  new DataView(header.buffer).setUint32(4, size, true);
+  return [header, ...parts, new Uint8Array(size % 2)];
+};
+
+// The image chunks (ALPH, VP8, VP8L) of a still WebP, padding included
+const readWebpImageChunks = (bytes: Uint8Array): Uint8Array[] => {
+  const chunks: Uint8Array[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') chunks.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return chunks;
+};
+
+// Browsers only encode still WebP, so each frame is encoded on its own and
+// its image data wrapped in an ANMF chunk. Every frame covers the whole
+// canvas and replaces the previous one (no blending, no disposal).
+const encodeAnimatedWebp = (
+  canvases: HTMLCanvasElement[],
+  delays: number[],
+  loopCount: number | null,
+  quality: number
+): Blob => {
+  const { width, height } = canvases[0];
+  const frames = canvases.map((canvas, index) => {
+    const dataUrl = canvas.toDataURL('image/webp', quality);
+    if (!dataUrl.startsWith('data:image/webp')) {
+      throw new Error('This browser cannot encode WebP; export the animation as GIF instead');
+    }
+    const header = new Uint8Array(16);
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.min(delays[index], 0xffffff));
+    header[15] = 0x02; // Do not blend
+    return webpChunk('ANMF', [header, ...readWebpImageChunks(dataUrlToBytes(dataUrl))]);
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = 0x10 | 0x02; // Alpha, animation
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+  // WebP counts plays where GIF counts repeats
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, loopCount === null ? 1 : loopCount === 0 ? 0 : loopCount + 1, true);
+
+  const body = [
+    new TextEncoder().encode('WEBP'),
+    ...webpChunk('VP8X', [vp8x]),
+    ...webpChunk('ANIM', [anim]),
+    ...frames.flat()
+  ];
+  const riff = new Uint8Array(8);
+  riff.set(new TextEncoder().encode('RIFF'));
+  new DataView(riff.buffer).setUint32(4, body.reduce((total, part) => total + part.length, 0), true);
+  return new Blob([riff, ...body], { type: 'image/webp' });
+};
+
+// Crop every frame with the same settings as a still export and encode them
+// as an animated GIF or WebP with the source's frame delays and loop count.
+// Target file size and metadata don't apply to animations.
+export const encodeAnimatedCrop = async (
+  animation: AnimatedImage,
+  crop: CropArea,
+  settings: ExportSettings,
+  size: Size
+): Promise<EncodedImage> => {
+  const canvases = animation.frames.map(frame => resizeRegion(renderCropRegion(frame.canvas, crop, settings), size, settings));
+  const delays = animation.frames.map(frame => frame.delay);
+
+  let blob: Blob;
+  if (settings.animationFormat === 'webp') {
+    blob = encodeAnimatedWebp(canvases, delays, animation.loopCount, settings.quality);
+  } else {
+    const frames = canvases.map((canvas, index) => ({
+      pixels: get2dContext(canvas).getImageData(0, 0, size.width, size.height).data,
+      delay: delays[index]
+    }));
+    blob = new Blob([encodeGif(frames, size.width, size.height, animation.loopCount)], { type: 'image/gif' });
+  }
+
+  return {
+    dataUrl: await readFileAsDataUrl(blob),
+    bytes: blob.size,
+    quality: settings.animationFormat === 'webp' ? settings.quality : null,
+    width: size.width,
+    height: size.height,
+    withinTarget: true
+  };
+};
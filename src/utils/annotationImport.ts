@@ -0,0 +1,341 @@
+import { AnnotationImage, DEFAULT_LABEL, getCropCorners } from './annotations';
+
+export interface ImportedBox {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export interface AnnotationImport {
+  format: string;
+  boxes: ImportedBox[];
+  skipped: string[]; // Entries that were dropped, with the reason
+  clamped: string[]; // Entries trimmed to the image bounds
+  notes: string[];
+}
+
+export interface AnnotationSource {
+  name: string;
+  text: string;
+}
+
+type Point = { x: number; y: number };
+type RawBox = ImportedBox & { description: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const getBaseName = (path: string) => (path.split(/[\\/]/).pop() || path).toLowerCase();
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// COCO annotations are JSON too, so tell them apart from project files
+export const isCocoAnnotationText = (text: string): boolean => {
+  try {
+    const data: unknown = JSON.parse(text);
+    return isRecord(data) && Array.isArray(data.annotations) && Array.isArray(data.images);
+  } catch {
+    return false;
+  }
+};
+
+export const isAnnotationFileCandidate = (file: File) => /\.(xml|txt|csv|names)$/i.test(file.name);
+
+// Oriented box from four corners, clockwise from the crop's top left
+const boxFromCorners = (corners: Point[], label: string, description: string): RawBox => {
+  const [p0, p1, p2] = corners;
+  const width = Math.hypot(p1.x - p0.x, p1.y - p0.y);
+  const height = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+  const centerX = corners.reduce((sum, point) => sum + point.x, 0) / 4;
+  const centerY = corners.reduce((sum, point) => sum + point.y, 0) / 4;
+  const degrees = (Math.atan2(p1.y - p0.y, p1.x - p0.x) * 180) / Math.PI;
+  return {
+    label,
+    description,
+    x: centerX - width / 2,
+    y: centerY - height / 2,
+    width,
+    height,
+    rotation: Math.round((((degrees % 360) + 360) % 360) * 100) / 100
+  };
+};
+
+const toPoints = (values: number[]): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) points.push({ x: values[i], y: values[i + 1] });
+  return points;
+};
+
+const parseCoco = (text: string, image: AnnotationImage, notes: string[]): RawBox[] => {
+  const data: unknown = JSON.parse(text);
+  if (!isRecord(data) || !Array.isArray(data.annotations)) throw new Error('Not a COCO annotation file');
+
+  const images = (Array.isArray(data.images) ? data.images : []).filter(isRecord);
+  const entry = images.find(item => image.name && typeof item.file_name === 'string' &&
+    getBaseName(item.file_name) === getBaseName(image.name)) ?? (images.length === 1 ? images[0] : undefined);
+  if (images.length > 1 && !entry) {
+    throw new Error(`The COCO file has no entry for ${image.name || 'this image'}`);
+  }
+
+  const categories = new Map<unknown, string>();
+  (Array.isArray(data.categories) ? data.categories : []).filter(isRecord).forEach(category => {
+    categories.set(category.id, String(category.name ?? category.id));
+  });
+
+  // Boxes are scaled if the file was made for a resized copy of the image
+  const scaleX = entry && Number(entry.width) > 0 ? image.width / Number(entry.width) : 1;
+  const scaleY = entry && Number(entry.height) > 0 ? image.height / Number(entry.height) : 1;
+  if (scaleX !== 1 || scaleY !== 1) {
+    notes.push(`Scaled from ${entry?.width} × ${entry?.height} to ${image.width} × ${image.height}`);
+  }
+
+  return data.annotations.filter(isRecord)
+    .filter(annotation => !entry || annotation.image_id === entry.id)
+    .map((annotation, index) => {
+      const label = categories.get(annotation.category_id) ?? String(annotation.category_id ?? DEFAULT_LABEL);
+      const description = `Annotation ${annotation.id ?? index + 1} (${label})`;
+      const polygon = Array.isArray(annotation.segmentation) && annotation.segmentation.length === 1
+        ? annotation.segmentation[0]
+        : null;
+
+      // A four-point polygon is an oriented box, as written by the exporter
+      if (Array.isArray(polygon) && polygon.length === 8) {
+        const values = polygon.map(Number);
+        return boxFromCorners(toPoints(values).map(point => ({ x: point.x * scaleX, y: point.y * scaleY })), label, description);
+      }
+
+      const bbox = Array.isArray(annotation.bbox) ? annotation.bbox.map(Number) : [];
+      return {
+        label,
+        description,
+        x: bbox[0] * scaleX,
+        y: bbox[1] * scaleY,
+        width: bbox[2] * scaleX,
+        height: bbox[3] * scaleY,
+        rotation: 0
+      };
+    });
+};
+
+const parseVoc = (text: string, image: AnnotationImage, notes: string[]): RawBox[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || !doc.querySelector('annotation')) {
+    throw new Error('Not a Pascal VOC annotation file');
+  }
+
+  const read = (parent: Element | Document, tag: string) => parent.querySelector(tag)?.textContent?.trim() ?? '';
+  const fileWidth = Number(read(doc, 'annotation > size > width'));
+  const fileHeight = Number(read(doc, 'annotation > size > height'));
+  const scaleX = fileWidth > 0 ? image.width / fileWidth : 1;
+  const scaleY = fileHeight > 0 ? image.height / fileHeight : 1;
+  if (scaleX !== 1 || scaleY !== 1) {
+    notes.push(`Scaled from ${fileWidth} × ${fileHeight} to ${image.width} × ${image.height}`);
+  }
+
+  return Array.from(doc.querySelectorAll('annotation > object')).map((object, index) => {
+    const label = read(object, 'name') || DEFAULT_LABEL;
+    const xmin = Number(read(object, 'bndbox > xmin'));
+    const ymin = Number(read(object, 'bndbox > ymin'));
+    const xmax = Number(read(object, 'bndbox > xmax'));
+    const ymax = Number(read(object, 'bndbox > ymax'));
+    return {
+      label,
+      description: `Object ${index + 1} (${label})`,
+      x: xmin * scaleX,
+      y: ymin * scaleY,
+      width: (xmax - xmin) * scaleX,
+      height: (ymax - ymin) * scaleY,
+      rotation: 0
+    };
+  });
+};
+
+const parseYolo = (text: string, classes: string[], image: AnnotationImage, skipped: string[]): RawBox[] => {
+  const boxes: RawBox[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const tokens = line.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return;
+
+    const classId = Number(tokens[0]);
+    const label = classes[classId] ?? `class_${tokens[0]}`;
+    const values = tokens.slice(1).map(Number);
+    const description = `Line ${index + 1} (${label})`;
+
+    // 4 values (+ optional confidence) is a box, 8 (+ confidence) an OBB
+    if ((values.length === 4 || values.length === 5) && values.slice(0, 4).every(Number.isFinite)) {
+      const [centerX, centerY, width, height] = values;
+      boxes.push({
+        label,
+        description,
+        x: (centerX - width / 2) * image.width,
+        y: (centerY - height / 2) * image.height,
+        width: width * image.width,
+        height: height * image.height,
+        rotation: 0
+      });
+    } else if ((values.length === 8 || values.length === 9) && values.slice(0, 8).every(Number.isFinite)) {
+      const corners = toPoints(values.slice(0, 8)).map(point => ({ x: point.x * image.width, y: point.y * image.height }));
+      boxes.push(boxFromCorners(corners, label, description));
+    } else {
+      skipped.push(`${description}: not a YOLO box`);
+    }
+  });
+  return boxes;
+};
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// Any CSV with a header naming the box columns: x/y/width/height or
+// xmin/ymin/xmax/ymax, plus an optional label and rotation
+const parseCsv = (text: string, skipped: string[]): RawBox[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) throw new Error('The CSV file is empty');
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const find = (...names: string[]) => names.map(name => columns.indexOf(name)).find(index => index !== -1) ?? -1;
+  const labelColumn = find('label', 'class', 'category', 'name');
+  const xColumn = find('x', 'xmin', 'left');
+  const yColumn = find('y', 'ymin', 'top');
+  const widthColumn = find('width', 'w');
+  const heightColumn = find('height', 'h');
+  const xMaxColumn = find('xmax', 'right');
+  const yMaxColumn = find('ymax', 'bottom');
+  const rotationColumn = find('rotation', 'angle');
+
+  const hasSize = widthColumn !== -1 && heightColumn !== -1;
+  const hasCorners = xMaxColumn !== -1 && yMaxColumn !== -1;
+  if (xColumn === -1 || yColumn === -1 || (!hasSize && !hasCorners)) {
+    throw new Error('The CSV needs x, y, width and height (or xmin, ymin, xmax, ymax) columns');
+  }
+
+  return rows.flatMap((cells, index) => {
+    const value = (column: number) => (column === -1 ? NaN : parseFloat(cells[column]));
+    const label = (labelColumn !== -1 && cells[labelColumn]?.trim()) || DEFAULT_LABEL;
+    const description = `Row ${index + 2} (${label})`;
+    const x = value(xColumn);
+    const y = value(yColumn);
+    const width = hasSize ? value(widthColumn) : value(xMaxColumn) - x;
+    const height = hasSize ? value(heightColumn) : value(yMaxColumn) - y;
+    if (![x, y, width, height].every(Number.isFinite)) {
+      skipped.push(`${description}: missing coordinates`);
+      return [];
+    }
+    const rotation = value(rotationColumn);
+    return [{ label, description, x, y, width, height, rotation: Number.isFinite(rotation) ? rotation : 0 }];
+  });
+};
+
+// Keep boxes inside the image: trim upright boxes, drop anything that
+// doesn't overlap it, and keep rotated boxes whose centre lies inside
+const fitToImage = (boxes: RawBox[], image: AnnotationImage, result: AnnotationImport) => {
+  boxes.forEach(({ description, ...box }) => {
+    if (![box.x, box.y, box.width, box.height].every(Number.isFinite) || box.width <= 0 || box.height <= 0) {
+      result.skipped.push(`${description}: invalid size`);
+      return;
+    }
+
+    if (box.rotation % 360 !== 0) {
+      const centerX = box.x + box.width / 2;
+      const centerY = box.y + box.height / 2;
+      if (centerX < 0 || centerY < 0 || centerX > image.width || centerY > image.height) {
+        result.skipped.push(`${description}: outside the image`);
+        return;
+      }
+      const outside = getCropCorners({ id: '', name: '', ...box }).some(point =>
+        point.x < 0 || point.y < 0 || point.x > image.width || point.y > image.height
+      );
+      if (outside) result.notes.push(`${description} is rotated and reaches past the image edge`);
+      result.boxes.push(box);
+      return;
+    }
+
+    const left = Math.max(0, box.x);
+    const top = Math.max(0, box.y);
+    const right = Math.min(image.width, box.x + box.width);
+    const bottom = Math.min(image.height, box.y + box.height);
+    if (right - left < 1 || bottom - top < 1) {
+      result.skipped.push(`${description}: outside the image`);
+      return;
+    }
+    // Allow half a pixel of rounding before calling a box clamped
+    if (left - box.x > 0.5 || top - box.y > 0.5 || box.x + box.width - right > 0.5 || box.y + box.height - bottom > 0.5) {
+      result.clamped.push(description);
+    }
+    result.boxes.push({ ...box, x: left, y: top, width: right - left, height: bottom - top });
+  });
+};
+
+// Parse one annotation file (plus a YOLO class list, if given) for the
+// current image
+export const parseAnnotationFiles = (sources: AnnotationSource[], image: AnnotationImage): AnnotationImport => {
+  if (image.width <= 0 || image.height <= 0) throw new Error('The image size is unknown');
+
+  const result: AnnotationImport = { format: '', boxes: [], skipped: [], clamped: [], notes: [] };
+  const classFile = sources.find(source => /(^classes\.txt|\.names)$/i.test(getBaseName(source.name)));
+  const candidates = sources.filter(source => source !== classFile);
+  // Several label files: prefer the one named after the image
+  const imageBase = image.name ? stripExtension(getBaseName(image.name)) : null;
+  const source = candidates.find(candidate => stripExtension(getBaseName(candidate.name)) === imageBase) ?? candidates[0];
+  if (!source) throw new Error('No annotation file was selected');
+
+  const extension = getBaseName(source.name).split('.').pop();
+  let boxes: RawBox[];
+  if (extension === 'json') {
+    result.format = 'COCO';
+    boxes = parseCoco(source.text, image, result.notes);
+  } else if (extension === 'xml') {
+    result.format = 'Pascal VOC';
+    boxes = parseVoc(source.text, image, result.notes);
+  } else if (extension === 'csv') {
+    result.format = 'CSV';
+    boxes = parseCsv(source.text, result.skipped);
+  } else {
+    result.format = 'YOLO';
+    const classes = classFile ? classFile.text.split(/\r?\n/).map(line => line.trim()) : [];
+    if (!classFile) result.notes.push('No classes.txt was given, so labels use class numbers');
+    boxes = parseYolo(source.text, classes, image, result.skipped);
+  }
+
+  fitToImage(boxes, image, result);
+  return result;
+};
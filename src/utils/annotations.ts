@@ -0,0 +1,227 @@
+import { CropArea } from '../App';
+import { getSourceBaseName, parseFrameName } from './videoFrames';
+
+export type AnnotationFormat = 'coco' | 'yolo' | 'yolo-obb' | 'voc';
+
+export interface AnnotationImage {
+  name: string | null;
+  width: number;
+  height: number;
+}
+
+export interface AnnotationFile {
+  name: string;
+  text: string;
+}
+
+type Point = { x: number; y: number };
+
+// Class used for crops that have not been given a label
+export const DEFAULT_LABEL = 'object';
+
+export const ANNOTATION_FORMATS: { value: AnnotationFormat; label: string; oriented: boolean }[] = [
+  { value: 'coco', label: 'COCO JSON', oriented: true },
+  { value: 'yolo', label: 'YOLO (txt)', oriented: false },
+  { value: 'yolo-obb', label: 'YOLO OBB (oriented boxes)', oriented: true },
+  { value: 'voc', label: 'Pascal VOC XML', oriented: false }
+];
+
+export const getCropLabel = (crop: CropArea) => crop.label?.trim() || DEFAULT_LABEL;
+
+// Class names in order of first appearance; class ids are indexes into this
+export const getAnnotationLabels = (crops: CropArea[]): string[] => {
+  return Array.from(new Set(crops.map(getCropLabel)));
+};
+
+// Corners of the crop as drawn on the canvas (rotated about its centre),
+// clockwise from the top left
+export const getCropCorners = (crop: CropArea): Point[] => {
+  const radians = ((crop.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+
+  return [
+    [-1, -1], [1, -1], [1, 1], [-1, 1]
+  ].map(([sx, sy]) => {
+    const dx = (sx * crop.width) / 2;
+    const dy = (sy * crop.height) / 2;
+    return { x: centerX + dx * cos - dy * sin, y: centerY + dx * sin + dy * cos };
+  });
+};
+
+// The part of the crop's outline inside the image, clipped against one image
+// edge at a time (Sutherland-Hodgman); empty when the crop lies outside
+const getVisibleOutline = (crop: CropArea, image: AnnotationImage): Point[] => {
+  // Distance inside each edge: left, top, right, bottom
+  const edges = [
+    (point: Point) => point.x,
+    (point: Point) => point.y,
+    (point: Point) => image.width - point.x,
+    (point: Point) => image.height - point.y
+  ];
+
+  return edges.reduce((outline, inside) => outline.flatMap((point, index) => {
+    const previous = outline[(index + outline.length - 1) % outline.length];
+    const from = inside(previous);
+    const to = inside(point);
+    const t = from / (from - to);
+    const crossing = { x: previous.x + (point.x - previous.x) * t, y: previous.y + (point.y - previous.y) * t };
+    if (to >= 0) return from >= 0 ? [point] : [crossing, point];
+    return from >= 0 ? [crossing] : [];
+  }), getCropCorners(crop));
+};
+
+// Axis-aligned bounds of the (possibly rotated) crop, clipped to the image
+export const getCropBounds = (crop: CropArea, image: AnnotationImage) => {
+  const outline = getVisibleOutline(crop, image);
+  if (outline.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const xs = outline.map(point => point.x);
+  const ys = outline.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+const extendsOutside = (crop: CropArea, image: AnnotationImage) => {
+  return getCropCorners(crop).some(point =>
+    point.x < 0 || point.y < 0 || point.x > image.width || point.y > image.height
+  );
+};
+
+// A quarter turn still leaves the box axis-aligned
+const isRotated = (crop: CropArea) => ((crop.rotation || 0) % 90) !== 0;
+
+// Rotated crops that a format can only store as their axis-aligned bounds
+export const getAnnotationWarnings = (crops: CropArea[], format: AnnotationFormat): string[] => {
+  const oriented = ANNOTATION_FORMATS.find(entry => entry.value === format)?.oriented;
+  if (oriented) return [];
+  return crops.filter(isRotated).map(crop => crop.name);
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// The image file the annotations refer to. Captured frames are PNG stills
+// named like the annotation files, e.g. "clip_0m01s234.png".
+const getImageFileName = (name: string | null) =>
+  parseFrameName(name) ? `${getSourceBaseName(name)}.png` : name || 'image';
+
+const buildCoco = (crops: CropArea[], image: AnnotationImage): string => {
+  const labels = getAnnotationLabels(crops);
+  const coco = {
+    info: {
+      description: image.name ? `Annotations for ${image.name}` : 'Annotations',
+      date_created: new Date().toISOString()
+    },
+    licenses: [],
+    images: [{ id: 1, file_name: getImageFileName(image.name), width: image.width, height: image.height }],
+    categories: labels.map((name, index) => ({ id: index + 1, name, supercategory: 'none' })),
+    annotations: crops.map((crop, index) => {
+      const bounds = getCropBounds(crop, image);
+      // The polygon is the oriented box as far as it lies in the image; bbox is its upright bounds
+      const polygon = getVisibleOutline(crop, image).flatMap(point => [round(point.x, 2), round(point.y, 2)]);
+      return {
+        id: index + 1,
+        image_id: 1,
+        category_id: labels.indexOf(getCropLabel(crop)) + 1,
+        bbox: [bounds.x, bounds.y, bounds.width, bounds.height].map(value => round(value, 2)),
+        area: round(bounds.width * bounds.height, 2),
+        segmentation: [polygon],
+        iscrowd: 0,
+        attributes: { name: crop.name, rotation: crop.rotation || 0 }
+      };
+    })
+  };
+  return JSON.stringify(coco, null, 2);
+};
+
+const buildYolo = (crops: CropArea[], image: AnnotationImage, oriented: boolean): string => {
+  const labels = getAnnotationLabels(crops);
+  const lines = crops.map(crop => {
+    const classId = labels.indexOf(getCropLabel(crop));
+    if (oriented) {
+      // Ultralytics OBB: four normalized corners, clockwise. Corners past the
+      // edge are kept, so the box stays a rectangle; training clips it itself.
+      const corners = getCropCorners(crop).flatMap(point => [point.x / image.width, point.y / image.height]);
+      return [classId, ...corners.map(value => value.toFixed(6))].join(' ');
+    }
+
+    // Normalized centre, width and height
+    const bounds = getCropBounds(crop, image);
+    const box = [
+      (bounds.x + bounds.width / 2) / image.width,
+      (bounds.y + bounds.height / 2) / image.height,
+      bounds.width / image.width,
+      bounds.height / image.height
+    ];
+    return [classId, ...box.map(value => value.toFixed(6))].join(' ');
+  });
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+};
+
+const escapeXml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const buildVoc = (crops: CropArea[], image: AnnotationImage): string => {
+  const objects = crops.map(crop => {
+    const bounds = getCropBounds(crop, image);
+    return [
+      '  <object>',
+      `    <name>${escapeXml(getCropLabel(crop))}</name>`,
+      '    <pose>Unspecified</pose>',
+      `    <truncated>${extendsOutside(crop, image) ? 1 : 0}</truncated>`,
+      '    <difficult>0</difficult>',
+      '    <bndbox>',
+      `      <xmin>${Math.round(bounds.x)}</xmin>`,
+      `      <ymin>${Math.round(bounds.y)}</ymin>`,
+      `      <xmax>${Math.round(bounds.x + bounds.width)}</xmax>`,
+      `      <ymax>${Math.round(bounds.y + bounds.height)}</ymax>`,
+      '    </bndbox>',
+      '  </object>'
+    ].join('\n');
+  });
+
+  return [
+    '<annotation>',
+    '  <folder>images</folder>',
+    `  <filename>${escapeXml(getImageFileName(image.name))}</filename>`,
+    '  <size>',
+    `    <width>${image.width}</width>`,
+    `    <height>${image.height}</height>`,
+    '    <depth>3</depth>',
+    '  </size>',
+    '  <segmented>0</segmented>',
+    ...objects,
+    '</annotation>',
+    ''
+  ].join('\n');
+};
+
+// Files to write for the current image. YOLO needs the class list next to
+// the label file, so it produces two files.
+export const buildAnnotationFiles = (
+  crops: CropArea[],
+  image: AnnotationImage,
+  format: AnnotationFormat
+): AnnotationFile[] => {
+  if (image.width <= 0 || image.height <= 0) throw new Error('The image size is unknown');
+
+  const baseName = getSourceBaseName(image.name) || 'image';
+  switch (format) {
+    case 'coco':
+      return [{ name: `${baseName}_coco.json`, text: buildCoco(crops, image) }];
+    case 'voc':
+      return [{ name: `${baseName}.xml`, text: buildVoc(crops, image) }];
+    default:
+      return [
+        { name: `${baseName}.txt`, text: buildYolo(crops, image, format === 'yolo-obb') },
+        { name: 'classes.txt', text: `${getAnnotationLabels(crops).join('\n')}\n` }
+      ];
+  }
+};
@@ -0,0 +1,261 @@
+import { CropArea, ExportSettings } from '../App';
+import { canvasToDataUrl, renderCrop } from './cropRenderer';
+import { createCanvas, get2dContext, yieldToBrowser } from './resample';
+import { SourceImage } from './background';
+import { ZipEntry, dataUrlToBytes } from './zip';
+
+type AtlasExportSettings = Pick<
+  ExportSettings,
+  'atlas' | 'resize' | 'resampling' | 'sharpen' | 'rotatedOutput' | 'background'
+>;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Rect extends Size {
+  x: number;
+  y: number;
+}
+
+export interface AtlasPlacement extends Rect {
+  sheet: number;
+}
+
+export interface AtlasFrame extends Rect {
+  name: string; // Frame key, from the crop name
+  className: string; // CSS class without the leading dot
+  sheet: number;
+}
+
+export interface AtlasSheet extends Size {
+  file: string;
+}
+
+export const ATLAS_SIZES = [256, 512, 1024, 2048, 4096, 8192];
+
+const nextPowerOfTwo = (value: number) => 2 ** Math.ceil(Math.log2(Math.max(1, value)));
+
+const contains = (outer: Rect, inner: Rect) => {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height;
+};
+
+const intersects = (a: Rect, b: Rect) => {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+};
+
+// Free space left after placing a rectangle: each free rectangle it overlaps
+// is replaced by the (overlapping) strips around it
+const splitFreeRects = (freeRects: Rect[], used: Rect): Rect[] => {
+  const next: Rect[] = [];
+  freeRects.forEach(free => {
+    if (!intersects(free, used)) {
+      next.push(free);
+      return;
+    }
+    if (used.x > free.x) next.push({ ...free, width: used.x - free.x });
+    if (used.x + used.width < free.x + free.width) {
+      next.push({ ...free, x: used.x + used.width, width: free.x + free.width - used.x - used.width });
+    }
+    if (used.y > free.y) next.push({ ...free, height: used.y - free.y });
+    if (used.y + used.height < free.y + free.height) {
+      next.push({ ...free, y: used.y + used.height, height: free.y + free.height - used.y - used.height });
+    }
+  });
+  return next.filter((rect, index) => {
+    return !next.some((other, otherIndex) => {
+      return otherIndex !== index && contains(other, rect) && (!contains(rect, other) || otherIndex < index);
+    });
+  });
+};
+
+// MaxRects bin packing with the best-short-side-fit rule. Largest items go
+// first; an item that fits no open sheet starts a new one. Placements are
+// returned in the order of the input sizes.
+export const packRects = (sizes: Size[], binSize: number): AtlasPlacement[] => {
+  const oversized = sizes.findIndex(size => size.width > binSize || size.height > binSize);
+  if (oversized >= 0) throw new Error(`Item ${oversized + 1} is larger than the ${binSize}px sheet`);
+
+  const bins: Rect[][] = [];
+  const placements: AtlasPlacement[] = new Array(sizes.length);
+  const order = sizes
+    .map((size, index) => ({ ...size, index }))
+    .sort((a, b) => Math.max(b.width, b.height) - Math.max(a.width, a.height) || b.width * b.height - a.width * a.height);
+
+  order.forEach(item => {
+    let best: AtlasPlacement | null = null;
+    // The first sheet with room wins, so earlier sheets fill up first
+    for (let sheet = 0; sheet < bins.length && !best; sheet++) {
+      let bestScore = Infinity;
+      for (const free of bins[sheet]) {
+        if (item.width > free.width || item.height > free.height) continue;
+        const score = Math.min(free.width - item.width, free.height - item.height);
+        if (score < bestScore) {
+          bestScore = score;
+          best = { x: free.x, y: free.y, width: item.width, height: item.height, sheet };
+        }
+      }
+    }
+
+    if (!best) {
+      bins.push([{ x: 0, y: 0, width: binSize, height: binSize }]);
+      best = { x: 0, y: 0, width: item.width, height: item.height, sheet: bins.length - 1 };
+    }
+    bins[best.sheet] = splitFreeRects(bins[best.sheet], best);
+    placements[item.index] = best;
+  });
+
+  return placements;
+};
+
+// Repeat the outermost pixels of a sprite outwards so texture filtering at
+// the sprite edge never samples a neighbour or the transparent gap
+const drawExtruded = (ctx: CanvasRenderingContext2D, sprite: HTMLCanvasElement, x: number, y: number, extrude: number) => {
+  const { width, height } = sprite;
+  ctx.drawImage(sprite, x + extrude, y + extrude);
+  if (extrude <= 0) return;
+
+  ctx.imageSmoothingEnabled = false;
+  const right = x + extrude + width;
+  const bottom = y + extrude + height;
+  ctx.drawImage(sprite, 0, 0, 1, height, x, y + extrude, extrude, height);
+  ctx.drawImage(sprite, width - 1, 0, 1, height, right, y + extrude, extrude, height);
+  ctx.drawImage(sprite, 0, 0, width, 1, x + extrude, y, width, extrude);
+  ctx.drawImage(sprite, 0, height - 1, width, 1, x + extrude, bottom, width, extrude);
+  ctx.drawImage(sprite, 0, 0, 1, 1, x, y, extrude, extrude);
+  ctx.drawImage(sprite, width - 1, 0, 1, 1, right, y, extrude, extrude);
+  ctx.drawImage(sprite, 0, height - 1, 1, 1, x, bottom, extrude, extrude);
+  ctx.drawImage(sprite, width - 1, height - 1, 1, 1, right, bottom, extrude, extrude);
+  ctx.imageSmoothingEnabled = true;
+};
+
+const getUniqueKey = (key: string, used: Set<string>) => {
+  let candidate = key;
+  let counter = 2;
+  while (used.has(candidate)) {
+    candidate = `${key}_${counter}`;
+    counter++;
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+const toClassName = (name: string) => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '');
+  // The prefix also keeps class names from starting with a digit
+  return `sprite-${slug || 'crop'}`;
+};
+
+// TexturePacker "JSON (Hash)" data for one sheet
+const buildAtlasJson = (frames: AtlasFrame[], sheet: AtlasSheet) => {
+  const entries = frames.map(frame => [frame.name, {
+    frame: { x: frame.x, y: frame.y, w: frame.width, h: frame.height },
+    rotated: false,
+    trimmed: false,
+    spriteSourceSize: { x: 0, y: 0, w: frame.width, h: frame.height },
+    sourceSize: { w: frame.width, h: frame.height }
+  }]);
+  return JSON.stringify({
+    frames: Object.fromEntries(entries),
+    meta: {
+      app: 'ImageCrop Pro',
+      version: '1.0',
+      image: sheet.file,
+      format: 'RGBA8888',
+      size: { w: sheet.width, h: sheet.height },
+      scale: '1'
+    }
+  }, null, 2);
+};
+
+const buildSpriteCss = (frames: AtlasFrame[], sheets: AtlasSheet[]): string => {
+  const rules = [
+    `[class^="sprite-"], [class*=" sprite-"] {\n  display: inline-block;\n  background-repeat: no-repeat;\n}`,
+    ...frames.map(frame => [
+      `.${frame.className} {`,
+      `  background-image: url("${sheets[frame.sheet].file}");`,
+      `  background-position: ${frame.x === 0 ? 0 : `-${frame.x}px`} ${frame.y === 0 ? 0 : `-${frame.y}px`};`,
+      `  width: ${frame.width}px;`,
+      `  height: ${frame.height}px;`,
+      '}'
+    ].join('\n'))
+  ];
+  return `${rules.join('\n\n')}\n`;
+};
+
+// Render the crops at their export size, pack them onto power-of-two PNG
+// sheets and describe every frame as TexturePacker JSON and CSS sprites
+export const buildAtlas = async (
+  image: SourceImage,
+  crops: CropArea[],
+  settings: AtlasExportSettings,
+  baseName: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ entries: ZipEntry[]; sheets: AtlasSheet[] }> => {
+  if (crops.length === 0) throw new Error('There are no crops to pack');
+
+  const { maxSize, padding, extrude } = settings.atlas;
+  const sprites: HTMLCanvasElement[] = [];
+  for (const [index, crop] of crops.entries()) {
+    sprites.push(renderCrop(image, crop, settings));
+    onProgress?.(index + 1, crops.length);
+    await yieldToBrowser();
+  }
+
+  // Padding goes after every sprite, so the bin grows by one padding to
+  // allow the last sprite in a row or column to touch the sheet edge
+  const sizes = sprites.map(sprite => ({
+    width: sprite.width + extrude * 2 + padding,
+    height: sprite.height + extrude * 2 + padding
+  }));
+  const tooLarge = crops.filter((_, index) => Math.max(sizes[index].width, sizes[index].height) > maxSize + padding);
+  if (tooLarge.length > 0) {
+    throw new Error(`Larger than the ${maxSize}px sheet: ${tooLarge.map(crop => crop.name).join(', ')}`);
+  }
+  const placements = packRects(sizes, maxSize + padding);
+
+  const sheetCount = Math.max(...placements.map(placement => placement.sheet)) + 1;
+  const sheets: AtlasSheet[] = Array.from({ length: sheetCount }, (_, sheet) => {
+    const onSheet = placements.filter(placement => placement.sheet === sheet);
+    const usedWidth = Math.max(...onSheet.map(placement => placement.x + placement.width - padding));
+    const usedHeight = Math.max(...onSheet.map(placement => placement.y + placement.height - padding));
+    return {
+      file: sheetCount === 1 ? `${baseName}_atlas.png` : `${baseName}_atlas_${sheet + 1}.png`,
+      width: nextPowerOfTwo(usedWidth),
+      height: nextPowerOfTwo(usedHeight)
+    };
+  });
+
+  const usedNames = new Set<string>();
+  const usedClasses = new Set<string>();
+  const frames: AtlasFrame[] = crops.map((crop, index) => ({
+    name: getUniqueKey(crop.name, usedNames),
+    className: getUniqueKey(toClassName(crop.name), usedClasses),
+    sheet: placements[index].sheet,
+    x: placements[index].x + extrude,
+    y: placements[index].y + extrude,
+    width: sprites[index].width,
+    height: sprites[index].height
+  }));
+
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  sheets.forEach((sheet, sheetIndex) => {
+    const canvas = createCanvas(sheet.width, sheet.height);
+    const ctx = get2dContext(canvas);
+    placements.forEach((placement, index) => {
+      if (placement.sheet === sheetIndex) drawExtruded(ctx, sprites[index], placement.x, placement.y, extrude);
+    });
+    const sheetFrames = frames.filter(frame => frame.sheet === sheetIndex);
+    entries.push(
+      { name: sheet.file, data: dataUrlToBytes(canvasToDataUrl(canvas, 'png', 1)) },
+      { name: sheet.file.replace(/\.png$/, '.json'), data: encoder.encode(buildAtlasJson(sheetFrames, sheet)) }
+    );
+  });
+  entries.push({ name: `${baseName}_sprites.css`, data: encoder.encode(buildSpriteCss(frames, sheets)) });
+
+  return { entries, sheets };
+};
@@ -0,0 +1,97 @@
+import { createCanvas, get2dContext } from './resample';
+
+export type SourceImage = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export const getSourceSize = (image: SourceImage) => {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+};
+
+// Fill the canvas with a heavily blurred copy of the whole image, scaled to
+// cover it. Shrinking to a few pixels and scaling back up blurs without
+// relying on ctx.filter, which not every browser supports.
+export const drawBlurredBackdrop = (ctx: CanvasRenderingContext2D, image: SourceImage, width: number, height: number) => {
+  const source = getSourceSize(image);
+  const scale = Math.max(width / source.width, height / source.height);
+  const coverWidth = source.width * scale;
+  const coverHeight = source.height * scale;
+
+  const shrink = 24 / Math.max(width, height);
+  const small = createCanvas(Math.max(1, Math.round(width * shrink)), Math.max(1, Math.round(height * shrink)));
+  const smallCtx = get2dContext(small);
+  smallCtx.imageSmoothingQuality = 'high';
+  smallCtx.drawImage(
+    image,
+    ((width - coverWidth) / 2) * shrink,
+    ((height - coverHeight) / 2) * shrink,
+    coverWidth * shrink,
+    coverHeight * shrink
+  );
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(small, 0, 0, width, height);
+  ctx.restore();
+};
+
+// Replace every pixel the coverage mask marks as not fully covered with the
+// nearest covered pixel: first along its row, then whole rows are copied
+// into rows that have no coverage at all. Returns the filled pixels; the
+// caller draws the original content back on top to keep antialiased edges.
+export const extendEdges = (content: HTMLCanvasElement, coverage: HTMLCanvasElement): ImageData => {
+  const { width, height } = content;
+  const output = get2dContext(content).getImageData(0, 0, width, height);
+  const data = output.data;
+  const mask = get2dContext(coverage).getImageData(0, 0, width, height).data;
+  const covered = (index: number) => mask[index * 4 + 3] === 255;
+  const copyPixel = (from: number, to: number) => {
+    for (let channel = 0; channel < 4; channel++) data[to * 4 + channel] = data[from * 4 + channel];
+  };
+
+  const rowHasCoverage = new Uint8Array(height);
+  const nearest = new Int32Array(width);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let previous = -1;
+    for (let x = 0; x < width; x++) {
+      if (covered(row + x)) previous = x;
+      nearest[x] = previous;
+    }
+    if (previous === -1) continue;
+    rowHasCoverage[y] = 1;
+
+    let next = -1;
+    for (let x = width - 1; x >= 0; x--) {
+      if (covered(row + x)) {
+        next = x;
+        continue;
+      }
+      const before = nearest[x];
+      const source = before === -1 || (next !== -1 && next - x < x - before) ? next : before;
+      copyPixel(row + source, row + x);
+    }
+  }
+
+  // Rows without any coverage take the closest covered row
+  let lastCovered = -1;
+  const nearestRow = new Int32Array(height);
+  for (let y = 0; y < height; y++) {
+    if (rowHasCoverage[y]) lastCovered = y;
+    nearestRow[y] = lastCovered;
+  }
+  let nextCovered = -1;
+  for (let y = height - 1; y >= 0; y--) {
+    if (rowHasCoverage[y]) {
+      nextCovered = y;
+      continue;
+    }
+    const before = nearestRow[y];
+    const source = before === -1 || (nextCovered !== -1 && nextCovered - y < y - before) ? nextCovered : before;
+    if (source === -1) continue;
+    data.copyWithin(y * width * 4, source * width * 4, (source + 1) * width * 4);
+  }
+
+  return output;
+};
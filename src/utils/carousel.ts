@@ -0,0 +1,107 @@
+import { CropArea } from '../App';
+
+export interface CarouselPreset {
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface CarouselRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CarouselLayout {
+  x: number;
+  y: number;
+  panelWidth: number;
+  panelHeight: number;
+  panels: number;
+}
+
+export const CAROUSEL_PRESETS: CarouselPreset[] = [
+  { label: 'Portrait 4:5', width: 1080, height: 1350 },
+  { label: 'Square 1:1', width: 1080, height: 1080 },
+  { label: 'Landscape 1.91:1', width: 1080, height: 566 },
+  { label: 'Story 9:16', width: 1080, height: 1920 }
+];
+
+export const MAX_CAROUSEL_PANELS = 20;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Clip a region to the image so no panel samples outside it
+export const clampRegion = (region: CarouselRegion, imageWidth: number, imageHeight: number): CarouselRegion => {
+  const x = Math.max(0, Math.round(region.x));
+  const y = Math.max(0, Math.round(region.y));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(imageWidth, Math.round(region.x + region.width)) - x),
+    height: Math.max(0, Math.min(imageHeight, Math.round(region.y + region.height)) - y)
+  };
+};
+
+// The largest strip of equal panels that fits the region, centred in it.
+// Panel sizes are whole pixels. An exact multiple of the reduced ratio is
+// preferred, so every panel has precisely that ratio, unless that would
+// waste more than a couple of percent of the region (e.g. 540:283 steps).
+export const getCarouselLayout = (
+  region: CarouselRegion,
+  panels: number,
+  ratioWidth: number,
+  ratioHeight: number
+): CarouselLayout | null => {
+  if (panels < 1 || ratioWidth <= 0 || ratioHeight <= 0) return null;
+
+  const divisor = gcd(Math.round(ratioWidth), Math.round(ratioHeight)) || 1;
+  const unitWidth = Math.round(ratioWidth) / divisor;
+  const unitHeight = Math.round(ratioHeight) / divisor;
+  const units = Math.floor(Math.min(region.width / panels / unitWidth, region.height / unitHeight));
+
+  const aspect = ratioWidth / ratioHeight;
+  let panelWidth = Math.floor(Math.min(region.width / panels, region.height * aspect));
+  let panelHeight = Math.min(Math.floor(region.height), Math.round(panelWidth / aspect));
+  if (units >= 1 && units * unitWidth >= panelWidth * 0.98) {
+    panelWidth = units * unitWidth;
+    panelHeight = units * unitHeight;
+  }
+  if (panelWidth < 1 || panelHeight < 1) return null;
+
+  return {
+    x: region.x + Math.floor((region.width - panelWidth * panels) / 2),
+    y: region.y + Math.floor((region.height - panelHeight) / 2),
+    panelWidth,
+    panelHeight,
+    panels
+  };
+};
+
+// Panels as one linked grid row, named so they sort in swipe order
+export const buildCarouselCrops = (
+  layout: CarouselLayout,
+  firstZIndex: number,
+  outputSize: { width: number; height: number } | null
+): CropArea[] => {
+  const stamp = Date.now();
+  const gridId = `grid-${stamp}`;
+  const digits = String(layout.panels).length;
+
+  return Array.from({ length: layout.panels }, (_, index) => ({
+    id: `grid-crop-${stamp}-0-${index}`,
+    x: layout.x + index * layout.panelWidth,
+    y: layout.y,
+    width: layout.panelWidth,
+    height: layout.panelHeight,
+    aspectRatio: layout.panelWidth / layout.panelHeight,
+    rotation: 0,
+    name: `Carousel_${String(index + 1).padStart(Math.max(2, digits), '0')}`,
+    gridId,
+    gridPosition: { row: 0, col: index },
+    visible: true,
+    zIndex: firstZIndex + index,
+    outputSize: outputSize ? { ...outputSize } : undefined
+  }));
+};
@@ -0,0 +1,86 @@
+import { CropArea, ExportSettings } from '../App';
+import { renderCrop } from './cropRenderer';
+import { isImageFile } from './imageLoader';
+
+// Browsers put links dragged from a page in text/uri-list; pasted ones arrive
+// as plain text
+export const getTransferImageUrl = (data: DataTransfer): string | null => {
+  const text = (data.getData('text/uri-list') || data.getData('text/plain')).trim();
+  const url = text.split(/\r?\n/).find(line => line && !line.startsWith('#'))?.trim();
+  if (!url) return null;
+  return /^data:image\//i.test(url) || /^https?:\/\/\S+$/i.test(url) ? url : null;
+};
+
+const getUrlFileName = (url: string, type: string) => {
+  const extension = type.split('/')[1]?.replace('jpeg', 'jpg').replace(/\+.*$/, '') || 'png';
+  if (url.startsWith('data:')) return `pasted-image.${extension}`;
+  const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  return /\.[a-z0-9]+$/i.test(name) ? name : `${name || 'image'}.${extension}`;
+};
+
+// The image behind a URL or data URI as a file, so it goes through the same
+// path as a picked one. Other sites only allow this when they send CORS headers.
+export const fetchImageFile = async (url: string): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new Error('The image could not be downloaded. The site may not allow it; save the image and open the file instead.');
+  }
+  if (!response.ok) throw new Error(`The image could not be downloaded (HTTP ${response.status})`);
+
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) throw new Error('The link does not point to an image');
+  return new File([blob], getUrlFileName(url, blob.type), { type: blob.type });
+};
+
+// Image files from a paste or drop; a link or data URI is fetched when there
+// are none. Screenshots arrive as image items rather than files in some browsers.
+export const readTransferFiles = async (data: DataTransfer): Promise<File[]> => {
+  const files = Array.from(data.files);
+  if (files.length === 0) {
+    Array.from(data.items).forEach(item => {
+      const file = item.kind === 'file' ? item.getAsFile() : null;
+      if (file) files.push(file);
+    });
+  }
+  if (files.length > 0) return files;
+
+  const url = getTransferImageUrl(data);
+  return url ? [await fetchImageFile(url)] : [];
+};
+
+const IMAGE_EXTENSION_PATTERN = /\.(avif|bmp|gif|ico|jpe?g|png|svg|tiff?|webp)$/i;
+
+// Data URIs and links ending in an image file name. Other links may still
+// serve an image, which only its content type tells.
+const isImageLink = (url: string | null) => {
+  if (!url) return false;
+  if (url.startsWith('data:')) return true;
+  try {
+    return IMAGE_EXTENSION_PATTERN.test(new URL(url).pathname);
+  } catch {
+    return false;
+  }
+};
+
+export const hasTransferImage = (data: DataTransfer) =>
+  Array.from(data.items).some(item => item.kind === 'file' && item.type.startsWith('image/')) ||
+  Array.from(data.files).some(isImageFile) ||
+  isImageLink(getTransferImageUrl(data));
+
+export const canCopyImages = () => typeof ClipboardItem !== 'undefined' && !!navigator.clipboard?.write;
+
+// Clipboards only take PNG images, whatever the export format. The blob is
+// handed over as a promise so Safari still counts the copy as user-initiated.
+export const copyCropToClipboard = async (image: HTMLImageElement, crop: CropArea, settings: ExportSettings) => {
+  if (!canCopyImages()) throw new Error('This browser cannot copy images to the clipboard');
+
+  const png = new Promise<Blob>((resolve, reject) => {
+    renderCrop(image, crop, settings).toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error('The crop could not be encoded'));
+    }, 'image/png');
+  });
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+};
@@ -0,0 +1,190 @@
+import { CropArea, ExportSettings } from '../App';
+import { canvasToDataUrl, getCropOutputSize, renderCropRegion } from './cropRenderer';
+import { createCanvas, get2dContext, resampleCanvas, yieldToBrowser } from './resample';
+import { SourceImage, getSourceSize } from './background';
+import { getCropCorners } from './annotations';
+import { dataUrlToBytes } from './zip';
+import {
+  PAGE_SIZES,
+  PdfColor,
+  PdfImage,
+  PdfPage,
+  createPdf,
+  createPdfPage,
+  drawImage,
+  drawPolygon,
+  drawRect,
+  drawText,
+  fitText,
+  measureText,
+  mmToPoints
+} from './pdf';
+
+type SheetSettings = Pick<ExportSettings, 'contactSheet' | 'resize' | 'rotatedOutput' | 'background' | 'resampling'>;
+
+const IMAGE_DPI = 150; // Print resolution of the embedded images
+const JPEG_QUALITY = 0.85;
+const HEADER_HEIGHT = 30;
+const FOOTER_HEIGHT = 18;
+const LABEL_HEIGHT = 26;
+const GAP = 10;
+const MIN_CONTENT_SIZE = 72;
+
+const TEXT_COLOR: PdfColor = [0.1, 0.1, 0.1];
+const MUTED_COLOR: PdfColor = [0.45, 0.45, 0.45];
+const CELL_COLOR: PdfColor = [0.94, 0.94, 0.94];
+const RULE_COLOR: PdfColor = [0.8, 0.8, 0.8];
+const OUTLINE_COLOR: PdfColor = [0.15, 0.45, 0.95];
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// "16:9" when the ratio reduces to small numbers, "1.78:1" otherwise
+export const formatAspectRatio = (width: number, height: number): string => {
+  if (width <= 0 || height <= 0) return '-';
+  const divisor = gcd(width, height);
+  const ratioWidth = width / divisor;
+  const ratioHeight = height / divisor;
+  return ratioWidth <= 32 && ratioHeight <= 32 ? `${ratioWidth}:${ratioHeight}` : `${(width / height).toFixed(2)}:1`;
+};
+
+const fitInto = (width: number, height: number, boxWidth: number, boxHeight: number) => {
+  const scale = Math.min(boxWidth / width, boxHeight / height);
+  return { width: width * scale, height: height * scale };
+};
+
+// Pixels needed to print at the given size, never more than the source has
+const getPrintPixels = (width: number, height: number, printWidth: number, printHeight: number) => {
+  const scale = Math.min(1, (printWidth * IMAGE_DPI) / 72 / width, (printHeight * IMAGE_DPI) / 72 / height);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const toPdfImage = (canvas: HTMLCanvasElement): PdfImage => ({
+  data: dataUrlToBytes(canvasToDataUrl(canvas, 'jpeg', JPEG_QUALITY)),
+  width: canvas.width,
+  height: canvas.height
+});
+
+const getPageSize = (settings: ExportSettings['contactSheet']) => {
+  const { width, height } = PAGE_SIZES[settings.pageSize];
+  return settings.orientation === 'landscape' ? { width: height, height: width } : { width, height };
+};
+
+const drawOverview = (
+  page: PdfPage,
+  image: SourceImage,
+  crops: CropArea[],
+  area: { x: number; y: number; width: number; height: number }
+) => {
+  const source = getSourceSize(image);
+  const placed = fitInto(source.width, source.height, area.width, area.height);
+  const left = area.x + (area.width - placed.width) / 2;
+  const top = area.y;
+  const scale = placed.width / source.width;
+
+  const pixels = getPrintPixels(source.width, source.height, placed.width, placed.height);
+  const canvas = createCanvas(pixels.width, pixels.height);
+  const ctx = get2dContext(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, pixels.width, pixels.height);
+  drawImage(page, toPdfImage(canvas), left, top, placed.width, placed.height);
+
+  crops.forEach(crop => {
+    const corners = getCropCorners(crop).map(point => ({ x: left + point.x * scale, y: top + point.y * scale }));
+    drawPolygon(page, corners, { stroke: OUTLINE_COLOR, lineWidth: 1 });
+    drawText(page, fitText(crop.name, Math.max(20, crop.width * scale - 4), 7, true), corners[0].x + 2, corners[0].y + 8, {
+      size: 7,
+      bold: true,
+      color: OUTLINE_COLOR
+    });
+  });
+};
+
+// Lay out every visible crop as a labelled thumbnail, optionally after an
+// overview page of the source, and write the pages as a PDF
+export const buildContactSheet = async (
+  image: SourceImage,
+  cropAreas: CropArea[],
+  settings: SheetSettings,
+  sourceName: string | null,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const crops = cropAreas.filter(crop => crop.visible !== false);
+  if (crops.length === 0) throw new Error('There are no visible crops to put on the sheet');
+
+  const sheet = settings.contactSheet;
+  const page = getPageSize(sheet);
+  const margin = mmToPoints(sheet.margin);
+  const contentWidth = page.width - margin * 2;
+  const contentTop = margin + HEADER_HEIGHT;
+  const contentHeight = page.height - margin * 2 - HEADER_HEIGHT - FOOTER_HEIGHT;
+  if (contentWidth < MIN_CONTENT_SIZE || contentHeight < MIN_CONTENT_SIZE) {
+    throw new Error('The margins leave no room on the page');
+  }
+
+  const columns = Math.max(1, Math.round(sheet.columns));
+  const cellWidth = (contentWidth - GAP * (columns - 1)) / columns;
+  if (cellWidth < 24) throw new Error('Too many columns for the page width');
+  const thumbnailHeight = Math.min(cellWidth * 0.75, contentHeight - LABEL_HEIGHT);
+  const rowHeight = thumbnailHeight + LABEL_HEIGHT;
+  const rows = Math.max(1, Math.floor((contentHeight + GAP) / (rowHeight + GAP)));
+  const perPage = rows * columns;
+
+  const pages: PdfPage[] = [];
+  if (sheet.includeOverview) {
+    const overview = createPdfPage(page.width, page.height);
+    drawOverview(overview, image, crops, { x: margin, y: contentTop, width: contentWidth, height: contentHeight });
+    pages.push(overview);
+  }
+
+  for (const [index, crop] of crops.entries()) {
+    const slot = index % perPage;
+    if (slot === 0) pages.push(createPdfPage(page.width, page.height));
+    const current = pages[pages.length - 1];
+    const x = margin + (slot % columns) * (cellWidth + GAP);
+    const y = contentTop + Math.floor(slot / columns) * (rowHeight + GAP);
+
+    drawRect(current, x, y, cellWidth, thumbnailHeight, { fill: CELL_COLOR });
+    const region = renderCropRegion(image, crop, settings);
+    const placed = fitInto(region.width, region.height, cellWidth, thumbnailHeight);
+    const pixels = getPrintPixels(region.width, region.height, placed.width, placed.height);
+    const thumbnail = resampleCanvas(region, pixels.width, pixels.height, settings.resampling);
+    drawImage(
+      current,
+      toPdfImage(thumbnail),
+      x + (cellWidth - placed.width) / 2,
+      y + (thumbnailHeight - placed.height) / 2,
+      placed.width,
+      placed.height
+    );
+
+    const output = getCropOutputSize(crop, settings);
+    const details = `${output.width} × ${output.height} px · ${formatAspectRatio(output.width, output.height)}`;
+    drawText(current, fitText(crop.name, cellWidth, 8, true), x, y + thumbnailHeight + 11, { size: 8, bold: true, color: TEXT_COLOR });
+    drawText(current, fitText(details, cellWidth, 7), x, y + thumbnailHeight + 21, { size: 7, color: MUTED_COLOR });
+
+    onProgress?.(index + 1, crops.length);
+    await yieldToBrowser();
+  }
+
+  // Headers and page numbers once the page count is known
+  const title = sheet.header.trim() || sourceName || 'Contact sheet';
+  const summary = `${crops.length} ${crops.length === 1 ? 'crop' : 'crops'} · ${new Date().toLocaleDateString()}`;
+  const summaryWidth = measureText(summary, 8);
+  pages.forEach((current, index) => {
+    drawText(current, fitText(title, contentWidth - summaryWidth - GAP, 13, true), margin, margin + 14, {
+      size: 13,
+      bold: true,
+      color: TEXT_COLOR
+    });
+    drawText(current, summary, page.width - margin - summaryWidth, margin + 14, { size: 8, color: MUTED_COLOR });
+    drawRect(current, margin, margin + 20, contentWidth, 0.5, { fill: RULE_COLOR });
+
+    const footer = `Page ${index + 1} of ${pages.length}`;
+    drawText(current, footer, (page.width - measureText(footer, 8)) / 2, page.height - margin - 4, {
+      size: 8,
+      color: MUTED_COLOR
+    });
+  });
+
+  return createPdf(pages, { title });
+};
@@ -0,0 +1,153 @@
+import { CropArea, ExportSettings, QueuedImage } from '../App';
+import { getCropRegionSize, renderCropRegion, resizeRegion } from './cropRenderer';
+import { EncodedImage, encodeForExport } from './targetSize';
+import { encodeTiledPng } from './tiledExport';
+import { AnimatedImage, encodeAnimatedCrop, readAnimation } from './animation';
+import { fitsInCanvas, yieldToBrowser } from './resample';
+import { MetadataPayload, buildMetadataPayload, readImageMetadata } from './metadata';
+import { getExportFileNames, getUniqueFileName, replaceFileExtension } from './fileNames';
+import { ExportedCrop, ExportedVariant, addFileNameSuffix, getVariantSpecs } from './responsiveVariants';
+import { ManifestSource, buildCsvManifest, buildJsonManifest } from './manifest';
+import { isIdentityOrientation, renderOrientedImage } from './orientation';
+import { ZipEntry, dataUrlToBytes } from './zip';
+import { getSourceBaseName } from './videoFrames';
+
+export interface ExportFile {
+  name: string;
+  dataUrl: string;
+}
+
+// Render each crop once at source resolution, then scale it to every
+// requested size variant. Crops beyond the browser's canvas limits are
+// rendered straight at each variant's size, in strips when even that is too big.
+// Crops of an animation become animated files unless stills were chosen.
+export const renderCropFiles = async (
+  image: HTMLImageElement,
+  crops: CropArea[],
+  settings: ExportSettings,
+  imageName: string | null,
+  metadata: MetadataPayload | null,
+  animation: AnimatedImage | null,
+  usedNames: Set<string>,
+  onProgress?: (done: number, total: number) => void
+) => {
+  const fileNames = getExportFileNames(crops, settings, imageName);
+  const files: ExportFile[] = [];
+  const exported: ExportedCrop[] = [];
+  const overBudget: string[] = [];
+
+  const animated = animation && settings.animationFormat !== 'still' ? animation : null;
+
+  for (const [index, crop] of crops.entries()) {
+    const region = !animated && fitsInCanvas(getCropRegionSize(crop, settings)) ? renderCropRegion(image, crop, settings) : null;
+    const variants: ExportedVariant[] = [];
+    for (const spec of getVariantSpecs(crop, settings)) {
+      let encoded: EncodedImage;
+      let format: ExportedVariant['format'] = settings.format;
+      let fileName = addFileNameSuffix(fileNames[index].fileName, spec.suffix);
+      if (animated) {
+        encoded = await encodeAnimatedCrop(animated, crop, settings, spec);
+        format = settings.animationFormat === 'webp' ? 'webp' : 'gif';
+        fileName = replaceFileExtension(fileName, format);
+      } else if (!fitsInCanvas(spec)) {
+        encoded = await encodeTiledPng(image, crop, settings, spec);
+        format = 'png';
+        fileName = replaceFileExtension(fileName, format);
+      } else {
+        const source = region || renderCropRegion(image, crop, settings, { ...spec, top: 0, rows: spec.height });
+        encoded = encodeForExport(resizeRegion(source, spec, settings), settings, metadata);
+      }
+      const file = getUniqueFileName(fileName, usedNames);
+      files.push({ name: file, dataUrl: encoded.dataUrl });
+      if (!encoded.withinTarget) overBudget.push(file);
+      variants.push({
+        file,
+        // A target size may have scaled the image below the requested size
+        width: encoded.width,
+        height: encoded.height,
+        descriptor: spec.descriptor,
+        bytes: encoded.bytes,
+        format,
+        quality: encoded.quality
+      });
+    }
+    exported.push({ crop, variants });
+    onProgress?.(index + 1, crops.length);
+    await yieldToBrowser();
+  }
+
+  return { files, exported, overBudget };
+};
+
+export const buildManifestFiles = (
+  exported: ExportedCrop[],
+  source: ManifestSource,
+  settings: ExportSettings,
+  usedNames: Set<string>
+) => {
+  const files: { name: string; text: string; type: string }[] = [];
+  if (settings.manifestFormat !== 'csv') {
+    files.push({
+      name: getUniqueFileName('manifest.json', usedNames),
+      text: buildJsonManifest(exported, source),
+      type: 'application/json'
+    });
+  }
+  if (settings.manifestFormat !== 'json') {
+    files.push({
+      name: getUniqueFileName('manifest.csv', usedNames),
+      text: buildCsvManifest(exported, source),
+      type: 'text/csv'
+    });
+  }
+  return files;
+};
+
+const getFolderName = (name: string | null, index: number) => {
+  const base = (getSourceBaseName(name) || `image_${index + 1}`).replace(/[^a-z0-9]/gi, '_').toLowerCase();
+  return base || `image_${index + 1}`;
+};
+
+// Every crop of every queued image, one folder per image. Images are turned
+// and decoded one at a time so a long queue never holds them all at once.
+export const buildBatchEntries = async (
+  queue: QueuedImage[],
+  settings: ExportSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<ZipEntry[]> => {
+  const entries: ZipEntry[] = [];
+  const folders = new Set<string>();
+  const encoder = new TextEncoder();
+  const total = queue.reduce((count, item) => count + item.cropAreas.length, 0);
+  let done = 0;
+
+  for (const [index, item] of queue.entries()) {
+    if (item.cropAreas.length === 0) continue;
+
+    const folder = getUniqueFileName(getFolderName(item.name, index), folders);
+    const image = await renderOrientedImage(item.image, item.orientation);
+    try {
+      const metadata = buildMetadataPayload(await readImageMetadata(item.sourceUrl), settings.metadata);
+      // Animation frames are never turned, as in the editor
+      const animated = settings.animationFormat !== 'still' && isIdentityOrientation(item.orientation);
+      const animation = animated ? await readAnimation(item.imageUrl) : null;
+      const usedNames = new Set<string>();
+      const { files, exported } = await renderCropFiles(image, item.cropAreas, settings, item.name, metadata, animation, usedNames, count => {
+        onProgress?.(done + count, total);
+      });
+      done += item.cropAreas.length;
+
+      entries.push(...files.map(({ name, dataUrl }) => ({ name: `${folder}/${name}`, data: dataUrlToBytes(dataUrl) })));
+      if (settings.includeManifest || settings.variants.enabled) {
+        const source = { file: item.name, width: image.naturalWidth, height: image.naturalHeight };
+        buildManifestFiles(exported, source, settings, usedNames).forEach(({ name, text }) => {
+          entries.push({ name: `${folder}/${name}`, data: encoder.encode(text) });
+        });
+      }
+    } finally {
+      if (image !== item.image) URL.revokeObjectURL(image.src);
+    }
+  }
+
+  return entries;
+};
@@ -0,0 +1,244 @@
+import { CropArea, ExportSettings, ResizeSettings } from '../App';
+import { getMimeType } from './exportSettings';
+import { createCanvas, fitsInCanvas, get2dContext, resampleCanvas, sharpenCanvas } from './resample';
+import { SourceImage, drawBlurredBackdrop, extendEdges, getSourceSize } from './background';
+
+type Size = { width: number; height: number };
+
+// Final pixel size for a source of the given size under the resize settings
+export const getOutputSize = (width: number, height: number, resize: ResizeSettings): Size => {
+  let factorX = 1;
+  let factorY = 1;
+
+  switch (resize.mode) {
+    case 'exact':
+      // A zero dimension follows the other one to keep the aspect ratio
+      if (resize.width > 0 && resize.height > 0) {
+        factorX = resize.width / width;
+        factorY = resize.height / height;
+      } else if (resize.width > 0) {
+        factorX = factorY = resize.width / width;
+      } else if (resize.height > 0) {
+        factorX = factorY = resize.height / height;
+      }
+      break;
+    case 'fit': {
+      // Shrink to fit inside the box, never enlarge
+      const limits = [1];
+      if (resize.width > 0) limits.push(resize.width / width);
+      if (resize.height > 0) limits.push(resize.height / height);
+      factorX = factorY = Math.min(...limits);
+      break;
+    }
+    case 'scale':
+      if (resize.scale > 0) factorX = factorY = resize.scale / 100;
+      break;
+    case 'longest-edge':
+      if (resize.longestEdge > 0) factorX = factorY = resize.longestEdge / Math.max(width, height);
+      break;
+  }
+
+  return {
+    width: Math.max(1, Math.round(width * factorX)),
+    height: Math.max(1, Math.round(height * factorY))
+  };
+};
+
+// Largest upright rectangle that fits inside a width x height rectangle
+// rotated by the given angle
+const getInsetSize = (width: number, height: number, radians: number): Size => {
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const widthIsLonger = width >= height;
+  const longSide = widthIsLonger ? width : height;
+  const shortSide = widthIsLonger ? height : width;
+
+  if (shortSide <= 2 * sin * cos * longSide || Math.abs(sin - cos) < 1e-10) {
+    // Two corners of the inset touch the long sides only
+    const half = shortSide / 2;
+    return widthIsLonger
+      ? { width: half / sin, height: half / cos }
+      : { width: half / cos, height: half / sin };
+  }
+
+  const cos2a = cos * cos - sin * sin;
+  return {
+    width: (width * cos - height * sin) / cos2a,
+    height: (height * cos - width * sin) / cos2a
+  };
+};
+
+// Pixel size of the rendered region, before any resizing
+export const getCropRegionSize = (crop: CropArea, settings: Pick<ExportSettings, 'rotatedOutput'>): Size => {
+  const radians = ((crop.rotation || 0) * Math.PI) / 180;
+  let size: Size = { width: crop.width, height: crop.height };
+
+  if (radians !== 0 && settings.rotatedOutput === 'bounding-box') {
+    const sin = Math.abs(Math.sin(radians));
+    const cos = Math.abs(Math.cos(radians));
+    size = {
+      width: crop.width * cos + crop.height * sin,
+      height: crop.width * sin + crop.height * cos
+    };
+  } else if (radians !== 0 && settings.rotatedOutput === 'inset') {
+    size = getInsetSize(crop.width, crop.height, radians);
+  }
+
+  return {
+    width: Math.max(1, Math.round(size.width)),
+    height: Math.max(1, Math.round(size.height))
+  };
+};
+
+export const getCropOutputSize = (crop: CropArea, settings: Pick<ExportSettings, 'resize' | 'rotatedOutput'>): Size => {
+  if (crop.outputSize) return { ...crop.outputSize };
+  const region = getCropRegionSize(crop, settings);
+  return getOutputSize(region.width, region.height, settings.resize);
+};
+
+// A fixed output size follows its crop's shape: it stays while the crop keeps
+// its ratio, otherwise its width is kept and the height follows the crop
+export const fitOutputSize = (crop: CropArea): CropArea => {
+  const { outputSize } = crop;
+  if (!outputSize) return crop;
+  const height = Math.max(1, Math.round((outputSize.width * crop.height) / crop.width));
+  return Math.abs(height - outputSize.height) <= 1 ? crop : { ...crop, outputSize: { width: outputSize.width, height } };
+};
+
+type RegionSettings = Pick<ExportSettings, 'rotatedOutput' | 'background'>;
+
+// Rows top..top + rows of the region scaled to width × height, for regions
+// too large to render onto one canvas
+export interface RegionStrip {
+  width: number;
+  height: number;
+  top: number;
+  rows: number;
+}
+
+// Map source pixels into a region of the given size. The region is centred
+// on the crop, so every mode only differs in its size and in how the source
+// is transformed.
+const drawRegion = (
+  ctx: CanvasRenderingContext2D,
+  crop: CropArea,
+  settings: RegionSettings,
+  { width, height }: Size,
+  paint: (ctx: CanvasRenderingContext2D) => void
+) => {
+  const radians = ((crop.rotation || 0) * Math.PI) / 180;
+
+  ctx.save();
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(width / 2, height / 2);
+  if (settings.rotatedOutput === 'straighten') {
+    // Undo the rotation so the outline drawn on the canvas becomes the edges
+    ctx.rotate(-radians);
+  } else if (settings.rotatedOutput === 'bounding-box' && radians !== 0) {
+    // Keep the image upright and leave everything outside the outline empty
+    ctx.rotate(radians);
+    ctx.beginPath();
+    ctx.rect(-crop.width / 2, -crop.height / 2, crop.width, crop.height);
+    ctx.rotate(-radians);
+    ctx.clip();
+  }
+  ctx.translate(-(crop.x + crop.width / 2), -(crop.y + crop.height / 2));
+  paint(ctx);
+  ctx.restore();
+};
+
+// Draw the crop at source resolution over the chosen background, or only a
+// scaled strip of it
+export const renderCropRegion = (
+  image: SourceImage,
+  crop: CropArea,
+  settings: RegionSettings,
+  strip?: RegionStrip
+): HTMLCanvasElement => {
+  const region = getCropRegionSize(crop, settings);
+  const { width, height } = region;
+  const canvas = strip ? createCanvas(strip.width, strip.rows) : createCanvas(width, height);
+  const createContext = (target: HTMLCanvasElement) => {
+    const context = get2dContext(target);
+    if (strip) context.setTransform(strip.width / width, 0, 0, strip.height / height, 0, -strip.top);
+    return context;
+  };
+  const ctx = createContext(canvas);
+  const { background } = settings;
+  const paintImage = (target: CanvasRenderingContext2D) => target.drawImage(image, 0, 0);
+
+  if (background.mode === 'color') {
+    ctx.fillStyle = background.color;
+    ctx.fillRect(0, 0, width, height);
+  } else if (background.mode === 'blur') {
+    drawBlurredBackdrop(ctx, image, width, height);
+  }
+
+  if (background.mode !== 'edge-extend') {
+    drawRegion(ctx, crop, settings, region, paintImage);
+    return canvas;
+  }
+
+  // Edge-extend only fills what lies outside the image or the outline, so
+  // transparent pixels of the source itself stay transparent. A strip can
+  // only extend from the image inside it.
+  const content = createCanvas(canvas.width, canvas.height);
+  drawRegion(createContext(content), crop, settings, region, paintImage);
+  const coverage = createCanvas(canvas.width, canvas.height);
+  drawRegion(createContext(coverage), crop, settings, region, (target) => {
+    const source = getSourceSize(image);
+    target.fillRect(0, 0, source.width, source.height);
+  });
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.putImageData(extendEdges(content, coverage), 0, 0);
+  ctx.drawImage(content, 0, 0);
+  return canvas;
+};
+
+// Scale a rendered region to its final size. The region itself is left
+// untouched so several sizes can be produced from one render.
+export const resizeRegion = (
+  region: HTMLCanvasElement,
+  size: Size,
+  settings: Pick<ExportSettings, 'resampling' | 'sharpen'>
+): HTMLCanvasElement => {
+  let output = resampleCanvas(region, size.width, size.height, settings.resampling);
+  if (settings.sharpen > 0) {
+    if (output === region) {
+      output = document.createElement('canvas');
+      output.width = region.width;
+      output.height = region.height;
+      output.getContext('2d')?.drawImage(region, 0, 0);
+    }
+    sharpenCanvas(output, settings.sharpen);
+  }
+  return output;
+};
+
+// Render a crop exactly as it will be exported: region, resize, sharpening.
+// A region too large for one canvas is drawn straight at the output size.
+export const renderCrop = (
+  image: SourceImage,
+  crop: CropArea,
+  settings: RegionSettings & Pick<ExportSettings, 'resize' | 'resampling' | 'sharpen'>
+): HTMLCanvasElement => {
+  const output = getCropOutputSize(crop, settings);
+  const region = fitsInCanvas(getCropRegionSize(crop, settings))
+    ? renderCropRegion(image, crop, settings)
+    : renderCropRegion(image, crop, settings, { ...output, top: 0, rows: output.height });
+  return resizeRegion(region, output, settings);
+};
+
+export const canvasToDataUrl = (canvas: HTMLCanvasElement, format: ExportSettings['format'], quality: number): string => {
+  if (format === 'jpeg') {
+    // JPEG has no alpha channel; browsers would turn transparent pixels black
+    const flattened = createCanvas(canvas.width, canvas.height);
+    const ctx = get2dContext(flattened);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(canvas, 0, 0);
+    return flattened.toDataURL(getMimeType(format), quality);
+  }
+  return canvas.toDataURL(getMimeType(format), format === 'png' ? undefined : quality);
+};
@@ -0,0 +1,267 @@
+// Reads and writes the TIFF structure inside EXIF blocks. Entries keep their
+// raw bytes and the source byte order, so any tag can be written back
+// unchanged without knowing how to decode it.
+
+import { MetadataField } from '../App';
+
+export interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  data: Uint8Array; // Value bytes in the block's byte order
+}
+
+export interface ExifData {
+  littleEndian: boolean;
+  image: ExifEntry[]; // IFD0
+  photo: ExifEntry[]; // Exif sub-IFD
+  gps: ExifEntry[];
+}
+
+interface TagInfo {
+  label: string;
+  field: MetadataField;
+  format?: 'exposureTime' | 'fNumber' | 'focalLength' | 'flash';
+}
+
+const EXIF_IFD_POINTER = 0x8769;
+export const ORIENTATION_TAG = 0x0112;
+const GPS_IFD_POINTER = 0x8825;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+export const ASCII_TYPE = 2;
+
+// Tags that are written back, by field. Anything else - orientation, pixel
+// dimensions, thumbnails, maker notes - no longer matches the exported
+// pixels or may leak private data, so it is always dropped.
+export const IMAGE_TAGS: Record<number, TagInfo> = {
+  0x010e: { label: 'Description', field: 'description' },
+  0x010f: { label: 'Camera make', field: 'camera' },
+  0x0110: { label: 'Camera model', field: 'camera' },
+  0x0131: { label: 'Software', field: 'software' },
+  0x0132: { label: 'Modified', field: 'captureDate' },
+  0x013b: { label: 'Artist', field: 'copyright' },
+  0x8298: { label: 'Copyright', field: 'copyright' }
+};
+
+export const PHOTO_TAGS: Record<number, TagInfo> = {
+  0x829a: { label: 'Exposure time', field: 'exposure', format: 'exposureTime' },
+  0x829d: { label: 'Aperture', field: 'exposure', format: 'fNumber' },
+  0x8822: { label: 'Exposure program', field: 'exposure' },
+  0x8827: { label: 'ISO', field: 'exposure' },
+  0x9003: { label: 'Taken', field: 'captureDate' },
+  0x9004: { label: 'Digitized', field: 'captureDate' },
+  0x9010: { label: 'Time zone', field: 'captureDate' },
+  0x9011: { label: 'Time zone (taken)', field: 'captureDate' },
+  0x9012: { label: 'Time zone (digitized)', field: 'captureDate' },
+  0x9201: { label: 'Shutter speed value', field: 'exposure' },
+  0x9202: { label: 'Aperture value', field: 'exposure' },
+  0x9204: { label: 'Exposure bias', field: 'exposure' },
+  0x9207: { label: 'Metering mode', field: 'exposure' },
+  0x9209: { label: 'Flash', field: 'exposure', format: 'flash' },
+  0x920a: { label: 'Focal length', field: 'exposure', format: 'focalLength' },
+  0x9286: { label: 'User comment', field: 'description' },
+  0x9290: { label: 'Subseconds', field: 'captureDate' },
+  0x9291: { label: 'Subseconds (taken)', field: 'captureDate' },
+  0x9292: { label: 'Subseconds (digitized)', field: 'captureDate' },
+  0xa402: { label: 'Exposure mode', field: 'exposure' },
+  0xa403: { label: 'White balance', field: 'exposure' },
+  0xa405: { label: 'Focal length (35mm)', field: 'exposure', format: 'focalLength' },
+  0xa431: { label: 'Body serial number', field: 'camera' },
+  0xa432: { label: 'Lens specification', field: 'camera' },
+  0xa433: { label: 'Lens make', field: 'camera' },
+  0xa434: { label: 'Lens model', field: 'camera' },
+  0xa435: { label: 'Lens serial number', field: 'camera' }
+};
+
+const readUint = (view: DataView, offset: number, size: number, littleEndian: boolean) => {
+  return size === 2 ? view.getUint16(offset, littleEndian) : view.getUint32(offset, littleEndian);
+};
+
+const readIfd = (view: DataView, offset: number, littleEndian: boolean) => {
+  const entries: ExifEntry[] = [];
+  const pointers: Record<number, number> = {};
+  if (offset + 2 > view.byteLength) return { entries, pointers };
+
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entryOffset = offset + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) break;
+    const tag = view.getUint16(entryOffset, littleEndian);
+    const type = view.getUint16(entryOffset + 2, littleEndian);
+    const valueCount = view.getUint32(entryOffset + 4, littleEndian);
+    const size = (TYPE_SIZES[type] || 0) * valueCount;
+    if (size === 0) continue;
+
+    const dataOffset = size <= 4 ? entryOffset + 8 : view.getUint32(entryOffset + 8, littleEndian);
+    if (dataOffset + size > view.byteLength) continue;
+    if (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER) {
+      pointers[tag] = readUint(view, dataOffset, type === 3 ? 2 : 4, littleEndian);
+      continue;
+    }
+    entries.push({
+      tag,
+      type,
+      count: valueCount,
+      data: new Uint8Array(view.buffer.slice(view.byteOffset + dataOffset, view.byteOffset + dataOffset + size))
+    });
+  }
+  return { entries, pointers };
+};
+
+// The TIFF block that follows "Exif\0\0"
+export const parseExif = (tiff: Uint8Array): ExifData | null => {
+  if (tiff.length < 8) return null;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const image = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+  const photoOffset = image.pointers[EXIF_IFD_POINTER];
+  const gpsOffset = image.pointers[GPS_IFD_POINTER];
+  return {
+    littleEndian,
+    image: image.entries,
+    photo: photoOffset ? readIfd(view, photoOffset, littleEndian).entries : [],
+    gps: gpsOffset ? readIfd(view, gpsOffset, littleEndian).entries : []
+  };
+};
+
+const getNumbers = (entry: ExifEntry, littleEndian: boolean): number[] => {
+  const view = new DataView(entry.data.buffer, entry.data.byteOffset, entry.data.byteLength);
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    switch (entry.type) {
+      case 1: case 7: values.push(view.getUint8(i)); break;
+      case 6: values.push(view.getInt8(i)); break;
+      case 3: values.push(view.getUint16(i * 2, littleEndian)); break;
+      case 8: values.push(view.getInt16(i * 2, littleEndian)); break;
+      case 4: values.push(view.getUint32(i * 4, littleEndian)); break;
+      case 9: values.push(view.getInt32(i * 4, littleEndian)); break;
+      case 5: values.push(view.getUint32(i * 8, littleEndian) / (view.getUint32(i * 8 + 4, littleEndian) || 1)); break;
+      case 10: values.push(view.getInt32(i * 8, littleEndian) / (view.getInt32(i * 8 + 4, littleEndian) || 1)); break;
+      case 11: values.push(view.getFloat32(i * 4, littleEndian)); break;
+      case 12: values.push(view.getFloat64(i * 8, littleEndian)); break;
+    }
+  }
+  return values;
+};
+
+export const getExifText = (entry: ExifEntry): string => {
+  // UserComment starts with an 8-byte character code
+  const bytes = entry.type === 7 && entry.data.length > 8 ? entry.data.subarray(8) : entry.data;
+  return new TextDecoder().decode(bytes).replace(/\0+$/, '').trim();
+};
+
+const formatNumber = (value: number) => String(Number(value.toFixed(2)));
+
+export const describeExifEntry = (entry: ExifEntry, info: TagInfo, littleEndian: boolean): string => {
+  if (entry.type === ASCII_TYPE || entry.tag === 0x9286) return getExifText(entry);
+
+  const numbers = getNumbers(entry, littleEndian);
+  switch (info.format) {
+    case 'exposureTime':
+      return numbers[0] > 0 && numbers[0] < 1 ? `1/${Math.round(1 / numbers[0])} s` : `${formatNumber(numbers[0])} s`;
+    case 'fNumber':
+      return `f/${formatNumber(numbers[0])}`;
+    case 'focalLength':
+      return `${formatNumber(numbers[0])} mm`;
+    case 'flash':
+      return numbers[0] & 1 ? 'Fired' : 'Did not fire';
+    default:
+      return numbers.slice(0, 8).map(formatNumber).join(', ');
+  }
+};
+
+// Decimal degrees and metres from the GPS sub-IFD
+export const getGpsPosition = (exif: ExifData) => {
+  const find = (tag: number) => exif.gps.find(entry => entry.tag === tag);
+  const toDegrees = (entry: ExifEntry | undefined, ref: ExifEntry | undefined, negative: string) => {
+    if (!entry) return null;
+    const [degrees = 0, minutes = 0, seconds = 0] = getNumbers(entry, exif.littleEndian);
+    const value = degrees + minutes / 60 + seconds / 3600;
+    return ref && getExifText(ref).toUpperCase() === negative ? -value : value;
+  };
+
+  const latitude = toDegrees(find(0x0002), find(0x0001), 'S');
+  const longitude = toDegrees(find(0x0004), find(0x0003), 'W');
+  const altitudeEntry = find(0x0006);
+  const altitude = altitudeEntry ? getNumbers(altitudeEntry, exif.littleEndian)[0] : null;
+  return latitude === null || longitude === null ? null : { latitude, longitude, altitude };
+};
+
+// 1 (upright) to 8; see fromExifOrientation
+export const getExifOrientation = (exif: ExifData | null | undefined): number => {
+  const entry = exif?.image.find(item => item.tag === ORIENTATION_TAG);
+  return exif && entry ? getNumbers(entry, exif.littleEndian)[0] ?? 1 : 1;
+};
+
+export const createAsciiEntry = (tag: number, text: string): ExifEntry => {
+  const data = new TextEncoder().encode(`${text}\0`);
+  return { tag, type: ASCII_TYPE, count: data.length, data };
+};
+
+const getIfdSize = (entries: ExifEntry[]) => {
+  const overflow = entries.reduce((size, entry) => size + (entry.data.length > 4 ? entry.data.length + (entry.data.length % 2) : 0), 0);
+  return 2 + entries.length * 12 + 4 + overflow;
+};
+
+const writeIfd = (view: DataView, bytes: Uint8Array, offset: number, entries: ExifEntry[], littleEndian: boolean) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  view.setUint16(offset, sorted.length, littleEndian);
+  sorted.forEach((entry, index) => {
+    const entryOffset = offset + 2 + index * 12;
+    view.setUint16(entryOffset, entry.tag, littleEndian);
+    view.setUint16(entryOffset + 2, entry.type, littleEndian);
+    view.setUint32(entryOffset + 4, entry.count, littleEndian);
+    if (entry.data.length <= 4) {
+      bytes.set(entry.data, entryOffset + 8);
+    } else {
+      view.setUint32(entryOffset + 8, dataOffset, littleEndian);
+      bytes.set(entry.data, dataOffset);
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, littleEndian); // No next IFD
+};
+
+const pointerEntry = (tag: number, offset: number, littleEndian: boolean): ExifEntry => {
+  const data = new Uint8Array(4);
+  new DataView(data.buffer).setUint32(0, offset, littleEndian);
+  return { tag, type: 4, count: 1, data };
+};
+
+// A TIFF block holding IFD0 and, when they have entries, the Exif and GPS
+// sub-IFDs. Returns null when there is nothing to write.
+export const writeExif = (exif: ExifData): Uint8Array | null => {
+  const { littleEndian, photo, gps } = exif;
+  if (exif.image.length + photo.length + gps.length === 0) return null;
+
+  // Pointer values are placeholders until the sub-IFD offsets are known
+  const image = [...exif.image];
+  if (photo.length > 0) image.push(pointerEntry(EXIF_IFD_POINTER, 0, littleEndian));
+  if (gps.length > 0) image.push(pointerEntry(GPS_IFD_POINTER, 0, littleEndian));
+  const imageOffset = 8;
+  const photoOffset = imageOffset + getIfdSize(image);
+  const gpsOffset = photoOffset + (photo.length > 0 ? getIfdSize(photo) : 0);
+  const total = gpsOffset + (gps.length > 0 ? getIfdSize(gps) : 0);
+  const resolved = image.map(entry => {
+    if (entry.tag === EXIF_IFD_POINTER) return pointerEntry(EXIF_IFD_POINTER, photoOffset, littleEndian);
+    if (entry.tag === GPS_IFD_POINTER) return pointerEntry(GPS_IFD_POINTER, gpsOffset, littleEndian);
+    return entry;
+  });
+
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, littleEndian ? 0x4949 : 0x4d4d, false);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, imageOffset, littleEndian);
+  writeIfd(view, bytes, imageOffset, resolved, littleEndian);
+  if (photo.length > 0) writeIfd(view, bytes, photoOffset, photo, littleEndian);
+  if (gps.length > 0) writeIfd(view, bytes, gpsOffset, gps, littleEndian);
+  return bytes;
+};
@@ -0,0 +1,79 @@
+import { ExportSettings } from '../App';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 0.9,
+  archive: true,
+  includeManifest: false,
+  manifestFormat: 'json',
+  fileNameTemplate: '{name}',
+  preserveCase: false,
+  preserveUnicode: false,
+  resize: {
+    mode: 'original',
+    width: 1920,
+    height: 1080,
+    scale: 100,
+    longestEdge: 2048
+  },
+  resampling: 'lanczos',
+  sharpen: 0,
+  variants: {
+    enabled: false,
+    mode: 'density',
+    densities: [1, 2, 3],
+    widths: [320, 640, 1280, 1920],
+    markup: 'img',
+    sizes: '100vw'
+  },
+  rotatedOutput: 'straighten',
+  background: {
+    mode: 'transparent',
+    color: '#ffffff'
+  },
+  targetSize: {
+    enabled: false,
+    kilobytes: 200
+  },
+  contactSheet: {
+    pageSize: 'a4',
+    orientation: 'portrait',
+    columns: 3,
+    margin: 12,
+    header: '',
+    includeOverview: true
+  },
+  atlas: {
+    maxSize: 2048,
+    padding: 2,
+    extrude: 0
+  },
+  printTiling: {
+    paper: 'a4',
+    orientation: 'portrait',
+    dpi: 150,
+    overlap: 10,
+    margin: 10
+  },
+  metadata: {
+    // Location is opt-in so photos never leak where they were taken by default
+    keep: {
+      copyright: true,
+      camera: true,
+      exposure: true,
+      captureDate: true,
+      description: true,
+      software: true,
+      location: false
+    },
+    artist: '',
+    copyright: ''
+  },
+  animationFormat: 'gif'
+};
+
+export const getMimeType = (format: ExportSettings['format'] | 'gif'): string => {
+  return format === 'jpeg' ? 'image/jpeg' :
+         format === 'webp' ? 'image/webp' :
+         format === 'gif' ? 'image/gif' : 'image/png';
+};
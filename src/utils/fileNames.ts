@@ -0,0 +1,125 @@
+import { CropArea, ExportSettings } from '../App';
+import { getCropOutputSize } from './cropRenderer';
+import { formatFrameTime, parseFrameName } from './videoFrames';
+
+type FileNameSettings = Pick<ExportSettings, 'format' | 'fileNameTemplate' | 'preserveCase' | 'preserveUnicode' | 'resize' | 'rotatedOutput'>;
+
+export interface ExportFileName {
+  fileName: string;
+  collided: boolean; // The template produced a name already taken, so a suffix was added
+}
+
+export const FILE_NAME_TOKENS = [
+  { token: '{source}', description: 'Source image name' },
+  { token: '{name}', description: 'Crop name' },
+  { token: '{index}', description: 'Position in the export (zero-padded)' },
+  { token: '{width}', description: 'Output width in pixels' },
+  { token: '{height}', description: 'Output height in pixels' },
+  { token: '{grid_row}', description: 'Grid row (empty outside grids)' },
+  { token: '{grid_col}', description: 'Grid column (empty outside grids)' },
+  { token: '{format}', description: 'File format' },
+  { token: '{date}', description: 'Export date (YYYY-MM-DD)' },
+  { token: '{timestamp}', description: 'Video frame time, e.g. 1m05s120 (empty for images)' }
+];
+
+const TOKEN_PATTERN = /\{([a-z_]+)\}/g;
+// Characters that are invalid in file names on at least one major platform
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|]/g;
+
+const stripControlCharacters = (value: string): string => {
+  return Array.from(value).filter(char => char.charCodeAt(0) >= 0x20).join('');
+};
+
+const sanitizeValue = (value: string, preserveUnicode: boolean): string => {
+  if (preserveUnicode) {
+    return value.replace(/[^\p{L}\p{N}]/gu, '_');
+  }
+  // Fold accented letters to ASCII ("é" -> "e") before replacing the rest
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/gi, '_');
+};
+
+const formatDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const findUnknownTokens = (template: string): string[] => {
+  const known = new Set(FILE_NAME_TOKENS.map(({ token }) => token));
+  const unknown = (template.match(TOKEN_PATTERN) || []).filter(token => !known.has(token));
+  return Array.from(new Set(unknown));
+};
+
+// Build the base file name (no extension) for one crop from the template.
+// Crops of a video frame always carry its time, added at the end when the
+// template has no {timestamp}.
+export const renderFileName = (
+  settings: FileNameSettings,
+  crop: CropArea,
+  context: { index: number; total: number; sourceName: string | null; date: Date }
+): string => {
+  const frame = parseFrameName(context.sourceName);
+  const sourceName = ((frame ? frame.videoName : context.sourceName) || 'image').replace(/\.[^.]+$/, '');
+  const outputSize = getCropOutputSize(crop, settings);
+  const values: Record<string, string> = {
+    source: sourceName,
+    name: crop.name,
+    index: String(context.index + 1).padStart(String(context.total).length, '0'),
+    width: String(outputSize.width),
+    height: String(outputSize.height),
+    grid_row: crop.gridPosition ? String(crop.gridPosition.row + 1) : '',
+    grid_col: crop.gridPosition ? String(crop.gridPosition.col + 1) : '',
+    format: settings.format,
+    date: formatDate(context.date),
+    timestamp: frame ? formatFrameTime(frame.time) : ''
+  };
+
+  const template = stripControlCharacters(settings.fileNameTemplate);
+  const rendered = (frame && !template.includes('{timestamp}') ? `${template}_{timestamp}` : template)
+    .replace(TOKEN_PATTERN, (token, key: string) =>
+      key in values ? sanitizeValue(values[key], settings.preserveUnicode) : token
+    )
+    .replace(UNSAFE_CHARACTERS, '_')
+    .trim();
+
+  const baseName = settings.preserveCase ? rendered : rendered.toLowerCase();
+  return baseName || 'crop';
+};
+
+// For exports whose format differs from the chosen one (tiled PNGs, animations)
+export const replaceFileExtension = (fileName: string, extension: string) =>
+  fileName.replace(/\.[^.]+$/, '') + '.' + extension;
+
+// Return a file name not yet in usedNames ("crop.png" -> "crop_2.png") and record it
+export const getUniqueFileName = (fileName: string, usedNames: Set<string>): string => {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const extension = dot > 0 ? fileName.slice(dot) : '';
+
+  let candidate = fileName;
+  let counter = 2;
+  // Most file systems and ZIP extractors compare names case-insensitively
+  while (usedNames.has(candidate.toLowerCase())) {
+    candidate = `${base}_${counter}${extension}`;
+    counter++;
+  }
+  usedNames.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Names for a batch of crops, deduplicated in export order
+export const getExportFileNames = (
+  crops: CropArea[],
+  settings: FileNameSettings,
+  sourceName: string | null,
+  date: Date = new Date()
+): ExportFileName[] => {
+  const usedNames = new Set<string>();
+  return crops.map((crop, index) => {
+    const requested = `${renderFileName(settings, crop, { index, total: crops.length, sourceName, date })}.${settings.format}`;
+    const fileName = getUniqueFileName(requested, usedNames);
+    return { fileName, collided: fileName !== requested };
+  });
+};
@@ -0,0 +1,462 @@
+// GIF decoding and encoding. Browsers only ever hand a GIF's first frame to
+// a canvas, so animated GIFs are decoded here: every frame is composited onto
+// the full logical screen, following its disposal method.
+
+export interface GifFrame {
+  pixels: Uint8ClampedArray; // RGBA of the whole image as shown at this frame
+  delay: number; // Milliseconds
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  loopCount: number | null; // NETSCAPE repeat count, 0 = forever; null plays once
+  frames: GifFrame[];
+}
+
+const MAX_CODES = 4096;
+// Browsers play frames with delays below 20 ms at 100 ms instead
+const MIN_DELAY = 20;
+const DEFAULT_DELAY = 100;
+
+const readUint16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+export const isGif = (bytes: Uint8Array) => {
+  const signature = String.fromCharCode(...bytes.subarray(0, 6));
+  return signature === 'GIF87a' || signature === 'GIF89a';
+};
+
+// Concatenate the data sub-blocks starting at offset
+const readSubBlocks = (bytes: Uint8Array, offset: number) => {
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  let position = offset;
+  while (position < bytes.length && bytes[position] !== 0) {
+    const size = bytes[position];
+    parts.push(bytes.subarray(position + 1, position + 1 + size));
+    length += size;
+    position += size + 1;
+  }
+  const data = new Uint8Array(length);
+  let written = 0;
+  parts.forEach(part => {
+    data.set(part, written);
+    written += part.length;
+  });
+  return { data, end: position + 1 };
+};
+
+const lzwDecode = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+  const output = new Uint8Array(pixelCount);
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const prefix = new Int16Array(MAX_CODES);
+  const suffix = new Uint8Array(MAX_CODES);
+  const stack = new Uint8Array(MAX_CODES + 1);
+  for (let code = 0; code < clearCode; code++) suffix[code] = code;
+
+  let codeSize = minCodeSize + 1;
+  let codeMask = (1 << codeSize) - 1;
+  let nextCode = clearCode + 2;
+  let previous = -1;
+  let first = 0;
+  let buffer = 0;
+  let bits = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bits < codeSize) {
+      // Truncated data leaves the remaining pixels at index 0
+      if (position >= data.length) return output;
+      buffer |= data[position++] << bits;
+      bits += 8;
+    }
+    const code = buffer & codeMask;
+    buffer >>= codeSize;
+    bits -= codeSize;
+
+    if (code === clearCode) {
+      codeSize = minCodeSize + 1;
+      codeMask = (1 << codeSize) - 1;
+      nextCode = clearCode + 2;
+      previous = -1;
+      continue;
+    }
+    if (code === endCode) break;
+    if (previous === -1) {
+      output[written++] = suffix[code];
+      previous = code;
+      first = suffix[code];
+      continue;
+    }
+
+    let top = 0;
+    let current = code;
+    if (code >= nextCode) {
+      // The code being defined right now: the previous string plus its own first byte
+      stack[top++] = first;
+      current = previous;
+    }
+    while (current >= clearCode) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    first = suffix[current];
+    stack[top++] = first;
+
+    if (nextCode < MAX_CODES) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = first;
+      nextCode++;
+      if ((nextCode & codeMask) === 0 && nextCode < MAX_CODES) {
+        codeSize++;
+        codeMask = (1 << codeSize) - 1;
+      }
+    }
+    previous = code;
+    while (top > 0 && written < pixelCount) output[written++] = stack[--top];
+  }
+  return output;
+};
+
+// Row order of an interlaced image: every 8th row from 0, every 8th from 4,
+// every 4th from 2, then every 2nd from 1
+const getInterlacedRows = (height: number) => {
+  const rows: number[] = [];
+  [[0, 8], [4, 8], [2, 4], [1, 2]].forEach(([start, step]) => {
+    for (let row = start; row < height; row += step) rows.push(row);
+  });
+  return rows;
+};
+
+export const decodeGif = (bytes: Uint8Array): DecodedGif => {
+  if (!isGif(bytes)) throw new Error('This is not a GIF file');
+
+  const width = readUint16(bytes, 6);
+  const height = readUint16(bytes, 8);
+  const screenFlags = bytes[10];
+  let position = 13;
+  let globalPalette: Uint8Array | null = null;
+  if (screenFlags & 0x80) {
+    const size = 3 * (1 << ((screenFlags & 0x07) + 1));
+    globalPalette = bytes.subarray(position, position + size);
+    position += size;
+  }
+
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: GifFrame[] = [];
+  let loopCount: number | null = null;
+  let control = { delay: 0, disposal: 0, transparentIndex: -1 };
+
+  while (position < bytes.length) {
+    const block = bytes[position++];
+
+    if (block === 0x21) {
+      const label = bytes[position++];
+      if (label === 0xf9) {
+        const flags = bytes[position + 1];
+        control = {
+          delay: readUint16(bytes, position + 2) * 10,
+          disposal: (flags >> 2) & 0x07,
+          transparentIndex: flags & 0x01 ? bytes[position + 4] : -1
+        };
+        position += bytes[position] + 1;
+      } else if (label === 0xff) {
+        const application = String.fromCharCode(...bytes.subarray(position + 1, position + 12));
+        position += bytes[position] + 1;
+        const { data, end } = readSubBlocks(bytes, position);
+        if ((application === 'NETSCAPE2.0' || application === 'ANIMEXTS1.0') && data[0] === 1 && data.length >= 3) {
+          loopCount = readUint16(data, 1);
+        }
+        position = end;
+        continue;
+      }
+      position = readSubBlocks(bytes, position).end;
+      continue;
+    }
+
+    if (block !== 0x2c) break; // Trailer, or garbage after the last frame
+
+    const left = readUint16(bytes, position);
+    const top = readUint16(bytes, position + 2);
+    const frameWidth = readUint16(bytes, position + 4);
+    const frameHeight = readUint16(bytes, position + 6);
+    const imageFlags = bytes[position + 8];
+    position += 9;
+    let palette = globalPalette;
+    if (imageFlags & 0x80) {
+      const size = 3 * (1 << ((imageFlags & 0x07) + 1));
+      palette = bytes.subarray(position, position + size);
+      position += size;
+    }
+    const minCodeSize = bytes[position++];
+    const { data, end } = readSubBlocks(bytes, position);
+    position = end;
+    if (!palette || minCodeSize < 2 || minCodeSize > 8) break;
+
+    const indices = lzwDecode(data, minCodeSize, frameWidth * frameHeight);
+    const rows = imageFlags & 0x40 ? getInterlacedRows(frameHeight) : null;
+    // "Restore to previous" puts back what was there before this frame
+    const restore = control.disposal === 3 ? canvas.slice() : null;
+
+    for (let row = 0; row < frameHeight; row++) {
+      const y = top + (rows ? rows[row] : row);
+      if (y >= height) continue;
+      for (let column = 0; column < frameWidth; column++) {
+        const x = left + column;
+        const index = indices[row * frameWidth + column];
+        if (x >= width || index === control.transparentIndex) continue;
+        const target = (y * width + x) * 4;
+        canvas[target] = palette[index * 3];
+        canvas[target + 1] = palette[index * 3 + 1];
+        canvas[target + 2] = palette[index * 3 + 2];
+        canvas[target + 3] = 255;
+      }
+    }
+
+    frames.push({
+      pixels: canvas.slice(),
+      delay: control.delay < MIN_DELAY ? DEFAULT_DELAY : control.delay
+    });
+
+    if (control.disposal === 2) {
+      // "Restore to background" clears the frame's area; browsers use
+      // transparency rather than the background colour
+      for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+      }
+    } else if (restore) {
+      canvas.set(restore);
+    }
+    control = { delay: 0, disposal: 0, transparentIndex: -1 };
+  }
+
+  if (frames.length === 0) throw new Error('The GIF has no frames');
+  return { width, height, loopCount, frames };
+};
+
+interface QuantizedFrame {
+  palette: Uint8Array; // 256 RGB entries
+  indices: Uint8Array;
+  transparentIndex: number; // -1 when every pixel is opaque
+}
+
+interface ColorBox {
+  colors: number[]; // 15-bit RGB keys
+  count: number; // Pixels covered
+}
+
+const keyChannel = (key: number, channel: number) => (key >> (10 - channel * 5)) & 0x1f;
+
+const getWidestChannel = (box: ColorBox) => {
+  let widest = 0;
+  let widestRange = -1;
+  for (let channel = 0; channel < 3; channel++) {
+    let min = 31;
+    let max = 0;
+    box.colors.forEach(key => {
+      const value = keyChannel(key, channel);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    if (max - min > widestRange) {
+      widestRange = max - min;
+      widest = channel;
+    }
+  }
+  return { channel: widest, range: widestRange };
+};
+
+// Median cut on colours reduced to 5 bits per channel: split the box with
+// the most pixels along its widest channel until there are enough boxes,
+// then use each box's pixel-weighted mean. One index is kept for
+// transparency; alpha below half becomes transparent.
+const quantizeFrame = (pixels: Uint8ClampedArray): QuantizedFrame => {
+  const counts = new Map<number, number>();
+  let opaque = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue;
+    opaque++;
+    const key = ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+
+  const hasTransparency = opaque < pixels.length / 4;
+  const maxColors = hasTransparency ? 255 : 256;
+  const boxes: ColorBox[] = [];
+  if (counts.size > 0) {
+    boxes.push({ colors: Array.from(counts.keys()), count: opaque });
+  }
+  while (boxes.length < maxColors) {
+    let target = -1;
+    boxes.forEach((box, index) => {
+      if (box.colors.length > 1 && (target === -1 || box.count > boxes[target].count)) target = index;
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const { channel } = getWidestChannel(box);
+    box.colors.sort((a, b) => keyChannel(a, channel) - keyChannel(b, channel));
+    let covered = 0;
+    let split = 1;
+    for (; split < box.colors.length - 1; split++) {
+      covered += counts.get(box.colors[split - 1]) || 0;
+      if (covered >= box.count / 2) break;
+    }
+    const low = box.colors.slice(0, split);
+    const high = box.colors.slice(split);
+    const lowCount = low.reduce((sum, key) => sum + (counts.get(key) || 0), 0);
+    boxes.splice(target, 1, { colors: low, count: lowCount }, { colors: high, count: box.count - lowCount });
+  }
+
+  const palette = new Uint8Array(256 * 3);
+  const lookup = new Map<number, number>();
+  boxes.forEach((box, index) => {
+    const sums = [0, 0, 0];
+    let total = 0;
+    box.colors.forEach(key => {
+      const weight = counts.get(key) || 0;
+      for (let channel = 0; channel < 3; channel++) sums[channel] += ((keyChannel(key, channel) << 3) | 4) * weight;
+      total += weight;
+      lookup.set(key, index);
+    });
+    for (let channel = 0; channel < 3; channel++) {
+      palette[index * 3 + channel] = Math.round(sums[channel] / Math.max(1, total));
+    }
+  });
+
+  const transparentIndex = hasTransparency ? boxes.length : -1;
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0, pixel = 0; i < pixels.length; i += 4, pixel++) {
+    indices[pixel] = pixels[i + 3] < 128
+      ? transparentIndex
+      : lookup.get(((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3)) || 0;
+  }
+  return { palette, indices, transparentIndex };
+};
+
+// Growable little-endian byte buffer
+const createByteWriter = () => {
+  let buffer = new Uint8Array(1024);
+  let length = 0;
+
+  const byte = (value: number) => {
+    if (length === buffer.length) {
+      const grown = new Uint8Array(buffer.length * 2);
+      grown.set(buffer);
+      buffer = grown;
+    }
+    buffer[length++] = value;
+  };
+
+  return {
+    byte,
+    bytes: (values: ArrayLike<number>) => {
+      for (let i = 0; i < values.length; i++) byte(values[i]);
+    },
+    uint16: (value: number) => {
+      byte(value & 0xff);
+      byte((value >> 8) & 0xff);
+    },
+    result: () => buffer.slice(0, length)
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// LZW with 8-bit indices, written straight into 255-byte sub-blocks
+const writeLzw = (writer: ByteWriter, indices: Uint8Array) => {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const table = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let buffer = 0;
+  let bits = 0;
+  const block: number[] = [];
+
+  const flushBlock = () => {
+    writer.byte(block.length);
+    writer.bytes(block);
+    block.length = 0;
+  };
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      block.push(buffer & 0xff);
+      buffer >>= 8;
+      bits -= 8;
+      if (block.length === 255) flushBlock();
+    }
+  };
+
+  writer.byte(minCodeSize);
+  emit(clearCode);
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (current << 8) | index;
+    const known = table.get(key);
+    if (known !== undefined) {
+      current = known;
+      continue;
+    }
+    emit(current);
+    if (nextCode === MAX_CODES) {
+      emit(clearCode);
+      table.clear();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = index;
+  }
+  emit(current);
+  emit(endCode);
+  if (bits > 0) block.push(buffer & 0xff);
+  if (block.length > 0) flushBlock();
+  writer.byte(0);
+};
+
+// Every frame covers the whole image with its own 256-colour palette, and
+// is cleared before the next one so transparent pixels never show stale ones
+export const encodeGif = (frames: GifFrame[], width: number, height: number, loopCount: number | null): Uint8Array => {
+  const writer = createByteWriter();
+  writer.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+  writer.uint16(width);
+  writer.uint16(height);
+  writer.bytes([0x70, 0, 0]); // No global palette
+
+  if (loopCount !== null) {
+    writer.bytes([0x21, 0xff, 0x0b]);
+    writer.bytes(Array.from('NETSCAPE2.0', char => char.charCodeAt(0)));
+    writer.bytes([0x03, 0x01]);
+    writer.uint16(loopCount);
+    writer.byte(0);
+  }
+
+  frames.forEach(frame => {
+    const { palette, indices, transparentIndex } = quantizeFrame(frame.pixels);
+    const transparent = transparentIndex !== -1;
+    writer.bytes([0x21, 0xf9, 0x04, (transparent ? 2 : 1) << 2 | (transparent ? 1 : 0)]);
+    writer.uint16(Math.round(frame.delay / 10));
+    writer.bytes([transparent ? transparentIndex : 0, 0]);
+
+    writer.byte(0x2c);
+    writer.uint16(0);
+    writer.uint16(0);
+    writer.uint16(width);
+    writer.uint16(height);
+    writer.byte(0x87); // Local palette of 256 entries
+    writer.bytes(palette);
+    writeLzw(writer, indices);
+  });
+
+  writer.byte(0x3b);
+  return writer.result();
+};
@@ -0,0 +1,126 @@
+import { normalizeOrientation } from './orientation';
+import { isLargeImage } from './imagePyramid';
+import { createCanvas, fitsInCanvas, get2dContext } from './resample';
+import { TiffPage, decodeTiffPage, isTiff, readTiffPages } from './tiff';
+
+export interface LoadedImage {
+  imageUrl: string; // Upright, what the editor shows and crops
+  sourceUrl: string; // The file as read, before EXIF turning; projects hash and store this
+  image: HTMLImageElement;
+  fileName: string;
+}
+
+// The limit the upload screen states; bigger files open only after a warning
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The image could not be decoded'));
+    img.src = src;
+  });
+};
+
+// Phone photos are often stored sideways with an EXIF orientation tag
+export const loadUprightImage = async (src: string) => normalizeOrientation(src, await loadImage(src));
+
+// Some systems report no type for TIFF files
+export const isTiffFile = (file: File) => file.type === 'image/tiff' || /\.tiff?$/i.test(file.name);
+
+export const isImageFile = (file: File) => file.type.startsWith('image/') || isTiffFile(file);
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Four bytes per decoded pixel, plus a third for the display copies of large
+// images. Exports need working canvases on top of this.
+export const estimateImageMemory = (width: number, height: number) => {
+  return width * height * 4 * (isLargeImage(width, height) ? 4 / 3 : 1);
+};
+
+export const getLargeFileWarning = (file: File, width: number, height: number) => {
+  return `${file.name} is ${formatMegabytes(file.size)}, over the ${formatMegabytes(MAX_FILE_SIZE)} limit.\n\n` +
+    `At ${width} × ${height} (${(width * height / 1e6).toFixed(1)} MP) it needs about ` +
+    `${formatMegabytes(estimateImageMemory(width, height))} of memory while editing, and more while exporting. ` +
+    'The browser may run out of memory, especially on phones.\n\nOpen it anyway?';
+};
+
+type PickPages = (fileName: string, pages: TiffPage[]) => Promise<number[]>;
+
+// Each chosen page of a TIFF becomes a PNG image, which the editor and every
+// export can use like any other
+const loadTiffPages = async (
+  file: File,
+  bytes: Uint8Array,
+  confirmLargeFile: (warning: string) => boolean,
+  pickPages: PickPages
+): Promise<LoadedImage[]> => {
+  const pages = readTiffPages(bytes);
+  const chosen = pages.length > 1 ? await pickPages(file.name, pages) : [0];
+  if (chosen.length === 0) return [];
+
+  const largest = chosen.map(index => pages[index]).reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+  if (file.size > MAX_FILE_SIZE && !confirmLargeFile(getLargeFileWarning(file, largest.width, largest.height))) return [];
+
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const images: LoadedImage[] = [];
+  for (const index of chosen) {
+    const page = pages[index];
+    if (!fitsInCanvas(page)) throw new Error(`page ${index + 1} is too large for this browser`);
+    const { width, height, pixels } = await decodeTiffPage(bytes, page);
+    const canvas = createCanvas(width, height);
+    get2dContext(canvas).putImageData(new ImageData(pixels, width, height), 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    canvas.width = 0;
+    if (!blob) throw new Error(`page ${index + 1} could not be converted`);
+
+    const imageUrl = await readFileAsDataUrl(blob);
+    const fileName = pages.length > 1 ? `${baseName}_page${index + 1}.tif` : file.name;
+    images.push({ imageUrl, sourceUrl: imageUrl, image: await loadImage(imageUrl), fileName });
+  }
+  return images;
+};
+
+// Decode image files one after another, in order. Files that fail are
+// reported by name instead of stopping the rest; files over the size limit
+// are skipped unless confirmLargeFile accepts the warning. Multi-page TIFFs
+// open the pages pickPages returns, by default only the first.
+export const loadImageFiles = async (
+  files: File[],
+  confirmLargeFile: (warning: string) => boolean = () => true,
+  pickPages: PickPages = async () => [0]
+) => {
+  const images: LoadedImage[] = [];
+  const failed: string[] = [];
+  for (const file of files.filter(isImageFile)) {
+    try {
+      if (isTiffFile(file)) {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        // Mislabelled files go through the browser's own decoder
+        if (isTiff(bytes)) {
+          images.push(...await loadTiffPages(file, bytes, confirmLargeFile, pickPages));
+          continue;
+        }
+      }
+      const sourceUrl = await readFileAsDataUrl(file);
+      const upright = await loadUprightImage(sourceUrl);
+      const { naturalWidth, naturalHeight } = upright.image;
+      if (file.size > MAX_FILE_SIZE && !confirmLargeFile(getLargeFileWarning(file, naturalWidth, naturalHeight))) continue;
+      images.push({ ...upright, sourceUrl, fileName: file.name });
+    } catch (error) {
+      console.error(`Failed to load ${file.name}:`, error);
+      // The TIFF decoder says what it can't handle, e.g. a compression type
+      failed.push(isTiffFile(file) && error instanceof Error ? `${file.name} (${error.message})` : file.name);
+    }
+  }
+  return { images, failed };
+};
@@ -0,0 +1,66 @@
+import { createCanvas, get2dContext } from './resample';
+
+// Above this many pixels the editor draws from downscaled copies; redrawing
+// the full image on every frame is what makes huge scans stutter
+export const LARGE_IMAGE_PIXELS = 24_000_000;
+// Levels stop once the longest side is this small
+const MIN_LEVEL_SIDE = 1024;
+
+export interface PyramidLevel {
+  scale: number; // Level width / source width
+  bitmap: ImageBitmap;
+}
+
+export const isLargeImage = (width: number, height: number) => width * height > LARGE_IMAGE_PIXELS;
+
+const scaleBitmap = async (source: HTMLImageElement | ImageBitmap, width: number, height: number): Promise<ImageBitmap> => {
+  const bitmap = await createImageBitmap(source, { resizeWidth: width, resizeHeight: height, resizeQuality: 'high' });
+  if (bitmap.width === width && bitmap.height === height) return bitmap;
+
+  // Browsers without the resize options hand back the full size
+  bitmap.close();
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return createImageBitmap(canvas);
+};
+
+// Halve the image until it is small. createImageBitmap decodes and scales off
+// the main thread where it can, and each level is made from the one above so
+// every step is a clean 2:1 reduction. Largest level first.
+export const buildImagePyramid = async (image: HTMLImageElement): Promise<PyramidLevel[]> => {
+  const levels: PyramidLevel[] = [];
+  let source: HTMLImageElement | ImageBitmap = image;
+  let width = image.naturalWidth;
+  let height = image.naturalHeight;
+
+  try {
+    while (Math.max(width, height) > MIN_LEVEL_SIDE) {
+      width = Math.max(1, Math.round(width / 2));
+      height = Math.max(1, Math.round(height / 2));
+      const bitmap = await scaleBitmap(source, width, height);
+      levels.push({ scale: width / image.naturalWidth, bitmap });
+      source = bitmap;
+    }
+  } catch (error) {
+    closeImagePyramid(levels);
+    throw error;
+  }
+  return levels;
+};
+
+// The smallest level with at least one pixel per screen pixel, or null when
+// only the full image is sharp enough
+export const pickPyramidLevel = (levels: PyramidLevel[], displayScale: number): PyramidLevel | null => {
+  let best: PyramidLevel | null = null;
+  for (const level of levels) {
+    if (level.scale < displayScale) break;
+    best = level;
+  }
+  return best;
+};
+
+export const closeImagePyramid = (levels: PyramidLevel[]) => {
+  levels.forEach(level => level.bitmap.close());
+};
@@ -0,0 +1,86 @@
+import { ExportedCrop } from './responsiveVariants';
+
+export interface ManifestSource {
+  file: string | null;
+  width: number;
+  height: number;
+}
+
+const round = (value: number, digits = 6) => Number(value.toFixed(digits));
+
+const describeCrop = ({ crop }: ExportedCrop, source: ManifestSource) => ({
+  name: crop.name,
+  label: crop.label ?? null,
+  x: round(crop.x, 2),
+  y: round(crop.y, 2),
+  width: round(crop.width, 2),
+  height: round(crop.height, 2),
+  rotation: crop.rotation || 0,
+  aspectRatio: crop.aspectRatio ?? null,
+  // Normalized to the source size, 0-1
+  normalized: {
+    x: round(crop.x / source.width),
+    y: round(crop.y / source.height),
+    width: round(crop.width / source.width),
+    height: round(crop.height / source.height)
+  },
+  gridId: crop.gridId ?? null,
+  gridPosition: crop.gridPosition ?? null
+});
+
+export const buildJsonManifest = (
+  exported: ExportedCrop[],
+  source: ManifestSource
+): string => {
+  const manifest = {
+    source,
+    exportedAt: new Date().toISOString(),
+    crops: exported.map(entry => ({
+      ...describeCrop(entry, source),
+      files: entry.variants.map(variant => ({
+        file: variant.file,
+        width: variant.width,
+        height: variant.height,
+        ...(variant.descriptor ? { descriptor: variant.descriptor } : {}),
+        format: variant.format,
+        quality: variant.quality,
+        bytes: variant.bytes
+      }))
+    }))
+  };
+  return JSON.stringify(manifest, null, 2);
+};
+
+const CSV_COLUMNS = [
+  'file', 'source_file', 'source_width', 'source_height',
+  'name', 'label', 'x', 'y', 'width', 'height', 'rotation', 'aspect_ratio',
+  'norm_x', 'norm_y', 'norm_width', 'norm_height',
+  'grid_id', 'grid_row', 'grid_col',
+  'output_width', 'output_height', 'descriptor', 'format', 'quality', 'bytes'
+];
+
+const escapeCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per exported file; a crop with several size variants repeats its
+// crop columns on each row
+export const buildCsvManifest = (
+  exported: ExportedCrop[],
+  source: ManifestSource
+): string => {
+  const rows = exported.flatMap(entry => {
+    const crop = describeCrop(entry, source);
+    return entry.variants.map(variant => [
+      variant.file, source.file, source.width, source.height,
+      crop.name, crop.label, crop.x, crop.y, crop.width, crop.height, crop.rotation, crop.aspectRatio,
+      crop.normalized.x, crop.normalized.y, crop.normalized.width, crop.normalized.height,
+      crop.gridId, crop.gridPosition?.row, crop.gridPosition?.col,
+      variant.width, variant.height, variant.descriptor, variant.format, variant.quality, variant.bytes
+    ]);
+  });
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,465 @@
+import { ExportSettings, MetadataField, MetadataSettings } from '../App';
+import {
+  ExifData,
+  ExifEntry,
+  IMAGE_TAGS,
+  PHOTO_TAGS,
+  createAsciiEntry,
+  describeExifEntry,
+  getGpsPosition,
+  parseExif,
+  writeExif
+} from './exif';
+import { dataUrlToBytes } from './zip';
+
+// Reads EXIF, XMP and IPTC from JPEG, PNG and WebP files, and writes the
+// kept fields back into JPEG and WebP exports. IPTC values are carried over
+// as their XMP equivalents, which is where current software looks for them.
+
+export interface MetadataEntry {
+  field: MetadataField;
+  label: string;
+  value: string;
+  source: 'EXIF' | 'XMP' | 'IPTC';
+}
+
+export interface ImageMetadata {
+  exif: ExifData | null;
+  xmp: Record<string, string[]>; // Values by qualified property name, e.g. "dc:creator"
+  entries: MetadataEntry[];
+}
+
+export interface MetadataPayload {
+  exif: Uint8Array | null; // TIFF block
+  xmp: string | null; // Complete XMP packet
+}
+
+interface XmpProperty {
+  name: string;
+  label: string;
+  field: MetadataField;
+  container?: 'Seq' | 'Bag' | 'Alt';
+  iptc?: number; // Matching IPTC application record dataset
+}
+
+export const METADATA_FIELDS: { field: MetadataField; label: string }[] = [
+  { field: 'copyright', label: 'Artist & copyright' },
+  { field: 'camera', label: 'Camera & lens' },
+  { field: 'exposure', label: 'Exposure settings' },
+  { field: 'captureDate', label: 'Capture date' },
+  { field: 'description', label: 'Title, caption & keywords' },
+  { field: 'software', label: 'Software' },
+  { field: 'location', label: 'Location (GPS, city)' }
+];
+
+const NAMESPACES: Record<string, string> = {
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+  photoshop: 'http://ns.adobe.com/photoshop/1.0/'
+};
+
+const RDF_NAMESPACE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+const EXIF_SIGNATURE = 'Exif\0\0';
+const MAX_SEGMENT_SIZE = 0xffff - 2;
+
+const ARTIST_TAG = 0x013b;
+const COPYRIGHT_TAG = 0x8298;
+
+const XMP_PROPERTIES: XmpProperty[] = [
+  { name: 'dc:creator', label: 'Creator', field: 'copyright', container: 'Seq', iptc: 80 },
+  { name: 'dc:rights', label: 'Rights', field: 'copyright', container: 'Alt', iptc: 116 },
+  { name: 'dc:title', label: 'Title', field: 'description', container: 'Alt', iptc: 5 },
+  { name: 'dc:description', label: 'Caption', field: 'description', container: 'Alt', iptc: 120 },
+  { name: 'dc:subject', label: 'Keywords', field: 'description', container: 'Bag', iptc: 25 },
+  { name: 'xmp:CreateDate', label: 'Created', field: 'captureDate' },
+  { name: 'photoshop:DateCreated', label: 'Date created', field: 'captureDate', iptc: 55 },
+  { name: 'xmp:CreatorTool', label: 'Creator tool', field: 'software' },
+  { name: 'photoshop:City', label: 'City', field: 'location', iptc: 90 },
+  { name: 'photoshop:State', label: 'State / province', field: 'location', iptc: 95 },
+  { name: 'photoshop:Country', label: 'Country', field: 'location', iptc: 101 }
+];
+
+const decodeText = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number, littleEndian: boolean) =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, littleEndian);
+
+interface RawMetadata {
+  exif: Uint8Array | null;
+  xmp: string | null;
+  iptc: Uint8Array | null;
+}
+
+const readJpeg = (bytes: Uint8Array): RawMetadata => {
+  const raw: RawMetadata = { exif: null, xmp: null, iptc: null };
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // Image data follows
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    const segment = bytes.subarray(start, offset + 2 + length);
+
+    if (marker === 0xe1 && startsWith(segment, 0, EXIF_SIGNATURE)) {
+      raw.exif = segment.subarray(EXIF_SIGNATURE.length);
+    } else if (marker === 0xe1 && startsWith(segment, 0, XMP_SIGNATURE)) {
+      raw.xmp = decodeText(segment.subarray(XMP_SIGNATURE.length));
+    } else if (marker === 0xed && startsWith(segment, 0, 'Photoshop 3.0\0')) {
+      raw.iptc = readPhotoshopIptc(segment.subarray(14));
+    }
+    offset += 2 + length;
+  }
+  return raw;
+};
+
+// IPTC lives in resource 0x0404 of Photoshop's APP13 "8BIM" blocks
+const readPhotoshopIptc = (bytes: Uint8Array): Uint8Array | null => {
+  let offset = 0;
+  while (offset + 12 <= bytes.length && startsWith(bytes, offset, '8BIM')) {
+    const id = (bytes[offset + 4] << 8) | bytes[offset + 5];
+    const nameLength = bytes[offset + 6];
+    const sizeOffset = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (sizeOffset + 4 > bytes.length) break;
+    const size = readUint32(bytes, sizeOffset, false);
+    const data = bytes.subarray(sizeOffset + 4, sizeOffset + 4 + size);
+    if (id === 0x0404) return data;
+    offset = sizeOffset + 4 + size + (size % 2);
+  }
+  return null;
+};
+
+const readPng = (bytes: Uint8Array): RawMetadata => {
+  const raw: RawMetadata = { exif: null, xmp: null, iptc: null };
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset, false);
+    const type = decodeText(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'eXIf') {
+      raw.exif = data;
+    } else if (type === 'iTXt' && startsWith(data, 0, 'XML:com.adobe.xmp\0') && data[18] === 0) {
+      // Uncompressed only: keyword, compression flag and method, then
+      // language and translated keyword, each null-terminated
+      let textStart = 20;
+      for (let nulls = 0; textStart < data.length && nulls < 2; textStart++) {
+        if (data[textStart] === 0) nulls++;
+      }
+      raw.xmp = decodeText(data.subarray(textStart));
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  return raw;
+};
+
+const readWebp = (bytes: Uint8Array): RawMetadata => {
+  const raw: RawMetadata = { exif: null, xmp: null, iptc: null };
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = decodeText(bytes.subarray(offset, offset + 4));
+    const size = readUint32(bytes, offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+    if (type === 'EXIF') {
+      // Some writers keep the JPEG "Exif\0\0" prefix
+      raw.exif = startsWith(data, 0, EXIF_SIGNATURE) ? data.subarray(EXIF_SIGNATURE.length) : data;
+    } else if (type === 'XMP ') {
+      raw.xmp = decodeText(data);
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return raw;
+};
+
+const parseXmp = (packet: string): Record<string, string[]> => {
+  const doc = new DOMParser().parseFromString(packet.replace(/^[^<]*/, '').replace(/\0+$/, ''), 'application/xml');
+  const values: Record<string, string[]> = {};
+  if (doc.getElementsByTagName('parsererror').length > 0) return values;
+
+  const descriptions = Array.from(doc.getElementsByTagNameNS(RDF_NAMESPACE, 'Description'));
+  XMP_PROPERTIES.forEach(({ name }) => {
+    const [prefix, local] = name.split(':');
+    const namespace = NAMESPACES[prefix];
+    const element = doc.getElementsByTagNameNS(namespace, local)[0];
+    let found: string[] = [];
+    if (element) {
+      const items = Array.from(element.getElementsByTagNameNS(RDF_NAMESPACE, 'li'));
+      found = (items.length > 0 ? items : [element]).map(item => item.textContent?.trim() ?? '');
+    } else {
+      // Simple values may also be written as attributes of rdf:Description
+      const owner = descriptions.find(description => description.hasAttributeNS(namespace, local));
+      if (owner) found = [owner.getAttributeNS(namespace, local) ?? ''];
+    }
+    found = found.filter(Boolean);
+    if (found.length > 0) values[name] = found;
+  });
+  return values;
+};
+
+// Application record (2:xx) datasets of an IPTC-IIM block
+const parseIptc = (bytes: Uint8Array): Record<number, string[]> => {
+  const values: Record<number, string[]> = {};
+  let offset = 0;
+  while (offset + 5 <= bytes.length && bytes[offset] === 0x1c) {
+    const record = bytes[offset + 1];
+    const dataset = bytes[offset + 2];
+    const size = (bytes[offset + 3] << 8) | bytes[offset + 4];
+    if (size & 0x8000) break; // Extended datasets never hold text
+    const text = decodeText(bytes.subarray(offset + 5, offset + 5 + size)).trim();
+    if (record === 2 && text) (values[dataset] = values[dataset] || []).push(text);
+    offset += 5 + size;
+  }
+  return values;
+};
+
+const describeExif = (exif: ExifData): MetadataEntry[] => {
+  const entries: MetadataEntry[] = [];
+  const add = (list: ExifEntry[], tags: typeof IMAGE_TAGS) => {
+    list.forEach(entry => {
+      const info = tags[entry.tag];
+      const value = info ? describeExifEntry(entry, info, exif.littleEndian) : '';
+      if (info && value) entries.push({ field: info.field, label: info.label, value, source: 'EXIF' });
+    });
+  };
+  add(exif.image, IMAGE_TAGS);
+  add(exif.photo, PHOTO_TAGS);
+
+  const position = getGpsPosition(exif);
+  if (position) {
+    const altitude = position.altitude !== null ? `, ${Math.round(position.altitude)} m` : '';
+    entries.push({
+      field: 'location',
+      label: 'GPS position',
+      value: `${position.latitude.toFixed(6)}, ${position.longitude.toFixed(6)}${altitude}`,
+      source: 'EXIF'
+    });
+  } else if (exif.gps.length > 0) {
+    entries.push({ field: 'location', label: 'GPS data', value: `${exif.gps.length} tags`, source: 'EXIF' });
+  }
+  return entries;
+};
+
+export const parseImageMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const raw = bytes[0] === 0xff && bytes[1] === 0xd8 ? readJpeg(bytes) :
+              startsWith(bytes, 1, 'PNG') ? readPng(bytes) :
+              startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP') ? readWebp(bytes) :
+              { exif: null, xmp: null, iptc: null };
+
+  const exif = raw.exif ? parseExif(raw.exif) : null;
+  const xmp = raw.xmp ? parseXmp(raw.xmp) : {};
+  const iptc = raw.iptc ? parseIptc(raw.iptc) : {};
+  const entries = exif ? describeExif(exif) : [];
+
+  XMP_PROPERTIES.forEach(({ name, label, field, iptc: dataset }) => {
+    if (xmp[name]) {
+      entries.push({ field, label, value: xmp[name].join(', '), source: 'XMP' });
+    } else if (dataset !== undefined && iptc[dataset]) {
+      // IIM dates are YYYYMMDD
+      xmp[name] = dataset === 55 ? iptc[dataset].map(date => date.replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3')) : iptc[dataset];
+      entries.push({ field, label, value: xmp[name].join(', '), source: 'IPTC' });
+    }
+  });
+
+  return { exif, xmp, entries };
+};
+
+// The source file behind an image URL (data: or blob:)
+export const readImageMetadata = async (imageUrl: string): Promise<ImageMetadata | null> => {
+  try {
+    const buffer = await (await fetch(imageUrl)).arrayBuffer();
+    return parseImageMetadata(new Uint8Array(buffer));
+  } catch (error) {
+    console.error('Failed to read image metadata:', error);
+    return null;
+  }
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmpPacket = (values: Record<string, string[]>): string => {
+  const properties = XMP_PROPERTIES.filter(({ name }) => values[name]).map(({ name, container }) => {
+    if (!container) return `   <${name}>${escapeXml(values[name][0])}</${name}>`;
+    const lang = container === 'Alt' ? ' xml:lang="x-default"' : '';
+    const items = (container === 'Alt' ? values[name].slice(0, 1) : values[name])
+      .map(value => `<rdf:li${lang}>${escapeXml(value)}</rdf:li>`)
+      .join('');
+    return `   <${name}><rdf:${container}>${items}</rdf:${container}></${name}>`;
+  });
+  const namespaces = Object.entries(NAMESPACES).map(([prefix, uri]) => ` xmlns:${prefix}="${uri}"`).join('');
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ` <rdf:RDF xmlns:rdf="${RDF_NAMESPACE}">`,
+    `  <rdf:Description rdf:about=""${namespaces}>`,
+    ...properties,
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>'
+  ].join('\n');
+};
+
+// The EXIF and XMP to embed in an export: kept field groups of the source
+// plus the artist/copyright overrides. Orientation, dimensions, thumbnails
+// and maker notes are always dropped.
+export const buildMetadataPayload = (metadata: ImageMetadata | null, settings: MetadataSettings): MetadataPayload => {
+  const { keep } = settings;
+  const source = metadata?.exif;
+  const kept = (entries: ExifEntry[], tags: typeof IMAGE_TAGS) =>
+    entries.filter(entry => tags[entry.tag] && keep[tags[entry.tag].field]);
+  const exif: ExifData = {
+    littleEndian: source ? source.littleEndian : false,
+    image: source ? kept(source.image, IMAGE_TAGS) : [],
+    photo: source ? kept(source.photo, PHOTO_TAGS) : [],
+    gps: source && keep.location ? source.gps : []
+  };
+
+  const xmp: Record<string, string[]> = {};
+  XMP_PROPERTIES.forEach(({ name, field }) => {
+    if (metadata?.xmp[name] && keep[field]) xmp[name] = metadata.xmp[name];
+  });
+
+  const artist = settings.artist.trim();
+  const copyright = settings.copyright.trim();
+  if (artist) {
+    exif.image = [...exif.image.filter(entry => entry.tag !== ARTIST_TAG), createAsciiEntry(ARTIST_TAG, artist)];
+    xmp['dc:creator'] = [artist];
+  }
+  if (copyright) {
+    exif.image = [...exif.image.filter(entry => entry.tag !== COPYRIGHT_TAG), createAsciiEntry(COPYRIGHT_TAG, copyright)];
+    xmp['dc:rights'] = [copyright];
+  }
+
+  const tiff = writeExif(exif);
+  return {
+    // A JPEG APP1 segment cannot hold more than 64 KB
+    exif: tiff && tiff.length + EXIF_SIGNATURE.length <= MAX_SEGMENT_SIZE ? tiff : null,
+    xmp: Object.keys(xmp).length > 0 ? buildXmpPacket(xmp) : null
+  };
+};
+
+export const hasMetadata = (payload: MetadataPayload | null | undefined): payload is MetadataPayload =>
+  !!payload && (!!payload.exif || !!payload.xmp);
+
+// Bytes the payload adds to an export, so a target size can leave room for it
+export const getMetadataSize = (payload: MetadataPayload | null | undefined, format: ExportSettings['format']): number => {
+  if (!hasMetadata(payload) || format === 'png') return 0;
+  const exifSize = payload.exif ? payload.exif.length + EXIF_SIGNATURE.length + 10 : 0;
+  const xmpSize = payload.xmp ? new TextEncoder().encode(payload.xmp).length + XMP_SIGNATURE.length + 10 : 0;
+  return exifSize + xmpSize + (format === 'webp' ? 18 : 0); // VP8X header chunk
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    bytes.set(part, offset);
+    offset += part.length;
+  });
+  return bytes;
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const jpegSegment = (signature: string, data: Uint8Array) => {
+  const header = new TextEncoder().encode(signature);
+  const length = 2 + header.length + data.length;
+  return concatBytes([new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]), header, data]);
+};
+
+const embedInJpeg = (bytes: Uint8Array, payload: MetadataPayload): Uint8Array => {
+  const segments: Uint8Array[] = [];
+  if (payload.exif) segments.push(jpegSegment(EXIF_SIGNATURE, payload.exif));
+  if (payload.xmp) {
+    const xmp = new TextEncoder().encode(payload.xmp);
+    if (xmp.length + XMP_SIGNATURE.length <= MAX_SEGMENT_SIZE) segments.push(jpegSegment(XMP_SIGNATURE, xmp));
+  }
+
+  // After SOI and the browser's JFIF APP0 segment
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const webpChunk = (type: string, data: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode(type));
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  return concatBytes([header, data, new Uint8Array(data.length % 2)]);
+};
+
+// Metadata chunks need the extended (VP8X) layout, which browsers only
+// produce for lossy images with alpha
+const embedInWebp = (bytes: Uint8Array, payload: MetadataPayload, width: number, height: number): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  let flags = 0;
+  while (offset + 8 <= bytes.length) {
+    const type = decodeText(bytes.subarray(offset, offset + 4));
+    const size = readUint32(bytes, offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+    if (type === 'VP8X') {
+      flags = bytes[offset + 8];
+    } else if (type !== 'EXIF' && type !== 'XMP ') {
+      if (type === 'VP8L' && (bytes[offset + 12] >> 4) & 1) flags |= 0x10; // Lossless alpha bit
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (payload.exif) {
+    flags |= 0x08;
+    chunks.push(webpChunk('EXIF', payload.exif));
+  }
+  if (payload.xmp) {
+    flags |= 0x04;
+    chunks.push(webpChunk('XMP ', new TextEncoder().encode(payload.xmp)));
+  }
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = flags;
+  [width - 1, height - 1].forEach((value, index) => {
+    vp8x[4 + index * 3] = value & 0xff;
+    vp8x[5 + index * 3] = (value >> 8) & 0xff;
+    vp8x[6 + index * 3] = (value >> 16) & 0xff;
+  });
+  const body = concatBytes([new TextEncoder().encode('WEBP'), webpChunk('VP8X', vp8x), ...chunks]);
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode('RIFF'));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return concatBytes([header, body]);
+};
+
+// Returns the data URL unchanged for PNG or when there is nothing to embed
+export const embedMetadata = (
+  dataUrl: string,
+  payload: MetadataPayload | null | undefined,
+  width: number,
+  height: number
+): string => {
+  if (!hasMetadata(payload)) return dataUrl;
+  if (dataUrl.startsWith('data:image/jpeg')) {
+    return bytesToDataUrl(embedInJpeg(dataUrlToBytes(dataUrl), payload), 'image/jpeg');
+  }
+  if (dataUrl.startsWith('data:image/webp')) {
+    return bytesToDataUrl(embedInWebp(dataUrlToBytes(dataUrl), payload, width, height), 'image/webp');
+  }
+  return dataUrl;
+};
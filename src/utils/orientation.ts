@@ -0,0 +1,207 @@
+import { CropArea, ImageOrientation } from '../App';
+import { ORIENTATION_TAG, getExifOrientation, writeExif } from './exif';
+import { embedMetadata, readImageMetadata } from './metadata';
+import { fitsInCanvas } from './resample';
+
+export type OrientationChange = 'rotate-cw' | 'rotate-ccw' | 'rotate-180' | 'flip-h' | 'flip-v';
+
+// x' = a*x + c*y + e, y' = b*x + d*y + f, as in CanvasRenderingContext2D.setTransform
+type Matrix = [number, number, number, number, number, number];
+
+export const ORIENTATION_CHANGES: { change: OrientationChange; label: string }[] = [
+  { change: 'rotate-ccw', label: 'Rotate 90° CCW' },
+  { change: 'rotate-cw', label: 'Rotate 90° CW' },
+  { change: 'rotate-180', label: 'Rotate 180°' },
+  { change: 'flip-h', label: 'Flip Horizontal' },
+  { change: 'flip-v', label: 'Flip Vertical' }
+];
+
+export const IDENTITY_ORIENTATION: ImageOrientation = { rotation: 0, flipped: false };
+
+export const isIdentityOrientation = (orientation: ImageOrientation) => orientation.rotation === 0 && !orientation.flipped;
+
+const toRotation = (degrees: number) => (((degrees % 360) + 360) % 360) as ImageOrientation['rotation'];
+
+// A mirror reverses the direction of the rotation before it, so flipping
+// negates the angle; a vertical flip is a horizontal one turned 180°
+export const applyOrientationChange = (orientation: ImageOrientation, change: OrientationChange): ImageOrientation => {
+  const { rotation, flipped } = orientation;
+  switch (change) {
+    case 'rotate-cw': return { rotation: toRotation(rotation + 90), flipped };
+    case 'rotate-ccw': return { rotation: toRotation(rotation + 270), flipped };
+    case 'rotate-180': return { rotation: toRotation(rotation + 180), flipped };
+    case 'flip-h': return { rotation: toRotation(-rotation), flipped: !flipped };
+    case 'flip-v': return { rotation: toRotation(180 - rotation), flipped: !flipped };
+  }
+};
+
+// The EXIF orientation tag describes how the stored pixels must be turned
+// to be upright
+export const fromExifOrientation = (value: number): ImageOrientation => {
+  switch (value) {
+    case 2: return { rotation: 0, flipped: true };
+    case 3: return { rotation: 180, flipped: false };
+    case 4: return { rotation: 180, flipped: true };
+    case 5: return { rotation: 270, flipped: true };
+    case 6: return { rotation: 90, flipped: false };
+    case 7: return { rotation: 90, flipped: true };
+    case 8: return { rotation: 270, flipped: false };
+    default: return IDENTITY_ORIENTATION;
+  }
+};
+
+export const getOrientedSize = (width: number, height: number, orientation: ImageOrientation) => {
+  return orientation.rotation % 180 === 0 ? { width, height } : { width: height, height: width };
+};
+
+// Apply b, then a
+const multiply = (a: Matrix, b: Matrix): Matrix => [
+  a[0] * b[0] + a[2] * b[1],
+  a[1] * b[0] + a[3] * b[1],
+  a[0] * b[2] + a[2] * b[3],
+  a[1] * b[2] + a[3] * b[3],
+  a[0] * b[4] + a[2] * b[5] + a[4],
+  a[1] * b[4] + a[3] * b[5] + a[5]
+];
+
+// Maps points of a width × height image onto the oriented one
+const getOrientationMatrix = (orientation: ImageOrientation, width: number, height: number): Matrix => {
+  const flip: Matrix = orientation.flipped ? [-1, 0, 0, 1, width, 0] : [1, 0, 0, 1, 0, 0];
+  const rotate: Matrix =
+    orientation.rotation === 90 ? [0, 1, -1, 0, height, 0] :
+    orientation.rotation === 180 ? [-1, 0, 0, -1, width, height] :
+    orientation.rotation === 270 ? [0, -1, 1, 0, 0, width] :
+    [1, 0, 0, 1, 0, 0];
+  return multiply(rotate, flip);
+};
+
+const mapPoint = (matrix: Matrix, x: number, y: number) => ({
+  x: matrix[0] * x + matrix[2] * y + matrix[4],
+  y: matrix[1] * x + matrix[3] * y + matrix[5]
+});
+
+// Move every crop with the content under it when a width × height image is
+// turned. Grid positions are turned the same way so rows stay rows.
+export const orientCrops = (crops: CropArea[], change: OrientationChange, width: number, height: number): CropArea[] => {
+  const orientation = applyOrientationChange(IDENTITY_ORIENTATION, change);
+  const matrix = getOrientationMatrix(orientation, width, height);
+  const quarterTurn = orientation.rotation % 180 !== 0;
+
+  const gridSizes = new Map<string, { rows: number; cols: number }>();
+  crops.forEach(({ gridId, gridPosition }) => {
+    if (!gridId || !gridPosition) return;
+    const size = gridSizes.get(gridId) || { rows: 0, cols: 0 };
+    gridSizes.set(gridId, {
+      rows: Math.max(size.rows, gridPosition.row + 1),
+      cols: Math.max(size.cols, gridPosition.col + 1)
+    });
+  });
+
+  return crops.map(crop => {
+    const center = mapPoint(matrix, crop.x + crop.width / 2, crop.y + crop.height / 2);
+    const cropWidth = quarterTurn ? crop.height : crop.width;
+    const cropHeight = quarterTurn ? crop.width : crop.height;
+    const oriented: CropArea = {
+      ...crop,
+      x: center.x - cropWidth / 2,
+      y: center.y - cropHeight / 2,
+      width: cropWidth,
+      height: cropHeight,
+      // A quarter turn is absorbed by swapping the sides; a mirror reverses the angle
+      rotation: orientation.flipped ? toRotation(-(crop.rotation || 0)) : crop.rotation,
+      aspectRatio: quarterTurn && crop.aspectRatio ? 1 / crop.aspectRatio : crop.aspectRatio,
+      outputSize: quarterTurn && crop.outputSize
+        ? { width: crop.outputSize.height, height: crop.outputSize.width }
+        : crop.outputSize
+    };
+
+    const gridSize = crop.gridId ? gridSizes.get(crop.gridId) : undefined;
+    if (crop.gridPosition && gridSize) {
+      const cell = mapPoint(
+        getOrientationMatrix(orientation, gridSize.cols, gridSize.rows),
+        crop.gridPosition.col + 0.5,
+        crop.gridPosition.row + 0.5
+      );
+      oriented.gridPosition = { row: Math.floor(cell.y), col: Math.floor(cell.x) };
+    }
+    return oriented;
+  });
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('The image could not be decoded'));
+    img.src = src;
+  });
+};
+
+const renderOrientedCanvas = (image: HTMLImageElement, orientation: ImageOrientation): HTMLCanvasElement => {
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const size = getOrientedSize(width, height, orientation);
+  if (!fitsInCanvas(size)) throw new Error('This image is too large to rotate or flip in this browser');
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+
+  ctx.setTransform(...getOrientationMatrix(orientation, width, height));
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+};
+
+// The turned copy is a lossless PNG behind an object URL; revoke its src
+// once it is no longer needed
+export const renderOrientedImage = async (image: HTMLImageElement, orientation: ImageOrientation): Promise<HTMLImageElement> => {
+  if (isIdentityOrientation(orientation)) return image;
+
+  const canvas = renderOrientedCanvas(image, orientation);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('The rotated image could not be encoded');
+  return loadImage(URL.createObjectURL(blob));
+};
+
+let orientationProbe: Promise<boolean> | null = null;
+
+// Current browsers turn images by their EXIF orientation when decoding them;
+// older ones show the stored pixels. Decode a 2 × 1 JPEG tagged as rotated
+// and see which way round it comes out.
+const browserAppliesOrientation = (): Promise<boolean> => {
+  if (!orientationProbe) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 2;
+    canvas.height = 1;
+    const exif = writeExif({
+      littleEndian: false,
+      image: [{ tag: ORIENTATION_TAG, type: 3, count: 1, data: new Uint8Array([0, 6, 0, 0]) }],
+      photo: [],
+      gps: []
+    });
+    const probeUrl = embedMetadata(canvas.toDataURL('image/jpeg'), { exif, xmp: null }, 2, 1);
+    orientationProbe = loadImage(probeUrl)
+      .then(image => image.naturalWidth === 1)
+      .catch(() => true);
+  }
+  return orientationProbe;
+};
+
+// An upright version of a freshly decoded image. Only browsers that ignore
+// the EXIF orientation need a turned copy; exports never carry the tag, so
+// both paths produce the same pixels.
+export const normalizeOrientation = async (
+  imageUrl: string,
+  image: HTMLImageElement
+): Promise<{ imageUrl: string; image: HTMLImageElement }> => {
+  const metadata = await readImageMetadata(imageUrl);
+  const orientation = fromExifOrientation(getExifOrientation(metadata?.exif));
+  if (isIdentityOrientation(orientation) || await browserAppliesOrientation()) return { imageUrl, image };
+
+  // EXIF orientation comes with JPEG photos, so keep them JPEG
+  const canvas = renderOrientedCanvas(image, orientation);
+  const uprightUrl = imageUrl.startsWith('data:image/jpeg')
+    ? canvas.toDataURL('image/jpeg', 0.95)
+    : canvas.toDataURL('image/png');
+  return { imageUrl: uprightUrl, image: await loadImage(uprightUrl) };
+};
@@ -0,0 +1,262 @@
+// Minimal PDF writer: JPEG images, the built-in Helvetica fonts, text and
+// outlines. Enough for printable sheets without bundling a PDF library.
+// Drawing helpers take points measured from the top-left corner, like a
+// canvas, and flip them into PDF's bottom-up coordinates.
+
+import { PaperSize } from '../App';
+
+export interface PdfImage {
+  data: Uint8Array; // Baseline JPEG bytes, embedded as-is
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  images: PdfImage[];
+  content: string[];
+}
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+// Page sizes in points (1/72 inch), portrait
+export const PAGE_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+  legal: { label: 'Legal', width: 612, height: 1008 },
+  tabloid: { label: 'Tabloid', width: 792, height: 1224 }
+};
+
+export const mmToPoints = (mm: number) => (mm * 72) / 25.4;
+
+// Advance widths (1/1000 em) of printable ASCII, from the standard Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// The fonts use WinAnsiEncoding, which matches Latin-1 from 0xA0 up;
+// anything else is replaced
+const toPdfText = (text: string) => {
+  return Array.from(text).map(char => {
+    const code = char.charCodeAt(0);
+    return (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) ? char : '?';
+  }).join('');
+};
+
+export const measureText = (text: string, size: number, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = Array.from(toPdfText(text)).reduce((total, char) => {
+    const code = char.charCodeAt(0);
+    return total + (code < 0x7f ? widths[code - 0x20] : 556);
+  }, 0);
+  return (units * size) / 1000;
+};
+
+// Shorten text with an ellipsis until it fits
+export const fitText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (measureText(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && measureText(`${fitted}...`, size, bold) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+const formatColor = (color: PdfColor) => color.map(formatNumber).join(' ');
+
+const escapeString = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+export const createPdfPage = (width: number, height: number): PdfPage => ({
+  width,
+  height,
+  images: [],
+  content: []
+});
+
+export const drawImage = (page: PdfPage, image: PdfImage, x: number, y: number, width: number, height: number) => {
+  page.images.push(image);
+  const name = `Im${page.images.length}`;
+  const bottom = page.height - y - height;
+  page.content.push(`q ${[width, 0, 0, height, x, bottom].map(formatNumber).join(' ')} cm /${name} Do Q`);
+};
+
+// y is the text baseline
+export const drawText = (
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  options: { size: number; bold?: boolean; color?: PdfColor }
+) => {
+  const font = options.bold ? 'F2' : 'F1';
+  const color = formatColor(options.color || [0, 0, 0]);
+  page.content.push(
+    `BT /${font} ${formatNumber(options.size)} Tf ${color} rg ${formatNumber(x)} ${formatNumber(page.height - y)} Td (${escapeString(toPdfText(text))}) Tj ET`
+  );
+};
+
+interface ShapeStyle {
+  stroke?: PdfColor;
+  fill?: PdfColor;
+  lineWidth?: number;
+  dash?: number[]; // Dash and gap lengths
+}
+
+const paintShape = (page: PdfPage, path: string, style: ShapeStyle) => {
+  const operations = ['q'];
+  if (style.lineWidth !== undefined) operations.push(`${formatNumber(style.lineWidth)} w`);
+  if (style.dash) operations.push(`[${style.dash.map(formatNumber).join(' ')}] 0 d`);
+  if (style.stroke) operations.push(`${formatColor(style.stroke)} RG`);
+  if (style.fill) operations.push(`${formatColor(style.fill)} rg`);
+  operations.push(path, style.fill && style.stroke ? 'B' : style.fill ? 'f' : 'S', 'Q');
+  page.content.push(operations.join(' '));
+};
+
+export const drawRect = (page: PdfPage, x: number, y: number, width: number, height: number, style: ShapeStyle) => {
+  const bottom = page.height - y - height;
+  paintShape(page, `${[x, bottom, width, height].map(formatNumber).join(' ')} re`, style);
+};
+
+export const drawPolygon = (page: PdfPage, points: { x: number; y: number }[], style: ShapeStyle) => {
+  if (points.length < 2) return;
+  const path = points.map((point, index) => {
+    return `${formatNumber(point.x)} ${formatNumber(page.height - point.y)} ${index === 0 ? 'm' : 'l'}`;
+  });
+  paintShape(page, `${path.join(' ')} h`, style);
+};
+
+export const drawLine = (page: PdfPage, x1: number, y1: number, x2: number, y2: number, style: ShapeStyle) => {
+  const path = `${formatNumber(x1)} ${formatNumber(page.height - y1)} m ${formatNumber(x2)} ${formatNumber(page.height - y2)} l`;
+  paintShape(page, path, { ...style, fill: undefined });
+};
+
+// Four Bezier quarter arcs; 0.5523 is the usual control point distance
+export const drawCircle = (page: PdfPage, x: number, y: number, radius: number, style: ShapeStyle) => {
+  const k = radius * 0.5523;
+  const cx = x;
+  const cy = page.height - y;
+  const point = (px: number, py: number) => `${formatNumber(px)} ${formatNumber(py)}`;
+  const path = [
+    `${point(cx + radius, cy)} m`,
+    `${point(cx + radius, cy + k)} ${point(cx + k, cy + radius)} ${point(cx, cy + radius)} c`,
+    `${point(cx - k, cy + radius)} ${point(cx - radius, cy + k)} ${point(cx - radius, cy)} c`,
+    `${point(cx - radius, cy - k)} ${point(cx - k, cy - radius)} ${point(cx, cy - radius)} c`,
+    `${point(cx + k, cy - radius)} ${point(cx + radius, cy - k)} ${point(cx + radius, cy)} c`,
+    'h'
+  ];
+  paintShape(page, path.join(' '), style);
+};
+
+// Strings are written as Latin-1 bytes so binary markers and offsets line up
+const latin1 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+const formatDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+export const createPdf = (pages: PdfPage[], info: { title?: string } = {}): Blob => {
+  if (pages.length === 0) throw new Error('A PDF needs at least one page');
+
+  // Fixed objects first, then each page followed by its content and images
+  const CATALOG = 1;
+  const PAGES = 2;
+  const FONT = 3;
+  const BOLD_FONT = 4;
+  const INFO = 5;
+  const objects: (string | Uint8Array)[][] = [];
+  const setObject = (id: number, ...parts: (string | Uint8Array)[]) => {
+    objects[id - 1] = parts;
+  };
+  const addStream = (id: number, dictionary: string, data: Uint8Array) => {
+    const entries = dictionary ? `${dictionary} ` : '';
+    setObject(id, `<< ${entries}/Length ${data.length} >>\nstream\n`, data, '\nendstream');
+  };
+
+  let nextId = INFO + 1;
+  const pageIds = pages.map(page => {
+    const pageId = nextId;
+    const contentId = pageId + 1;
+    const imageIds = page.images.map((_, index) => contentId + 1 + index);
+    nextId = contentId + 1 + page.images.length;
+
+    const xObjects = imageIds.map((id, index) => `/Im${index + 1} ${id} 0 R`).join(' ');
+    setObject(
+      pageId,
+      `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}]` +
+      ` /Resources << /Font << /F1 ${FONT} 0 R /F2 ${BOLD_FONT} 0 R >> /XObject << ${xObjects} >> >>` +
+      ` /Contents ${contentId} 0 R >>`
+    );
+    addStream(contentId, '', latin1(page.content.join('\n')));
+    page.images.forEach((image, index) => {
+      addStream(
+        imageIds[index],
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height}` +
+        ' /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+        image.data
+      );
+    });
+    return pageId;
+  });
+
+  setObject(CATALOG, `<< /Type /Catalog /Pages ${PAGES} 0 R >>`);
+  setObject(PAGES, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  setObject(FONT, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  setObject(BOLD_FONT, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const title = info.title ? ` /Title (${escapeString(toPdfText(info.title))})` : '';
+  setObject(INFO, `<< /Producer (ImageCrop Pro)${title} /CreationDate (${formatDate(new Date())}) >>`);
+
+  // The comment line of high bytes marks the file as binary
+  const parts: Uint8Array[] = [latin1('%PDF-1.4\n%\u00e2\u00e3\u00cf\u00d3\n')];
+  let offset = parts[0].length;
+  const offsets = objects.map((objectParts, index) => {
+    const start = offset;
+    [`${index + 1} 0 obj\n`, ...objectParts, '\nendobj\n'].forEach(part => {
+      const bytes = typeof part === 'string' ? latin1(part) : part;
+      parts.push(bytes);
+      offset += bytes.length;
+    });
+    return start;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(start => `${String(start).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${CATALOG} 0 R /Info ${INFO} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    ''
+  ].join('\n');
+  parts.push(latin1(xref));
+
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,296 @@
+import { CropArea, ExportSettings, PrintTilingSettings } from '../App';
+import { canvasToDataUrl } from './cropRenderer';
+import { createCanvas, get2dContext, yieldToBrowser } from './resample';
+import { ZipEntry, dataUrlToBytes } from './zip';
+import {
+  PAGE_SIZES,
+  PdfPage,
+  createPdf,
+  createPdfPage,
+  drawCircle,
+  drawImage,
+  drawLine,
+  drawText,
+  mmToPoints
+} from './pdf';
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PrintTile extends Region {
+  index: number;
+  row: number;
+  col: number;
+  label: string; // Column letter and row number, e.g. "B3"
+}
+
+export interface PrintTileLayout {
+  tiles: PrintTile[];
+  rows: number;
+  cols: number;
+  tileWidth: number; // Source pixels that fill the printable area
+  tileHeight: number;
+  overlap: number; // Source pixels shared by neighbouring tiles
+  dpi: number;
+  page: { width: number; height: number }; // Points
+  margin: number; // Points
+  posterWidth: number; // Millimetres
+  posterHeight: number;
+}
+
+interface TileMarks {
+  lines: { x1: number; y1: number; x2: number; y2: number; dashed?: boolean }[];
+  circles: { x: number; y: number; radius: number }[];
+  texts: { text: string; x: number; y: number; size: number }[];
+}
+
+const JPEG_QUALITY = 0.92;
+const MARK_FONT_SIZE = 7;
+const GUIDE_DASH = [3, 2];
+
+const pixelsToPoints = (pixels: number, dpi: number) => (pixels * 72) / dpi;
+
+const pointsToPixels = (points: number, dpi: number) => (points * dpi) / 72;
+
+// A, B, ... Z, AA, AB, ...
+const getColumnLetters = (col: number): string => {
+  const letter = String.fromCharCode(65 + (col % 26));
+  return col < 26 ? letter : getColumnLetters(Math.floor(col / 26) - 1) + letter;
+};
+
+// Split a region into page-sized tiles. The printable area of the page at
+// the chosen DPI sets the tile size in pixels; each tile repeats the last
+// `overlap` of its left and upper neighbour. Edge tiles hold what is left.
+export const getPrintTileLayout = (region: Region, settings: PrintTilingSettings): PrintTileLayout | null => {
+  const paper = PAGE_SIZES[settings.paper];
+  const page = settings.orientation === 'landscape'
+    ? { width: paper.height, height: paper.width }
+    : { width: paper.width, height: paper.height };
+  const margin = mmToPoints(settings.margin);
+  const tileWidth = Math.floor(pointsToPixels(page.width - margin * 2, settings.dpi));
+  const tileHeight = Math.floor(pointsToPixels(page.height - margin * 2, settings.dpi));
+  const overlap = Math.round(pointsToPixels(mmToPoints(settings.overlap), settings.dpi));
+  if (region.width < 1 || region.height < 1 || tileWidth - overlap < 1 || tileHeight - overlap < 1) return null;
+
+  const stepX = tileWidth - overlap;
+  const stepY = tileHeight - overlap;
+  const cols = Math.max(1, Math.ceil((region.width - overlap) / stepX));
+  const rows = Math.max(1, Math.ceil((region.height - overlap) / stepY));
+
+  const tiles: PrintTile[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = region.x + col * stepX;
+      const y = region.y + row * stepY;
+      tiles.push({
+        index: tiles.length,
+        row,
+        col,
+        label: `${getColumnLetters(col)}${row + 1}`,
+        x,
+        y,
+        width: Math.min(tileWidth, region.x + region.width - x),
+        height: Math.min(tileHeight, region.y + region.height - y)
+      });
+    }
+  }
+
+  const toMillimetres = (pixels: number) => Math.round((pixels / settings.dpi) * 25.4);
+  return {
+    tiles,
+    rows,
+    cols,
+    tileWidth,
+    tileHeight,
+    overlap,
+    dpi: settings.dpi,
+    page,
+    margin,
+    posterWidth: toMillimetres(region.width),
+    posterHeight: toMillimetres(region.height)
+  };
+};
+
+// Marks in page points from the top-left corner:
+// - corner trim marks in the margin around the printed image
+// - dashed guides where the overlap with each neighbour begins
+// - registration targets in the middle of every shared overlap band, which
+//   land on the same image pixels on both tiles so they can be stacked
+// - the page index and tile position in the bottom margin
+const getTileMarks = (tile: PrintTile, layout: PrintTileLayout): TileMarks => {
+  const marks: TileMarks = { lines: [], circles: [], texts: [] };
+  const { margin, dpi } = layout;
+  const left = margin;
+  const top = margin;
+  const width = pixelsToPoints(tile.width, dpi);
+  const height = pixelsToPoints(tile.height, dpi);
+  const right = left + width;
+  const bottom = top + height;
+  const overlap = pixelsToPoints(layout.overlap, dpi);
+
+  const gap = Math.min(mmToPoints(1), margin / 4);
+  const length = Math.min(mmToPoints(5), margin - gap);
+  if (length > 0) {
+    [[left, top, -1, -1], [right, top, 1, -1], [left, bottom, -1, 1], [right, bottom, 1, 1]].forEach(([x, y, dx, dy]) => {
+      marks.lines.push(
+        { x1: x + dx * gap, y1: y, x2: x + dx * (gap + length), y2: y },
+        { x1: x, y1: y + dy * gap, x2: x, y2: y + dy * (gap + length) }
+      );
+    });
+  }
+
+  const hasLeft = tile.col > 0;
+  const hasRight = tile.col < layout.cols - 1;
+  const hasAbove = tile.row > 0;
+  const hasBelow = tile.row < layout.rows - 1;
+  if (overlap > 0) {
+    if (hasLeft) marks.lines.push({ x1: left + overlap, y1: top, x2: left + overlap, y2: bottom, dashed: true });
+    if (hasRight) marks.lines.push({ x1: right - overlap, y1: top, x2: right - overlap, y2: bottom, dashed: true });
+    if (hasAbove) marks.lines.push({ x1: left, y1: top + overlap, x2: right, y2: top + overlap, dashed: true });
+    if (hasBelow) marks.lines.push({ x1: left, y1: bottom - overlap, x2: right, y2: bottom - overlap, dashed: true });
+  }
+
+  // Without an overlap the targets sit in the margin, centred on the edge
+  const radius = Math.max(mmToPoints(1.5), Math.min(mmToPoints(3), (overlap || margin) * 0.35));
+  const band = overlap > 0 ? overlap / 2 : -Math.min(margin / 2, radius + gap);
+  const targets: { x: number; y: number }[] = [];
+  if (hasLeft) targets.push({ x: left + band, y: top + height / 2 });
+  if (hasRight) targets.push({ x: right - band, y: top + height / 2 });
+  if (hasAbove) targets.push({ x: left + width / 2, y: top + band });
+  if (hasBelow) targets.push({ x: left + width / 2, y: bottom - band });
+  targets.forEach(({ x, y }) => {
+    marks.circles.push({ x, y, radius });
+    marks.lines.push(
+      { x1: x - radius * 1.5, y1: y, x2: x + radius * 1.5, y2: y },
+      { x1: x, y1: y - radius * 1.5, x2: x, y2: y + radius * 1.5 }
+    );
+  });
+
+  const baseline = layout.page.height - Math.max(MARK_FONT_SIZE / 2, margin / 2 - MARK_FONT_SIZE / 2);
+  marks.texts.push({
+    text: `Page ${tile.index + 1} of ${layout.tiles.length} - Tile ${tile.label} (row ${tile.row + 1} of ${layout.rows}, column ${tile.col + 1} of ${layout.cols})`,
+    x: left,
+    y: baseline,
+    size: MARK_FONT_SIZE
+  });
+  return marks;
+};
+
+const renderTile = (image: CanvasImageSource, tile: PrintTile) => {
+  const canvas = createCanvas(tile.width, tile.height);
+  get2dContext(canvas).drawImage(image, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+  return canvas;
+};
+
+export const buildPrintTilePdf = async (
+  image: CanvasImageSource,
+  layout: PrintTileLayout,
+  title: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const pages: PdfPage[] = [];
+  for (const tile of layout.tiles) {
+    const page = createPdfPage(layout.page.width, layout.page.height);
+    const canvas = renderTile(image, tile);
+    drawImage(
+      page,
+      { data: dataUrlToBytes(canvasToDataUrl(canvas, 'jpeg', JPEG_QUALITY)), width: canvas.width, height: canvas.height },
+      layout.margin,
+      layout.margin,
+      pixelsToPoints(tile.width, layout.dpi),
+      pixelsToPoints(tile.height, layout.dpi)
+    );
+
+    const marks = getTileMarks(tile, layout);
+    marks.lines.forEach(({ x1, y1, x2, y2, dashed }) => {
+      drawLine(page, x1, y1, x2, y2, { stroke: [0, 0, 0], lineWidth: 0.5, dash: dashed ? GUIDE_DASH : undefined });
+    });
+    marks.circles.forEach(({ x, y, radius }) => drawCircle(page, x, y, radius, { stroke: [0, 0, 0], lineWidth: 0.5 }));
+    marks.texts.forEach(({ text, x, y, size }) => drawText(page, text, x, y, { size, color: [0.3, 0.3, 0.3] }));
+    pages.push(page);
+
+    onProgress?.(pages.length, layout.tiles.length);
+    await yieldToBrowser();
+  }
+  return createPdf(pages, { title });
+};
+
+// Each tile as a full page image at the print DPI, marks included, so it
+// can be printed at 100% from any image viewer
+export const buildPrintTileImages = async (
+  image: CanvasImageSource,
+  layout: PrintTileLayout,
+  settings: Pick<ExportSettings, 'format' | 'quality'>,
+  baseName: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ZipEntry[]> => {
+  const scale = layout.dpi / 72;
+  const extension = settings.format === 'jpeg' ? 'jpg' : settings.format;
+  const entries: ZipEntry[] = [];
+
+  for (const tile of layout.tiles) {
+    const canvas = createCanvas(Math.round(layout.page.width * scale), Math.round(layout.page.height * scale));
+    const ctx = get2dContext(canvas);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const margin = Math.round(layout.margin * scale);
+    ctx.drawImage(image, tile.x, tile.y, tile.width, tile.height, margin, margin, tile.width, tile.height);
+
+    // Marks are laid out in points, like the PDF
+    const marks = getTileMarks(tile, layout);
+    ctx.scale(scale, scale);
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 0.5;
+    marks.lines.forEach(({ x1, y1, x2, y2, dashed }) => {
+      ctx.setLineDash(dashed ? GUIDE_DASH : []);
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+    marks.circles.forEach(({ x, y, radius }) => {
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+    ctx.fillStyle = '#4d4d4d';
+    marks.texts.forEach(({ text, x, y, size }) => {
+      ctx.font = `${size}px Helvetica, Arial, sans-serif`;
+      ctx.fillText(text, x, y);
+    });
+
+    const number = String(tile.index + 1).padStart(String(layout.tiles.length).length, '0');
+    entries.push({
+      name: `${baseName}_tile_${number}_${tile.label}.${extension}`,
+      data: dataUrlToBytes(canvasToDataUrl(canvas, settings.format, settings.quality))
+    });
+
+    onProgress?.(entries.length, layout.tiles.length);
+    await yieldToBrowser();
+  }
+  return entries;
+};
+
+// The tiles as a linked grid of crops, for editing or exporting like any other
+export const buildPrintTileCrops = (layout: PrintTileLayout, firstZIndex: number): CropArea[] => {
+  const stamp = Date.now();
+  const gridId = `grid-${stamp}`;
+  return layout.tiles.map(tile => ({
+    id: `grid-crop-${stamp}-${tile.row}-${tile.col}`,
+    x: tile.x,
+    y: tile.y,
+    width: tile.width,
+    height: tile.height,
+    rotation: 0,
+    name: `Tile_${tile.label}`,
+    gridId,
+    gridPosition: { row: tile.row, col: tile.col },
+    visible: true,
+    zIndex: firstZIndex + tile.index
+  }));
+};
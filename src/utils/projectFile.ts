@@ -0,0 +1,443 @@
+import { CropArea, ExportSettings, ImageOrientation } from '../App';
+import { DEFAULT_EXPORT_SETTINGS } from './exportSettings';
+import { ATLAS_SIZES } from './atlas';
+import { PAGE_SIZES } from './pdf';
+import { downloadBlob } from './download';
+import { getSourceBaseName } from './videoFrames';
+
+export const PROJECT_FILE_FORMAT = 'imagecrop-pro-project';
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.cropproject.json';
+
+export interface ProjectSource {
+  name: string | null;
+  width: number;
+  height: number;
+  hash: string | null; // SHA-256 of the source image bytes
+  dataUrl?: string; // Present only when the image is bundled into the project
+  orientation?: ImageOrientation; // Rotate/flip applied in the editor; width and height are before it
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  savedAt: string;
+  source: ProjectSource;
+  cropAreas: CropArea[];
+  exportSettings: ExportSettings;
+}
+
+interface CreateProjectOptions {
+  imageUrl: string;
+  imageName: string | null;
+  width: number;
+  height: number;
+  cropAreas: CropArea[];
+  exportSettings: ExportSettings;
+  includeImage: boolean;
+  imageHash?: string | null; // Pass a known hash to skip re-hashing the image
+  orientation?: ImageOrientation;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Hash the raw bytes behind an image URL (data: or blob:) so a project can
+// later be matched against the image it was created from
+export const hashImageUrl = async (imageUrl: string): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  try {
+    const buffer = await (await fetch(imageUrl)).arrayBuffer();
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  } catch (error) {
+    console.error('Failed to hash image:', error);
+    return null;
+  }
+};
+
+export const createProjectFile = async ({
+  imageUrl,
+  imageName,
+  width,
+  height,
+  cropAreas,
+  exportSettings,
+  includeImage,
+  imageHash,
+  orientation
+}: CreateProjectOptions): Promise<ProjectFile> => {
+  const source: ProjectSource = {
+    name: imageName,
+    width,
+    height,
+    hash: imageHash !== undefined ? imageHash : await hashImageUrl(imageUrl)
+  };
+
+  if (includeImage) {
+    source.dataUrl = imageUrl;
+  }
+  if (orientation && (orientation.rotation !== 0 || orientation.flipped)) {
+    source.orientation = { ...orientation };
+  }
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    source,
+    cropAreas: cropAreas.map(crop => ({ ...crop })),
+    exportSettings: { ...exportSettings }
+  };
+};
+
+export const serializeProjectFile = (project: ProjectFile): string => {
+  return JSON.stringify(project, null, 2);
+};
+
+export const getProjectFileName = (project: ProjectFile): string => {
+  const baseName = getSourceBaseName(project.source.name) || 'untitled';
+  return `${baseName.replace(/[^a-z0-9]/gi, '_').toLowerCase()}${PROJECT_FILE_EXTENSION}`;
+};
+
+export const isProjectFileCandidate = (file: File): boolean => {
+  return file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+};
+
+// Version 0 covers files written before the format was versioned: either a
+// bare CropArea[] or an object carrying cropAreas without format metadata
+const migrateFromV0 = (data: unknown): UnknownRecord => {
+  const cropAreas = Array.isArray(data) ? data : (isRecord(data) ? data.cropAreas : undefined);
+  const legacy = isRecord(data) ? data : {};
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: 1,
+    savedAt: typeof legacy.savedAt === 'string' ? legacy.savedAt : new Date(0).toISOString(),
+    source: isRecord(legacy.source) ? legacy.source : { name: null, width: 0, height: 0, hash: null },
+    cropAreas,
+    exportSettings: legacy.exportSettings
+  };
+};
+
+// Fields added in version 2 are all optional and take their defaults when
+// missing, so a version 1 file only needs the new number. Version 1 readers
+// reject version 2 files instead of silently dropping what they don't know.
+const migrateFromV1 = (data: unknown): UnknownRecord => ({ ...(data as UnknownRecord), version: 2 });
+
+// Each entry upgrades a project from the keyed version to the next one
+const MIGRATIONS: Record<number, (data: unknown) => UnknownRecord> = {
+  0: migrateFromV0,
+  1: migrateFromV1
+};
+
+const getVersion = (data: unknown): number => {
+  if (isRecord(data) && data.format === PROJECT_FILE_FORMAT && isFiniteNumber(data.version)) {
+    return data.version;
+  }
+  return 0;
+};
+
+const validateCropArea = (value: unknown, index: number, errors: string[]): CropArea | null => {
+  const path = `cropAreas[${index}]`;
+  if (!isRecord(value)) {
+    errors.push(`${path} is not an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  if (typeof value.id !== 'string' || value.id === '') errors.push(`${path}.id must be a non-empty string`);
+  if (typeof value.name !== 'string') errors.push(`${path}.name must be a string`);
+  if (value.label !== undefined && typeof value.label !== 'string') errors.push(`${path}.label must be a string`);
+  (['x', 'y', 'width', 'height'] as const).forEach(key => {
+    if (!isFiniteNumber(value[key])) errors.push(`${path}.${key} must be a number`);
+  });
+  if (isFiniteNumber(value.width) && value.width <= 0) errors.push(`${path}.width must be positive`);
+  if (isFiniteNumber(value.height) && value.height <= 0) errors.push(`${path}.height must be positive`);
+  if (value.aspectRatio !== undefined && !isFiniteNumber(value.aspectRatio)) errors.push(`${path}.aspectRatio must be a number`);
+  if (value.rotation !== undefined && !isFiniteNumber(value.rotation)) errors.push(`${path}.rotation must be a number`);
+  if (value.gridId !== undefined && typeof value.gridId !== 'string') errors.push(`${path}.gridId must be a string`);
+  if (value.gridPosition !== undefined) {
+    const position = value.gridPosition;
+    if (!isRecord(position) || !isFiniteNumber(position.row) || !isFiniteNumber(position.col)) {
+      errors.push(`${path}.gridPosition must have numeric row and col`);
+    }
+  }
+  if (value.visible !== undefined && typeof value.visible !== 'boolean') errors.push(`${path}.visible must be a boolean`);
+  if (value.zIndex !== undefined && !isFiniteNumber(value.zIndex)) errors.push(`${path}.zIndex must be a number`);
+  if (value.outputSize !== undefined) {
+    const size = value.outputSize;
+    if (!isRecord(size) || !isFiniteNumber(size.width) || !isFiniteNumber(size.height) || size.width < 1 || size.height < 1) {
+      errors.push(`${path}.outputSize must have a positive width and height`);
+    }
+  }
+
+  if (errors.length > errorCount) return null;
+
+  const gridPosition = value.gridPosition as { row: number; col: number } | undefined;
+  const outputSize = value.outputSize as { width: number; height: number } | undefined;
+  return {
+    id: value.id as string,
+    name: value.name as string,
+    label: value.label as string | undefined,
+    x: value.x as number,
+    y: value.y as number,
+    width: value.width as number,
+    height: value.height as number,
+    aspectRatio: value.aspectRatio as number | undefined,
+    rotation: (value.rotation as number | undefined) ?? 0,
+    gridId: value.gridId as string | undefined,
+    gridPosition: gridPosition ? { row: gridPosition.row, col: gridPosition.col } : undefined,
+    visible: (value.visible as boolean | undefined) ?? true,
+    zIndex: (value.zIndex as number | undefined) ?? index,
+    outputSize: outputSize ? { width: Math.round(outputSize.width), height: Math.round(outputSize.height) } : undefined
+  };
+};
+
+const validateExportSettings = (value: unknown, errors: string[]): ExportSettings => {
+  if (value === undefined) return { ...DEFAULT_EXPORT_SETTINGS };
+  if (!isRecord(value)) {
+    errors.push('exportSettings is not an object');
+    return { ...DEFAULT_EXPORT_SETTINGS };
+  }
+
+  const settings = { ...DEFAULT_EXPORT_SETTINGS, ...value } as ExportSettings;
+  settings.resize = { ...DEFAULT_EXPORT_SETTINGS.resize, ...(isRecord(value.resize) ? value.resize : {}) };
+  settings.variants = { ...DEFAULT_EXPORT_SETTINGS.variants, ...(isRecord(value.variants) ? value.variants : {}) };
+  settings.background = { ...DEFAULT_EXPORT_SETTINGS.background, ...(isRecord(value.background) ? value.background : {}) };
+  settings.targetSize = { ...DEFAULT_EXPORT_SETTINGS.targetSize, ...(isRecord(value.targetSize) ? value.targetSize : {}) };
+  settings.contactSheet = { ...DEFAULT_EXPORT_SETTINGS.contactSheet, ...(isRecord(value.contactSheet) ? value.contactSheet : {}) };
+  settings.atlas = { ...DEFAULT_EXPORT_SETTINGS.atlas, ...(isRecord(value.atlas) ? value.atlas : {}) };
+  settings.printTiling = { ...DEFAULT_EXPORT_SETTINGS.printTiling, ...(isRecord(value.printTiling) ? value.printTiling : {}) };
+  const metadata = isRecord(value.metadata) ? value.metadata : {};
+  settings.metadata = {
+    ...DEFAULT_EXPORT_SETTINGS.metadata,
+    ...metadata,
+    keep: { ...DEFAULT_EXPORT_SETTINGS.metadata.keep, ...(isRecord(metadata.keep) ? metadata.keep : {}) }
+  };
+  if (!['png', 'jpeg', 'webp'].includes(settings.format)) {
+    errors.push(`exportSettings.format "${String(settings.format)}" is not supported`);
+  }
+  if (!isFiniteNumber(settings.quality) || settings.quality <= 0 || settings.quality > 1) {
+    errors.push('exportSettings.quality must be between 0 and 1');
+  }
+  if (!['json', 'csv', 'both'].includes(settings.manifestFormat)) {
+    errors.push(`exportSettings.manifestFormat "${String(settings.manifestFormat)}" is not supported`);
+  }
+  if (typeof settings.fileNameTemplate !== 'string') {
+    errors.push('exportSettings.fileNameTemplate must be a string');
+  }
+  (['archive', 'includeManifest', 'preserveCase', 'preserveUnicode'] as const).forEach(key => {
+    if (typeof settings[key] !== 'boolean') errors.push(`exportSettings.${key} must be a boolean`);
+  });
+  if (!['original', 'exact', 'fit', 'scale', 'longest-edge'].includes(settings.resize.mode)) {
+    errors.push(`exportSettings.resize.mode "${String(settings.resize.mode)}" is not supported`);
+  }
+  (['width', 'height', 'scale', 'longestEdge'] as const).forEach(key => {
+    const size = settings.resize[key];
+    if (!isFiniteNumber(size) || size < 0) errors.push(`exportSettings.resize.${key} must be a non-negative number`);
+  });
+  if (!['browser', 'stepped', 'bicubic', 'lanczos'].includes(settings.resampling)) {
+    errors.push(`exportSettings.resampling "${String(settings.resampling)}" is not supported`);
+  }
+  if (!isFiniteNumber(settings.sharpen) || settings.sharpen < 0 || settings.sharpen > 1) {
+    errors.push('exportSettings.sharpen must be between 0 and 1');
+  }
+  const { variants } = settings;
+  if (typeof variants.enabled !== 'boolean') errors.push('exportSettings.variants.enabled must be a boolean');
+  if (!['density', 'widths'].includes(variants.mode)) errors.push(`exportSettings.variants.mode "${String(variants.mode)}" is not supported`);
+  (['densities', 'widths'] as const).forEach(key => {
+    const list: unknown = variants[key];
+    if (!Array.isArray(list) || !list.every(item => isFiniteNumber(item) && item > 0)) {
+      errors.push(`exportSettings.variants.${key} must be a list of positive numbers`);
+    }
+  });
+  if (!['img', 'picture'].includes(variants.markup)) errors.push(`exportSettings.variants.markup "${String(variants.markup)}" is not supported`);
+  if (typeof variants.sizes !== 'string') errors.push('exportSettings.variants.sizes must be a string');
+  if (!['straighten', 'bounding-box', 'inset'].includes(settings.rotatedOutput)) {
+    errors.push(`exportSettings.rotatedOutput "${String(settings.rotatedOutput)}" is not supported`);
+  }
+  if (!['transparent', 'color', 'blur', 'edge-extend'].includes(settings.background.mode)) {
+    errors.push(`exportSettings.background.mode "${String(settings.background.mode)}" is not supported`);
+  }
+  if (typeof settings.background.color !== 'string') errors.push('exportSettings.background.color must be a string');
+  if (typeof settings.targetSize.enabled !== 'boolean') errors.push('exportSettings.targetSize.enabled must be a boolean');
+  if (!isFiniteNumber(settings.targetSize.kilobytes) || settings.targetSize.kilobytes <= 0) {
+    errors.push('exportSettings.targetSize.kilobytes must be a positive number');
+  }
+  const { contactSheet } = settings;
+  if (!Object.keys(PAGE_SIZES).includes(contactSheet.pageSize)) {
+    errors.push(`exportSettings.contactSheet.pageSize "${String(contactSheet.pageSize)}" is not supported`);
+  }
+  if (!['portrait', 'landscape'].includes(contactSheet.orientation)) {
+    errors.push(`exportSettings.contactSheet.orientation "${String(contactSheet.orientation)}" is not supported`);
+  }
+  if (!Number.isInteger(contactSheet.columns) || contactSheet.columns < 1) {
+    errors.push('exportSettings.contactSheet.columns must be a positive whole number');
+  }
+  if (!isFiniteNumber(contactSheet.margin) || contactSheet.margin < 0) {
+    errors.push('exportSettings.contactSheet.margin must be a non-negative number');
+  }
+  if (typeof contactSheet.header !== 'string') errors.push('exportSettings.contactSheet.header must be a string');
+  if (typeof contactSheet.includeOverview !== 'boolean') {
+    errors.push('exportSettings.contactSheet.includeOverview must be a boolean');
+  }
+  if (!ATLAS_SIZES.includes(settings.atlas.maxSize)) {
+    errors.push(`exportSettings.atlas.maxSize must be one of ${ATLAS_SIZES.join(', ')}`);
+  }
+  (['padding', 'extrude'] as const).forEach(key => {
+    const size = settings.atlas[key];
+    if (!Number.isInteger(size) || size < 0) errors.push(`exportSettings.atlas.${key} must be a non-negative whole number`);
+  });
+  const { printTiling } = settings;
+  if (!Object.keys(PAGE_SIZES).includes(printTiling.paper)) {
+    errors.push(`exportSettings.printTiling.paper "${String(printTiling.paper)}" is not supported`);
+  }
+  if (!['portrait', 'landscape'].includes(printTiling.orientation)) {
+    errors.push(`exportSettings.printTiling.orientation "${String(printTiling.orientation)}" is not supported`);
+  }
+  if (!isFiniteNumber(printTiling.dpi) || printTiling.dpi <= 0) errors.push('exportSettings.printTiling.dpi must be a positive number');
+  (['overlap', 'margin'] as const).forEach(key => {
+    const size = printTiling[key];
+    if (!isFiniteNumber(size) || size < 0) errors.push(`exportSettings.printTiling.${key} must be a non-negative number`);
+  });
+  Object.entries(settings.metadata.keep).forEach(([key, keep]) => {
+    if (typeof keep !== 'boolean') errors.push(`exportSettings.metadata.keep.${key} must be a boolean`);
+  });
+  (['artist', 'copyright'] as const).forEach(key => {
+    if (typeof settings.metadata[key] !== 'string') errors.push(`exportSettings.metadata.${key} must be a string`);
+  });
+  if (!['gif', 'webp', 'still'].includes(settings.animationFormat)) {
+    errors.push(`exportSettings.animationFormat "${String(settings.animationFormat)}" is not supported`);
+  }
+  return settings;
+};
+
+const validateSource = (value: unknown, errors: string[]): ProjectSource => {
+  if (!isRecord(value)) {
+    errors.push('source is not an object');
+    return { name: null, width: 0, height: 0, hash: null };
+  }
+
+  if (value.name !== null && value.name !== undefined && typeof value.name !== 'string') errors.push('source.name must be a string');
+  if (!isFiniteNumber(value.width) || !isFiniteNumber(value.height)) errors.push('source.width and source.height must be numbers');
+  if (value.hash !== null && value.hash !== undefined && typeof value.hash !== 'string') errors.push('source.hash must be a string');
+  if (value.dataUrl !== undefined && (typeof value.dataUrl !== 'string' || !value.dataUrl.startsWith('data:image/'))) {
+    errors.push('source.dataUrl must be an image data URL');
+  }
+  const orientation = value.orientation;
+  if (orientation !== undefined &&
+      (!isRecord(orientation) || ![0, 90, 180, 270].includes(orientation.rotation as number) || typeof orientation.flipped !== 'boolean')) {
+    errors.push('source.orientation must have a rotation of 0, 90, 180 or 270 and a boolean flipped');
+  }
+
+  return {
+    name: (value.name as string | null | undefined) ?? null,
+    width: value.width as number,
+    height: value.height as number,
+    hash: (value.hash as string | null | undefined) ?? null,
+    dataUrl: value.dataUrl as string | undefined,
+    orientation: isRecord(orientation)
+      ? { rotation: orientation.rotation as ImageOrientation['rotation'], flipped: orientation.flipped as boolean }
+      : undefined
+  };
+};
+
+// Parse, migrate and validate a project file. Throws with a readable list of
+// problems when the file can't be used.
+export const parseProjectFile = (text: string): ProjectFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+
+  let version = getVersion(data);
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(`Project file version ${version} is newer than this app supports (${PROJECT_FILE_VERSION})`);
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Don't know how to upgrade project file version ${version}`);
+    }
+    data = migrate(data);
+    version = getVersion(data);
+  }
+
+  const record = data as UnknownRecord;
+  const errors: string[] = [];
+
+  if (!Array.isArray(record.cropAreas)) {
+    errors.push('cropAreas must be an array');
+  }
+
+  const source = validateSource(record.source, errors);
+  const exportSettings = validateExportSettings(record.exportSettings, errors);
+  const cropAreas = Array.isArray(record.cropAreas)
+    ? record.cropAreas
+        .map((crop, index) => validateCropArea(crop, index, errors))
+        .filter((crop): crop is CropArea => crop !== null)
+    : [];
+
+  const ids = new Set<string>();
+  cropAreas.forEach(crop => {
+    if (ids.has(crop.id)) errors.push(`Duplicate crop id "${crop.id}"`);
+    ids.add(crop.id);
+  });
+
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 5).join('\n• ');
+    const more = errors.length > 5 ? `\n…and ${errors.length - 5} more` : '';
+    throw new Error(`Invalid project file:\n• ${shown}${more}`);
+  }
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: typeof record.savedAt === 'string' ? record.savedAt : new Date().toISOString(),
+    source,
+    cropAreas,
+    exportSettings
+  };
+};
+
+// Compare a loaded project against the image it's about to be applied to.
+// Returns human-readable warnings; an empty list means everything matches.
+export const checkProjectImage = async (
+  project: ProjectFile,
+  imageUrl: string,
+  image: { width: number; height: number }
+): Promise<string[]> => {
+  const warnings: string[] = [];
+  const { source } = project;
+
+  if (source.hash) {
+    const hash = await hashImageUrl(imageUrl);
+    if (hash && hash !== source.hash) {
+      warnings.push(`The image doesn't match the one this project was saved with${source.name ? ` (${source.name})` : ''}.`);
+    }
+  }
+
+  if (source.width > 0 && source.height > 0 &&
+      (source.width !== image.width || source.height !== image.height)) {
+    warnings.push(`Image size ${image.width} × ${image.height} differs from the saved ${source.width} × ${source.height}; crops may be misplaced.`);
+  }
+
+  return warnings;
+};
+
+export const downloadProjectFile = (project: ProjectFile) => {
+  const blob = new Blob([serializeProjectFile(project)], { type: 'application/json' });
+  downloadBlob(blob, getProjectFileName(project));
+};
@@ -0,0 +1,235 @@
+import { ResamplingMethod } from '../App';
+
+type Kernel = { support: number; weight: (x: number) => number };
+
+const sinc = (x: number): number => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const KERNELS: Record<'bicubic' | 'lanczos', Kernel> = {
+  // Catmull-Rom (a = -0.5)
+  bicubic: {
+    support: 2,
+    weight: (x) => {
+      const t = Math.abs(x);
+      if (t < 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+      if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+      return 0;
+    }
+  },
+  // Lanczos-3
+  lanczos: {
+    support: 3,
+    weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0)
+  }
+};
+
+// Browsers refuse, or silently leave blank, canvases beyond these; iOS
+// allows far less than desktop browsers
+export const MAX_CANVAS_SIDE = 16384;
+const isIos = () => /iP(hone|ad|od)/.test(navigator.userAgent) ||
+  (navigator.userAgent.includes('Macintosh') && navigator.maxTouchPoints > 1);
+const getMaxCanvasArea = () => (isIos() ? 16_777_216 : 134_217_728);
+
+export const fitsInCanvas = ({ width, height }: { width: number; height: number }) =>
+  width <= MAX_CANVAS_SIDE && height <= MAX_CANVAS_SIDE && width * height <= getMaxCanvasArea();
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Long canvas loops call this between items so progress indicators can repaint
+export const yieldToBrowser = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+export const get2dContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  return ctx;
+};
+
+// Precompute, for each output pixel along one axis, which source pixels
+// contribute and with what (normalized) weight
+const computeWeights = (sourceSize: number, targetSize: number, kernel: Kernel) => {
+  const scale = targetSize / sourceSize;
+  // Widen the kernel when shrinking so every source pixel is accounted for
+  const filterScale = Math.max(1, 1 / scale);
+  const radius = kernel.support * filterScale;
+  const starts = new Int32Array(targetSize);
+  const weights: Float32Array[] = [];
+
+  for (let i = 0; i < targetSize; i++) {
+    const center = (i + 0.5) / scale - 0.5;
+    const start = Math.max(0, Math.floor(center - radius));
+    const end = Math.min(sourceSize - 1, Math.ceil(center + radius));
+    const row = new Float32Array(end - start + 1);
+    let total = 0;
+    for (let j = start; j <= end; j++) {
+      const weight = kernel.weight((j - center) / filterScale);
+      row[j - start] = weight;
+      total += weight;
+    }
+    if (total !== 0) {
+      for (let k = 0; k < row.length; k++) row[k] /= total;
+    }
+    starts[i] = start;
+    weights.push(row);
+  }
+
+  return { starts, weights };
+};
+
+// Separable convolution on premultiplied RGBA so transparent edges don't halo
+const resampleWithKernel = (
+  source: HTMLCanvasElement,
+  width: number,
+  height: number,
+  kernel: Kernel
+): HTMLCanvasElement => {
+  const sourceWidth = source.width;
+  const sourceHeight = source.height;
+  const input = get2dContext(source).getImageData(0, 0, sourceWidth, sourceHeight).data;
+
+  const premultiplied = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i += 4) {
+    const alpha = input[i + 3] / 255;
+    premultiplied[i] = input[i] * alpha;
+    premultiplied[i + 1] = input[i + 1] * alpha;
+    premultiplied[i + 2] = input[i + 2] * alpha;
+    premultiplied[i + 3] = input[i + 3];
+  }
+
+  // Horizontal pass: sourceWidth x sourceHeight -> width x sourceHeight
+  const horizontal = computeWeights(sourceWidth, width, kernel);
+  const intermediate = new Float32Array(width * sourceHeight * 4);
+  for (let y = 0; y < sourceHeight; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = horizontal.weights[x];
+      let offset = (y * sourceWidth + horizontal.starts[x]) * 4;
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < row.length; k++, offset += 4) {
+        const weight = row[k];
+        r += premultiplied[offset] * weight;
+        g += premultiplied[offset + 1] * weight;
+        b += premultiplied[offset + 2] * weight;
+        a += premultiplied[offset + 3] * weight;
+      }
+      const target = (y * width + x) * 4;
+      intermediate[target] = r;
+      intermediate[target + 1] = g;
+      intermediate[target + 2] = b;
+      intermediate[target + 3] = a;
+    }
+  }
+
+  // Vertical pass: width x sourceHeight -> width x height
+  const vertical = computeWeights(sourceHeight, height, kernel);
+  const output = new ImageData(width, height);
+  const out = output.data;
+  for (let y = 0; y < height; y++) {
+    const column = vertical.weights[y];
+    const start = vertical.starts[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < column.length; k++) {
+        const offset = ((start + k) * width + x) * 4;
+        const weight = column[k];
+        r += intermediate[offset] * weight;
+        g += intermediate[offset + 1] * weight;
+        b += intermediate[offset + 2] * weight;
+        a += intermediate[offset + 3] * weight;
+      }
+      const target = (y * width + x) * 4;
+      const alpha = Math.min(255, Math.max(0, a));
+      // Un-premultiply; Uint8ClampedArray handles rounding and clamping
+      const factor = alpha > 0 ? 255 / alpha : 0;
+      out[target] = r * factor;
+      out[target + 1] = g * factor;
+      out[target + 2] = b * factor;
+      out[target + 3] = alpha;
+    }
+  }
+
+  const canvas = createCanvas(width, height);
+  get2dContext(canvas).putImageData(output, 0, 0);
+  return canvas;
+};
+
+const resampleBrowser = (source: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement => {
+  const canvas = createCanvas(width, height);
+  const ctx = get2dContext(canvas);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+};
+
+// Halve repeatedly with the browser's smoothing, then do the final step.
+// Avoids the aliasing a single large drawImage downscale produces.
+const resampleStepped = (source: HTMLCanvasElement, width: number, height: number): HTMLCanvasElement => {
+  let current = source;
+  while (current.width / 2 >= width && current.height / 2 >= height) {
+    const next = createCanvas(Math.round(current.width / 2), Math.round(current.height / 2));
+    const ctx = get2dContext(next);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(current, 0, 0, next.width, next.height);
+    current = next;
+  }
+  return resampleBrowser(current, width, height);
+};
+
+export const resampleCanvas = (
+  source: HTMLCanvasElement,
+  width: number,
+  height: number,
+  method: ResamplingMethod
+): HTMLCanvasElement => {
+  if (source.width === width && source.height === height) return source;
+
+  switch (method) {
+    case 'bicubic':
+    case 'lanczos':
+      return resampleWithKernel(source, width, height, KERNELS[method]);
+    case 'stepped':
+      return resampleStepped(source, width, height);
+    default:
+      return resampleBrowser(source, width, height);
+  }
+};
+
+// Unsharp mask with a small blur; amount 0 leaves the image untouched
+export const sharpenCanvas = (canvas: HTMLCanvasElement, amount: number) => {
+  if (amount <= 0) return;
+
+  const { width, height } = canvas;
+  const ctx = get2dContext(canvas);
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const original = new Uint8ClampedArray(data);
+  const blurWeights = [1, 2, 1, 2, 4, 2, 1, 2, 1];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        let blurred = 0;
+        let k = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const sy = Math.min(height - 1, Math.max(0, y + dy));
+          for (let dx = -1; dx <= 1; dx++, k++) {
+            const sx = Math.min(width - 1, Math.max(0, x + dx));
+            blurred += original[(sy * width + sx) * 4 + channel] * blurWeights[k];
+          }
+        }
+        blurred /= 16;
+        const value = original[index + channel];
+        data[index + channel] = value + (value - blurred) * amount;
+      }
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+};
@@ -0,0 +1,96 @@
+import { CropArea, ExportSettings } from '../App';
+import { getCropOutputSize } from './cropRenderer';
+import { getMimeType } from './exportSettings';
+
+type VariantOptions = Pick<ExportSettings, 'resize' | 'rotatedOutput' | 'variants'>;
+
+export interface VariantSpec {
+  suffix: string; // Added to the file name, e.g. "@2x" or "-640w"
+  descriptor: string; // srcset descriptor, e.g. "2x" or "640w"; empty without variants
+  width: number;
+  height: number;
+}
+
+export interface ExportedVariant {
+  file: string;
+  width: number;
+  height: number;
+  descriptor: string;
+  bytes: number;
+  format: ExportSettings['format'] | 'gif'; // As encoded: oversized crops are PNG, animations GIF or WebP
+  quality: number | null; // Encoder quality actually used; null for PNG
+}
+
+export interface ExportedCrop {
+  crop: CropArea;
+  variants: ExportedVariant[];
+}
+
+const uniqueSorted = (values: number[]) => Array.from(new Set(values)).sort((a, b) => a - b);
+
+// Sizes to render for one crop. Without variants this is just the output size.
+export const getVariantSpecs = (crop: CropArea, settings: VariantOptions): VariantSpec[] => {
+  const { variants } = settings;
+  if (!variants.enabled) {
+    return [{ suffix: '', descriptor: '', ...getCropOutputSize(crop, settings) }];
+  }
+
+  if (variants.mode === 'density') {
+    // Densities multiply the configured output size, which acts as 1x
+    const base = getCropOutputSize(crop, settings);
+    return uniqueSorted(variants.densities).map(density => ({
+      suffix: density === 1 ? '' : `@${density}x`,
+      descriptor: `${density}x`,
+      width: Math.max(1, Math.round(base.width * density)),
+      height: Math.max(1, Math.round(base.height * density))
+    }));
+  }
+
+  // Width variants never upscale beyond the configured output size
+  const { width: baseWidth, height: baseHeight } = getCropOutputSize(crop, settings);
+  const widths = uniqueSorted(variants.widths.map(Math.round)).filter(width => width <= baseWidth);
+  if (widths.length === 0) widths.push(baseWidth);
+
+  return widths.map(width => ({
+    suffix: `-${width}w`,
+    descriptor: `${width}w`,
+    width,
+    height: Math.max(1, Math.round((width * baseHeight) / baseWidth))
+  }));
+};
+
+// Insert a suffix before the extension: "crop.png" + "@2x" -> "crop@2x.png"
+export const addFileNameSuffix = (fileName: string, suffix: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? `${fileName.slice(0, dot)}${suffix}${fileName.slice(dot)}` : `${fileName}${suffix}`;
+};
+
+const escapeAttribute = (value: string) => {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+};
+
+export const buildSrcsetMarkup = (
+  crops: ExportedCrop[],
+  settings: Pick<ExportSettings, 'variants'>
+): string => {
+  const { markup, mode, sizes } = settings.variants;
+
+  return crops.map(({ crop, variants }) => {
+    if (variants.length === 0) return '';
+
+    const srcset = variants.map(variant => `${encodeURI(variant.file)} ${variant.descriptor}`).join(', ');
+    const sizesAttribute = mode === 'widths' && sizes ? ` sizes="${escapeAttribute(sizes)}"` : '';
+    // The smallest density (1x) or the largest width is the fallback src
+    const fallback = mode === 'density' ? variants[0] : variants[variants.length - 1];
+    const img = `<img src="${encodeURI(fallback.file)}" srcset="${srcset}"${sizesAttribute} width="${fallback.width}" height="${fallback.height}" alt="${escapeAttribute(crop.name)}">`;
+
+    if (markup === 'img') return img;
+
+    return [
+      '<picture>',
+      `  <source type="${getMimeType(variants[0].format)}" srcset="${srcset}"${sizesAttribute}>`,
+      `  ${img}`,
+      '</picture>'
+    ].join('\n');
+  }).filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,153 @@
+import { ProjectFile } from './projectFile';
+
+const DB_NAME = 'imagecrop-pro';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const IMAGE_STORE = 'images';
+const MAX_SESSIONS = 12;
+
+export interface SessionRecord {
+  id: string;
+  name: string | null;
+  updatedAt: number;
+  thumbnail: string;
+  cropCount: number;
+  project: ProjectFile; // Stored without source.dataUrl; the image lives in IMAGE_STORE
+}
+
+interface ImageRecord {
+  id: string;
+  dataUrl: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          sessions.createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. storage was blocked)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE);
+  const sessions = await requestToPromise(store.getAll() as IDBRequest<SessionRecord[]>);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// Write a session snapshot. The image only needs to be passed the first time
+// a session is saved; later snapshots just update crops and settings.
+export const saveSession = async (session: SessionRecord, imageDataUrl?: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, IMAGE_STORE], 'readwrite');
+  const project = { ...session.project, source: { ...session.project.source } };
+  delete project.source.dataUrl;
+
+  transaction.objectStore(SESSION_STORE).put({ ...session, project });
+  if (imageDataUrl) {
+    transaction.objectStore(IMAGE_STORE).put({ id: session.id, dataUrl: imageDataUrl } as ImageRecord);
+  }
+  await transactionDone(transaction);
+
+  await pruneSessions();
+};
+
+export const loadSession = async (id: string): Promise<ProjectFile | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, IMAGE_STORE], 'readonly');
+  const session = await requestToPromise(
+    transaction.objectStore(SESSION_STORE).get(id) as IDBRequest<SessionRecord | undefined>
+  );
+  const image = await requestToPromise(
+    transaction.objectStore(IMAGE_STORE).get(id) as IDBRequest<ImageRecord | undefined>
+  );
+
+  if (!session || !image) return null;
+  return { ...session.project, source: { ...session.project.source, dataUrl: image.dataUrl } };
+};
+
+export const deleteSession = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, IMAGE_STORE], 'readwrite');
+  transaction.objectStore(SESSION_STORE).delete(id);
+  transaction.objectStore(IMAGE_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// Keep only the most recent sessions so stored images don't pile up
+const pruneSessions = async () => {
+  const sessions = await listSessions();
+  for (const session of sessions.slice(MAX_SESSIONS)) {
+    await deleteSession(session.id);
+  }
+};
+
+// Small preview of the image with crop outlines, shown in the recent list
+export const createSessionThumbnail = (
+  image: CanvasImageSource & { width: number; height: number },
+  cropAreas: ProjectFile['cropAreas'],
+  maxSize: number = 160
+): string => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  ctx.strokeStyle = '#3B82F6';
+  ctx.lineWidth = 1.5;
+  cropAreas
+    .filter(crop => crop.visible !== false)
+    .forEach(crop => {
+      const centerX = (crop.x + crop.width / 2) * scale;
+      const centerY = (crop.y + crop.height / 2) * scale;
+      ctx.save();
+      ctx.translate(centerX, centerY);
+      ctx.rotate(((crop.rotation || 0) * Math.PI) / 180);
+      ctx.strokeRect(-crop.width * scale / 2, -crop.height * scale / 2, crop.width * scale, crop.height * scale);
+      ctx.restore();
+    });
+
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
@@ -0,0 +1,102 @@
+import { ExportSettings } from '../App';
+import { canvasToDataUrl } from './cropRenderer';
+import { MetadataPayload, embedMetadata, getMetadataSize } from './metadata';
+import { resampleCanvas } from './resample';
+import { getDataUrlByteLength } from './zip';
+
+export interface EncodedImage {
+  dataUrl: string;
+  bytes: number;
+  quality: number | null; // null for PNG, which has no quality setting
+  width: number;
+  height: number;
+  withinTarget: boolean; // False when the budget could not be met even at the smallest size
+}
+
+type EncodeSettings = Pick<ExportSettings, 'format' | 'quality' | 'targetSize' | 'resampling'>;
+
+const MIN_QUALITY = 0.1;
+const SEARCH_STEPS = 7; // Quality resolution of about 0.01
+const MAX_DOWNSCALES = 8;
+const MIN_DIMENSION = 16;
+
+export const supportsTargetSize = (format: ExportSettings['format']) => format === 'jpeg' || format === 'webp';
+
+const encode = (canvas: HTMLCanvasElement, format: ExportSettings['format'], quality: number) => {
+  const dataUrl = canvasToDataUrl(canvas, format, quality);
+  return { dataUrl, bytes: getDataUrlByteLength(dataUrl), quality };
+};
+
+// Highest quality that fits the budget, or null when even the lowest doesn't
+const searchQuality = (canvas: HTMLCanvasElement, format: ExportSettings['format'], maxBytes: number) => {
+  const highest = encode(canvas, format, 1);
+  if (highest.bytes <= maxBytes) return { best: highest, smallest: highest };
+
+  const smallest = encode(canvas, format, MIN_QUALITY);
+  if (smallest.bytes > maxBytes) return { best: null, smallest };
+
+  let best = smallest;
+  let low = MIN_QUALITY;
+  let high = 1;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const quality = (low + high) / 2;
+    const attempt = encode(canvas, format, quality);
+    if (attempt.bytes <= maxBytes) {
+      best = attempt;
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return { best, smallest };
+};
+
+// Encode a rendered crop. With a target size, binary-search the JPEG/WebP
+// quality; if the lowest quality is still too large, scale the image down
+// (estimating the factor from the size overshoot) and search again.
+// Metadata is embedded afterwards, with room for it kept in the budget.
+export const encodeForExport = (
+  canvas: HTMLCanvasElement,
+  settings: EncodeSettings,
+  metadata: MetadataPayload | null = null
+): EncodedImage => {
+  const encoded = encodeImage(canvas, settings, getMetadataSize(metadata, settings.format));
+  const dataUrl = embedMetadata(encoded.dataUrl, metadata, encoded.width, encoded.height);
+  return dataUrl === encoded.dataUrl ? encoded : { ...encoded, dataUrl, bytes: getDataUrlByteLength(dataUrl) };
+};
+
+const encodeImage = (canvas: HTMLCanvasElement, settings: EncodeSettings, reservedBytes: number): EncodedImage => {
+  const { format, targetSize } = settings;
+
+  if (!targetSize.enabled || !supportsTargetSize(format)) {
+    const dataUrl = canvasToDataUrl(canvas, format, settings.quality);
+    return {
+      dataUrl,
+      bytes: getDataUrlByteLength(dataUrl),
+      quality: format === 'png' ? null : settings.quality,
+      width: canvas.width,
+      height: canvas.height,
+      withinTarget: true
+    };
+  }
+
+  const maxBytes = Math.max(1, Math.max(1, targetSize.kilobytes) * 1024 - reservedBytes);
+  let current = canvas;
+  let scale = 1;
+  for (let attempt = 0; ; attempt++) {
+    const { best, smallest } = searchQuality(current, format, maxBytes);
+    const result = best || smallest;
+    const canShrink = Math.min(current.width, current.height) > MIN_DIMENSION;
+    if (best || attempt >= MAX_DOWNSCALES || !canShrink) {
+      return { ...result, width: current.width, height: current.height, withinTarget: !!best };
+    }
+
+    // File size grows roughly with pixel count, so shrink by the square root
+    // of the overshoot and a little more to avoid needless extra rounds
+    scale *= Math.min(0.9, Math.sqrt(maxBytes / smallest.bytes) * 0.95);
+    const width = Math.max(1, Math.round(canvas.width * scale));
+    const height = Math.max(1, Math.round(canvas.height * scale));
+    // Always resample from the full-size render to avoid compounding blur
+    current = resampleCanvas(canvas, width, height, settings.resampling);
+  }
+};
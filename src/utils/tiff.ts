@@ -0,0 +1,409 @@
+// TIFF decoding. Browsers other than Safari can't show TIFF, so scans are
+// decoded here to 8-bit RGBA: strips or tiles, chunky or planar samples,
+// uncompressed, LZW, PackBits or Deflate, with the horizontal predictor.
+
+export interface TiffPage {
+  index: number; // Position among the file's pages, from 0
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  samplesPerPixel: number;
+  compression: string; // For display, e.g. "LZW"
+  colorMode: string; // For display, e.g. "RGB" or "Greyscale + alpha"
+  problem: string | null; // Why the page can't be decoded, if it can't
+  tags: Map<number, number[]>; // Raw directory entries, read by decodeTiffPage
+}
+
+export interface DecodedTiff {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA
+}
+
+const TAG = {
+  subfileType: 254,
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338,
+  sampleFormat: 339
+};
+
+const COMPRESSION_NAMES: Record<number, string> = {
+  1: 'Uncompressed',
+  2: 'CCITT RLE',
+  3: 'CCITT Group 3',
+  4: 'CCITT Group 4',
+  5: 'LZW',
+  6: 'Old-style JPEG',
+  7: 'JPEG',
+  8: 'Deflate',
+  32773: 'PackBits',
+  32946: 'Deflate'
+};
+const SUPPORTED_COMPRESSIONS = [1, 5, 8, 32773, 32946];
+
+// Bytes per value for each field type; 5 and 10 are fractions of two longs
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+// Guards against directory chains that loop back on themselves
+const MAX_PAGES = 10_000;
+
+export const isTiff = (bytes: Uint8Array) =>
+  bytes.length >= 8 &&
+  ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+   (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42));
+
+const readValue = (view: DataView, offset: number, type: number, littleEndian: boolean): number => {
+  switch (type) {
+    case 3: return view.getUint16(offset, littleEndian);
+    case 4: return view.getUint32(offset, littleEndian);
+    case 5: return view.getUint32(offset, littleEndian) / (view.getUint32(offset + 4, littleEndian) || 1);
+    case 6: return view.getInt8(offset);
+    case 8: return view.getInt16(offset, littleEndian);
+    case 9: return view.getInt32(offset, littleEndian);
+    case 10: return view.getInt32(offset, littleEndian) / (view.getInt32(offset + 4, littleEndian) || 1);
+    case 11: return view.getFloat32(offset, littleEndian);
+    case 12: return view.getFloat64(offset, littleEndian);
+    default: return view.getUint8(offset);
+  }
+};
+
+const readDirectory = (view: DataView, offset: number, littleEndian: boolean) => {
+  const tags = new Map<number, number[]>();
+  const count = view.getUint16(offset, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    // Values that fit in four bytes are stored in the entry itself
+    const valueOffset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    if (valueOffset + size * valueCount > view.byteLength) continue;
+    const values: number[] = [];
+    for (let j = 0; j < valueCount; j++) values.push(readValue(view, valueOffset + j * size, type, littleEndian));
+    tags.set(tag, values);
+  }
+  return { tags, next: view.getUint32(offset + 2 + count * 12, littleEndian) };
+};
+
+const getTag = (tags: Map<number, number[]>, tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+const getPhotometric = (tags: Map<number, number[]>) =>
+  getTag(tags, TAG.photometric, getTag(tags, TAG.samplesPerPixel, 1) >= 3 ? 2 : 1);
+
+// Extra samples flagged as alpha: 1 is premultiplied, 2 is straight. Files
+// that don't say are treated as straight alpha.
+const getAlphaType = (tags: Map<number, number[]>, colorSamples: number) => {
+  if (getTag(tags, TAG.samplesPerPixel, 1) <= colorSamples) return 0;
+  const extra = tags.get(TAG.extraSamples);
+  return extra ? extra[0] : 2;
+};
+
+const getColorMode = (photometric: number, hasAlpha: boolean) => {
+  const mode = photometric <= 1 ? 'Greyscale' :
+               photometric === 2 ? 'RGB' :
+               photometric === 3 ? 'Palette' :
+               photometric === 5 ? 'CMYK' :
+               photometric === 6 ? 'YCbCr' :
+               photometric === 8 ? 'CIELab' : `Photometric ${photometric}`;
+  return hasAlpha ? (photometric === 2 ? 'RGBA' : `${mode} + alpha`) : mode;
+};
+
+const getPageProblem = (tags: Map<number, number[]>): string | null => {
+  const compression = getTag(tags, TAG.compression, 1);
+  const photometric = getPhotometric(tags);
+  const bits = tags.get(TAG.bitsPerSample) || [1];
+  const samples = getTag(tags, TAG.samplesPerPixel, 1);
+  const predictor = getTag(tags, TAG.predictor, 1);
+
+  if (!getTag(tags, TAG.width, 0) || !getTag(tags, TAG.height, 0)) return 'The image size is missing';
+  if (!SUPPORTED_COMPRESSIONS.includes(compression)) {
+    return `${COMPRESSION_NAMES[compression] || `Compression ${compression}`} is not supported`;
+  }
+  if (photometric > 3) return `${getColorMode(photometric, false)} images are not supported`;
+  if (samples < (photometric === 2 ? 3 : 1)) return 'The image has too few samples per pixel';
+  if (bits.some(value => value !== bits[0])) return 'Mixed bit depths are not supported';
+  if (![1, 2, 4, 8, 16].includes(bits[0])) return `${bits[0]}-bit samples are not supported`;
+  if (photometric === 2 && bits[0] < 8) return `${bits[0]}-bit RGB is not supported`;
+  if (photometric === 3 && (bits[0] > 8 || !tags.has(TAG.colorMap))) return 'The colour palette is missing or too large';
+  if (getTag(tags, TAG.sampleFormat, 1) === 3) return 'Floating-point samples are not supported';
+  if (predictor > 2 || (predictor === 2 && bits[0] < 8)) return 'This predictor is not supported';
+  if (!tags.has(TAG.stripOffsets) && !tags.has(TAG.tileOffsets)) return 'The image data is missing';
+  return null;
+};
+
+// Every full-resolution page; reduced-size previews some scanners store
+// alongside are left out
+export const readTiffPages = (bytes: Uint8Array): TiffPage[] => {
+  if (!isTiff(bytes)) throw new Error('This is not a TIFF file');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[0] === 0x49;
+
+  const pages: TiffPage[] = [];
+  const visited = new Set<number>();
+  let offset = view.getUint32(4, littleEndian);
+  while (offset > 0 && offset + 2 <= bytes.length && !visited.has(offset) && visited.size < MAX_PAGES) {
+    visited.add(offset);
+    // A chain pointing past the end of the file ends there
+    if (offset + 6 + view.getUint16(offset, littleEndian) * 12 > bytes.length) break;
+    const { tags, next } = readDirectory(view, offset, littleEndian);
+    offset = next;
+    if (getTag(tags, TAG.subfileType, 0) & 1) continue;
+
+    const photometric = getPhotometric(tags);
+    pages.push({
+      index: pages.length,
+      width: getTag(tags, TAG.width, 0),
+      height: getTag(tags, TAG.height, 0),
+      bitsPerSample: getTag(tags, TAG.bitsPerSample, 1),
+      samplesPerPixel: getTag(tags, TAG.samplesPerPixel, 1),
+      compression: COMPRESSION_NAMES[getTag(tags, TAG.compression, 1)] || `Compression ${getTag(tags, TAG.compression, 1)}`,
+      colorMode: getColorMode(photometric, getAlphaType(tags, photometric === 2 ? 3 : 1) > 0),
+      problem: getPageProblem(tags),
+      tags
+    });
+  }
+  if (pages.length === 0) throw new Error('The TIFF file contains no images');
+  return pages;
+};
+
+// TIFF LZW: codes most significant bit first, and the code width grows one
+// code early
+const lzwDecode = (input: Uint8Array, expected: number): Uint8Array => {
+  const output = new Uint8Array(expected);
+  const prefix = new Uint16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const lengths = new Uint16Array(4096);
+  for (let code = 0; code < 256; code++) {
+    suffix[code] = code;
+    first[code] = code;
+    lengths[code] = 1;
+  }
+
+  const writeString = (code: number, position: number) => {
+    for (let i = lengths[code] - 1, current = code; i >= 0; i--, current = prefix[current]) {
+      if (position + i < expected) output[position + i] = suffix[current];
+    }
+    return position + lengths[code];
+  };
+
+  const totalBits = input.length * 8;
+  let bitPosition = 0;
+  let codeWidth = 9;
+  let nextCode = 258;
+  let previous = -1;
+  let position = 0;
+  while (bitPosition + codeWidth <= totalBits && position < expected) {
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++, bitPosition++) {
+      code = (code << 1) | ((input[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1);
+    }
+    if (code === 257) break;
+    if (code === 256) {
+      codeWidth = 9;
+      nextCode = 258;
+      previous = -1;
+      continue;
+    }
+    if (previous === -1) {
+      if (code > 255) break;
+      output[position++] = code;
+      previous = code;
+      continue;
+    }
+
+    // A code not in the table yet is the previous string plus its own first byte
+    const known = code < nextCode;
+    if (!known && code !== nextCode) break;
+    if (nextCode < 4096) {
+      prefix[nextCode] = previous;
+      suffix[nextCode] = known ? first[code] : first[previous];
+      first[nextCode] = first[previous];
+      lengths[nextCode] = lengths[previous] + 1;
+      nextCode++;
+    }
+    position = writeString(code, position);
+    previous = code;
+    if (nextCode + 1 >= 1 << codeWidth && codeWidth < 12) codeWidth++;
+  }
+  return output;
+};
+
+const unpackBits = (input: Uint8Array, expected: number): Uint8Array => {
+  const output = new Uint8Array(expected);
+  let i = 0;
+  let position = 0;
+  while (i < input.length && position < expected) {
+    const header = (input[i++] << 24) >> 24;
+    if (header >= 0) {
+      const run = input.subarray(i, i + header + 1).subarray(0, expected - position);
+      output.set(run, position);
+      position += run.length;
+      i += header + 1;
+    } else if (header !== -128) {
+      output.fill(input[i++], position, Math.min(expected, position + 1 - header));
+      position += 1 - header;
+    }
+  }
+  return output;
+};
+
+const inflate = async (input: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read Deflate-compressed TIFF files');
+  }
+  const stream = new Blob([input]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const decompress = async (input: Uint8Array, compression: number, expected: number): Promise<Uint8Array> => {
+  let data: Uint8Array;
+  if (compression === 5) data = lzwDecode(input, expected);
+  else if (compression === 32773) data = unpackBits(input, expected);
+  else if (compression === 8 || compression === 32946) data = await inflate(input);
+  else data = input;
+  if (data.length >= expected) return data;
+  // Short chunks from truncated files are padded rather than rejected
+  const padded = new Uint8Array(expected);
+  padded.set(data);
+  return padded;
+};
+
+// Undo horizontal differencing: each sample was stored minus the same sample
+// of the pixel to its left
+const undoPredictor = (data: Uint8Array, rowBytes: number, rows: number, samples: number, bits: number, littleEndian: boolean) => {
+  if (bits === 8) {
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes;
+      for (let i = start + samples; i < start + rowBytes; i++) data[i] = (data[i] + data[i - samples]) & 0xff;
+    }
+    return;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const stride = samples * 2;
+  for (let row = 0; row < rows; row++) {
+    const start = row * rowBytes;
+    for (let i = start + stride; i + 1 < start + rowBytes; i += 2) {
+      view.setUint16(i, (view.getUint16(i, littleEndian) + view.getUint16(i - stride, littleEndian)) & 0xffff, littleEndian);
+    }
+  }
+};
+
+export const decodeTiffPage = async (bytes: Uint8Array, page: TiffPage): Promise<DecodedTiff> => {
+  if (page.problem) throw new Error(page.problem);
+  const { tags, width, height } = page;
+  const littleEndian = bytes[0] === 0x49;
+  const bits = getTag(tags, TAG.bitsPerSample, 1);
+  const samples = getTag(tags, TAG.samplesPerPixel, 1);
+  const compression = getTag(tags, TAG.compression, 1);
+  const predictor = getTag(tags, TAG.predictor, 1);
+  const photometric = getPhotometric(tags);
+  const colorSamples = photometric === 2 ? 3 : 1;
+  const alphaType = getAlphaType(tags, colorSamples);
+  const planar = getTag(tags, TAG.planarConfiguration, 1) === 2;
+
+  const tiled = tags.has(TAG.tileOffsets);
+  const chunkWidth = tiled ? getTag(tags, TAG.tileWidth, width) : width;
+  const chunkHeight = tiled ? getTag(tags, TAG.tileLength, height) : Math.min(height, getTag(tags, TAG.rowsPerStrip, height));
+  const offsets = tags.get(tiled ? TAG.tileOffsets : TAG.stripOffsets) || [];
+  const byteCounts = tags.get(tiled ? TAG.tileByteCounts : TAG.stripByteCounts) || [];
+  const across = Math.ceil(width / chunkWidth);
+  const down = Math.ceil(height / chunkHeight);
+  const chunkSamples = planar ? 1 : samples;
+  const rowBytes = Math.ceil((chunkWidth * chunkSamples * bits) / 8);
+
+  // Scale any bit depth to 0-255; palette indices are looked up instead
+  const maxValue = bits === 16 ? 65535 : (1 << bits) - 1;
+  const toByte = (value: number) => Math.round((value * 255) / maxValue);
+  const colorMap = tags.get(TAG.colorMap);
+  const paletteSize = 1 << bits;
+
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  if (alphaType === 0) {
+    for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+  }
+
+  const storeSample = (pixel: number, sample: number, value: number) => {
+    if (sample >= colorSamples) {
+      if (sample === colorSamples && alphaType > 0) pixels[pixel + 3] = toByte(value);
+      return;
+    }
+    if (photometric === 2) {
+      pixels[pixel + sample] = toByte(value);
+    } else if (photometric === 3 && colorMap) {
+      pixels[pixel] = colorMap[value] >> 8;
+      pixels[pixel + 1] = colorMap[paletteSize + value] >> 8;
+      pixels[pixel + 2] = colorMap[paletteSize * 2 + value] >> 8;
+    } else {
+      const grey = photometric === 0 ? 255 - toByte(value) : toByte(value);
+      pixels[pixel] = grey;
+      pixels[pixel + 1] = grey;
+      pixels[pixel + 2] = grey;
+    }
+  };
+
+  for (let plane = 0; plane < (planar ? samples : 1); plane++) {
+    for (let chunkRow = 0; chunkRow < down; chunkRow++) {
+      for (let chunkCol = 0; chunkCol < across; chunkCol++) {
+        const chunk = plane * across * down + chunkRow * across + chunkCol;
+        const top = chunkRow * chunkHeight;
+        const left = chunkCol * chunkWidth;
+        // The last strip stops at the image edge; tiles are always full size
+        const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - top);
+        const expected = rowBytes * rows;
+        const start = offsets[chunk];
+        if (start === undefined) throw new Error('The TIFF file is missing image data');
+        const count = byteCounts[chunk] ?? expected;
+        const data = await decompress(bytes.subarray(start, start + count), compression, expected);
+        if (predictor === 2) undoPredictor(data, rowBytes, rows, chunkSamples, bits, littleEndian);
+
+        for (let y = 0; y < rows && top + y < height; y++) {
+          const rowStart = y * rowBytes;
+          for (let x = 0; x < chunkWidth && left + x < width; x++) {
+            const pixel = ((top + y) * width + left + x) * 4;
+            for (let s = 0; s < chunkSamples; s++) {
+              const index = x * chunkSamples + s;
+              let value: number;
+              if (bits === 8) {
+                value = data[rowStart + index];
+              } else if (bits === 16) {
+                const at = rowStart + index * 2;
+                value = littleEndian ? data[at] | (data[at + 1] << 8) : (data[at] << 8) | data[at + 1];
+              } else {
+                const bit = index * bits;
+                value = (data[rowStart + (bit >> 3)] >> (8 - bits - (bit & 7))) & maxValue;
+              }
+              storeSample(pixel, planar ? plane : s, value);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  if (alphaType === 1) {
+    // Canvases want straight alpha
+    for (let i = 0; i < pixels.length; i += 4) {
+      const alpha = pixels[i + 3];
+      if (alpha === 0 || alpha === 255) continue;
+      for (let c = 0; c < 3; c++) pixels[i + c] = (pixels[i + c] * 255) / alpha;
+    }
+  }
+  return { width, height, pixels };
+};
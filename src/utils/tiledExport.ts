@@ -0,0 +1,99 @@
+import { CropArea, ExportSettings } from '../App';
+import { RegionStrip, renderCropRegion } from './cropRenderer';
+import { SourceImage } from './background';
+import { MAX_CANVAS_SIDE, get2dContext } from './resample';
+import { EncodedImage } from './targetSize';
+import { readFileAsDataUrl } from './imageLoader';
+import { crc32 } from './zip';
+
+type Size = { width: number; height: number };
+
+// Strips stay small enough to render on any device
+const MAX_STRIP_PIXELS = 16_000_000;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const createChunk = (type: string, data: Uint8Array) => {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+};
+
+// One PNG row with the Sub filter: each byte minus the same channel of the
+// pixel to its left, which compresses photos far better than raw rows
+const filterRow = (pixels: Uint8ClampedArray, offset: number, stride: number, output: Uint8Array, outputOffset: number) => {
+  output[outputOffset] = 1;
+  for (let i = 0; i < stride; i++) {
+    const left = i >= 4 ? pixels[offset + i - 4] : 0;
+    output[outputOffset + 1 + i] = (pixels[offset + i] - left) & 0xff;
+  }
+};
+
+// Render a crop that is too large for one canvas as horizontal strips and
+// stream their rows through the browser's zlib compressor into a PNG. No
+// canvas ever holds the whole image, so any size that fits in memory works.
+// Always PNG: the browser's JPEG and WebP encoders need the whole canvas.
+export const encodeTiledPng = async (
+  image: SourceImage,
+  crop: CropArea,
+  settings: ExportSettings,
+  size: Size
+): Promise<EncodedImage> => {
+  if (size.width > MAX_CANVAS_SIDE) {
+    throw new Error(`Exports wider than ${MAX_CANVAS_SIDE} pixels are not supported`);
+  }
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('This browser cannot export images larger than its canvas size limit');
+  }
+
+  const compressor = new CompressionStream('deflate');
+  const writer = compressor.writable.getWriter();
+  const compressed = new Response(compressor.readable).arrayBuffer();
+  const stride = size.width * 4;
+  const rowsPerStrip = Math.max(1, Math.min(size.height, Math.floor(MAX_STRIP_PIXELS / size.width)));
+
+  try {
+    for (let top = 0; top < size.height; top += rowsPerStrip) {
+      const strip: RegionStrip = { ...size, top, rows: Math.min(rowsPerStrip, size.height - top) };
+      const canvas = renderCropRegion(image, crop, settings, strip);
+      const pixels = get2dContext(canvas).getImageData(0, 0, size.width, strip.rows).data;
+      const rows = new Uint8Array(strip.rows * (stride + 1));
+      for (let y = 0; y < strip.rows; y++) {
+        filterRow(pixels, y * stride, stride, rows, y * (stride + 1));
+      }
+      // Free the strip before rendering the next one
+      canvas.width = 0;
+      await writer.write(rows);
+    }
+    await writer.close();
+  } catch (error) {
+    writer.abort(error).catch(() => undefined);
+    compressed.catch(() => undefined);
+    throw error;
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, size.width);
+  view.setUint32(4, size.height);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, deflate, no interlace
+  const blob = new Blob([
+    new Uint8Array(PNG_SIGNATURE),
+    createChunk('IHDR', header),
+    createChunk('IDAT', new Uint8Array(await compressed)),
+    createChunk('IEND', new Uint8Array(0))
+  ], { type: 'image/png' });
+
+  return {
+    dataUrl: await readFileAsDataUrl(blob),
+    bytes: blob.size,
+    quality: null,
+    width: size.width,
+    height: size.height,
+    withinTarget: !settings.targetSize.enabled || blob.size <= settings.targetSize.kilobytes * 1024
+  };
+};
@@ -0,0 +1,90 @@
+import { LoadedImage, loadImage, readFileAsDataUrl } from './imageLoader';
+import { createCanvas, get2dContext } from './resample';
+
+// Captured frames are named "<video file>#t=<seconds>", the media fragment
+// syntax, so exports and the filmstrip can tell where a frame came from
+const FRAME_NAME_PATTERN = /^(.*)#t=(\d+(?:\.\d+)?)$/;
+
+// Browsers don't report a video's frame rate, so stepping uses a chosen one
+export const FRAME_RATES = [24, 25, 30, 50, 60];
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/');
+
+export const getFrameName = (videoName: string, time: number) => `${videoName}#t=${time.toFixed(3)}`;
+
+export const parseFrameName = (name: string | null) => {
+  const match = name ? FRAME_NAME_PATTERN.exec(name) : null;
+  return match ? { videoName: match[1], time: Number(match[2]) } : null;
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const splitTime = (time: number) => {
+  const ms = Math.round(time * 1000);
+  return {
+    hours: Math.floor(ms / 3_600_000),
+    minutes: Math.floor(ms / 60_000) % 60,
+    seconds: Math.floor(ms / 1000) % 60,
+    milliseconds: ms % 1000
+  };
+};
+
+// "1:05.120" for display
+export const formatTimecode = (time: number) => {
+  const { hours, minutes, seconds, milliseconds } = splitTime(time);
+  const clock = hours > 0 ? `${hours}:${pad(minutes)}` : String(minutes);
+  return `${clock}:${pad(seconds)}.${pad(milliseconds, 3)}`;
+};
+
+// "1m05s120" for file names: letters and digits only, so it survives sanitizing
+export const formatFrameTime = (time: number) => {
+  const { hours, minutes, seconds, milliseconds } = splitTime(time);
+  const clock = hours > 0 ? `${hours}h${pad(minutes)}` : String(minutes);
+  return `${clock}m${pad(seconds)}s${pad(milliseconds, 3)}`;
+};
+
+// The file name without its extension, with the frame time for captured frames
+export const getSourceBaseName = (name: string | null) => {
+  const frame = parseFrameName(name);
+  const base = (frame ? frame.videoName : name || '').replace(/\.[^.]+$/, '');
+  return frame ? `${base}_${formatFrameTime(frame.time)}` : base;
+};
+
+export const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+    };
+    const handleSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('The video could not be read at this point'));
+    };
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = time;
+  });
+};
+
+// Grab the frame on screen as a lossless PNG, so it crops like any image
+export const captureVideoFrame = async (video: HTMLVideoElement, videoName: string): Promise<LoadedImage> => {
+  if (!video.videoWidth || !video.videoHeight) throw new Error('The video has no frame to capture yet');
+
+  const canvas = createCanvas(video.videoWidth, video.videoHeight);
+  get2dContext(canvas).drawImage(video, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  canvas.width = 0;
+  if (!blob) throw new Error('The frame could not be captured');
+
+  const imageUrl = await readFileAsDataUrl(blob);
+  return {
+    imageUrl,
+    sourceUrl: imageUrl,
+    image: await loadImage(imageUrl),
+    fileName: getFrameName(videoName, video.currentTime)
+  };
+};
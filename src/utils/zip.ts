@@ -0,0 +1,124 @@
+// Minimal ZIP writer. Entries are stored uncompressed: exported images are
+// already compressed, so deflating them again would cost time for no gain.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  lastModified?: Date;
+}
+
+const MAX_ZIP_SIZE = 0xffffffff; // No ZIP64 support
+const MAX_ZIP_ENTRIES = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+export const crc32 = (data: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Decoded size of a base64 data URL without decoding it
+export const getDataUrlByteLength = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  if (entries.length > MAX_ZIP_ENTRIES) {
+    throw new Error(`Too many files for one ZIP archive (${entries.length})`);
+  }
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.lastModified || new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // Flags: UTF-8 file names
+    local.setUint16(8, 0, true); // Method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true); // Compressed size
+    local.setUint32(22, entry.data.length, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true); // Version needed to extract
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    // Extra, comment, disk number and attributes are all zero
+    central.setUint32(42, offset, true); // Offset of local header
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('ZIP archive would exceed 4 GB');
+    }
+  });
+
+  const centralSize = centralDirectory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Total entries
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // Central directory offset
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};